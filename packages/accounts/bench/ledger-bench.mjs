@@ -0,0 +1,110 @@
+/**
+ * Ledger benchmark against a local Redis.
+ *
+ * Usage: npm run bench -- [--ops <n>] [--concurrency <n>] [--accounts <n>]
+ *
+ * Fires concurrent transfers between a handful of hot accounts (the room's recycle/pellet pattern),
+ * plus idempotent retries, on a throwaway serverId. Reports throughput and failures, then checks that
+ * the total balance is conserved and every successful movement was journaled.
+ *
+ * Uses REDIS_URL (default redis://127.0.0.1:6379). Only keys under the bench serverId are touched, and
+ * they are deleted afterwards.
+ */
+
+import Redis from "ioredis";
+import { AccountManager } from "../dist/index.js";
+
+function flag(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`);
+  const value = i >= 0 ? Number(process.argv[i + 1]) : fallback;
+  if (!Number.isInteger(value) || value <= 0) {
+    console.error(`[bench] --${name} expects a positive integer`);
+    process.exit(2);
+  }
+  return value;
+}
+
+const OPS = flag("ops", 20000);
+const CONCURRENCY = flag("concurrency", 64);
+const ACCOUNTS = flag("accounts", 4);
+const SEED_WEI = 1_000_000_000n;
+
+async function main() {
+  const redis = new Redis(process.env.REDIS_URL ?? "redis://127.0.0.1:6379");
+  const ledger = new AccountManager(redis);
+  const serverId = `bench-${process.pid}-${Date.now()}`;
+  const accounts = Array.from({ length: ACCOUNTS }, (_, i) => `bench:${i}`);
+
+  try {
+    for (const account of accounts) await ledger.deposit(serverId, account, SEED_WEI);
+
+    let next = 0;
+    let moved = 0;
+    let insufficient = 0;
+    let errors = 0;
+    const latencies = [];
+
+    const worker = async () => {
+      while (next < OPS) {
+        const i = next++;
+        const from = accounts[i % ACCOUNTS];
+        const to = accounts[(i * 7 + 1) % ACCOUNTS];
+        // Every 10th op replays the previous op's idempotency key, like a retried request
+        const key = i % 10 === 0 && i > 0 ? `op:${i - 1}` : `op:${i}`;
+        const started = performance.now();
+        try {
+          const ok = await ledger.transfer(serverId, from, to, BigInt(1 + (i % 1000)), key);
+          if (ok) moved++;
+          else insufficient++;
+        } catch (error) {
+          errors++;
+          if (errors <= 5) console.error("[bench] Transfer failed:", error);
+        }
+        latencies.push(performance.now() - started);
+      }
+    };
+
+    const started = performance.now();
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+    const elapsedMs = performance.now() - started;
+
+    latencies.sort((a, b) => a - b);
+    const pct = (p) => latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * p))].toFixed(2);
+    console.log(`[bench] ${OPS} transfers over ${ACCOUNTS} accounts, concurrency ${CONCURRENCY}`);
+    console.log(`[bench] ${Math.round((OPS / elapsedMs) * 1000)} ops/s, p50 ${pct(0.5)} ms, p99 ${pct(0.99)} ms`);
+    console.log(`[bench] moved/cached ${moved}, insufficient ${insufficient}, errors ${errors}`);
+
+    // Conservation: transfers never create or destroy wei
+    let total = 0n;
+    for (const account of accounts) total += await ledger.getBalance(serverId, account);
+    const expectedTotal = SEED_WEI * BigInt(ACCOUNTS);
+
+    // Journal: replaying every entry (seed deposits + transfers, retries journaled once) must rebuild the balances
+    const replayed = await ledger.replayJournal(serverId);
+
+    const problems = [];
+    if (errors > 0) problems.push(`${errors} transfers threw`);
+    if (total !== expectedTotal) problems.push(`balances sum to ${total}, expected ${expectedTotal}`);
+    for (const account of accounts) {
+      const balance = await ledger.getBalance(serverId, account);
+      if ((replayed.get(account) ?? 0n) !== balance) problems.push(`journal replay disagrees for ${account}`);
+    }
+
+    if (problems.length > 0) {
+      console.error(`[bench] FAILED: ${problems.join("; ")}`);
+      process.exitCode = 1;
+    } else {
+      console.log("[bench] OK: balances conserved and journal replay matches");
+    }
+  } finally {
+    // Keys embed the serverId as right-padded hex (see AccountManager.toBytes32)
+    const keys = await redis.keys(`*0x${Buffer.from(serverId, "utf8").toString("hex")}*`);
+    if (keys.length > 0) await redis.del(...keys);
+    redis.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("[bench] Failed:", error);
+  process.exit(1);
+});
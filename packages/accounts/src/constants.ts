@@ -11,8 +11,8 @@ export const DEFAULT_EXIT_TICKET_TTL_SECONDS = 60 * 60 * 24;
 /** Maximum value for Redis int64 operations */
 export const MAX_INT64 = 9_223_372_036_854_775_807n;
 
-/** Maximum retries for optimistic lock (WATCH/MULTI) */
-export const WATCH_MAX_RETRIES = 25;
+/** Counterparty for funds entering (deposit) or leaving (burn) the ledger in journal entries */
+export const JOURNAL_EXTERNAL_ACCOUNT = "external";
 
-/** Jitter between retries (ms) */
-export const WATCH_JITTER_MS = 15;
+/** Journal stream entries scanned per read */
+export const DEFAULT_JOURNAL_PAGE_SIZE = 1000;
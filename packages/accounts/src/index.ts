@@ -1,12 +1,48 @@
 import type Redis from "ioredis";
 import { keccak256, encodePacked, type Hex } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
-import { DEFAULT_IDEMPOTENCY_TTL_SECONDS, DEFAULT_EXIT_TICKET_TTL_SECONDS, MAX_INT64 } from "./constants.js";
-import type { IdempotentRecord, OpType, ExitTicket, SerializedExitTicket, SigningConfig } from "./types.js";
-import { assertPositiveInt64, parseBalance, withOptimisticLock } from "./utils.js";
+import {
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+  DEFAULT_EXIT_TICKET_TTL_SECONDS,
+  DEFAULT_JOURNAL_PAGE_SIZE,
+  JOURNAL_EXTERNAL_ACCOUNT,
+  MAX_INT64,
+} from "./constants.js";
+import {
+  journalEntryToCsv,
+  journalEntryToJson,
+  JOURNAL_CSV_HEADER,
+  parseJournalItem,
+} from "./journal.js";
+import type {
+  ExitTicket,
+  JournalEntry,
+  JournalPage,
+  JournalQuery,
+  SerializedExitTicket,
+  SigningConfig,
+} from "./types.js";
+import {
+  BURN_SCRIPT,
+  DEPOSIT_SCRIPT,
+  REFUND_SCRIPT,
+  RESIGN_SCRIPT,
+  TRANSFER_SCRIPT,
+  WITHDRAW_SCRIPT,
+} from "./lua.js";
+import { assertPositiveInt64, parseBalance, runScript } from "./utils.js";
 
 // Re-export types for consumers
-export type { ExitTicket, SerializedExitTicket, SigningConfig } from "./types.js";
+export type {
+  ExitTicket,
+  JournalEntry,
+  JournalOp,
+  JournalPage,
+  JournalQuery,
+  SerializedExitTicket,
+  SigningConfig,
+} from "./types.js";
+export { DEFAULT_IDEMPOTENCY_TTL_SECONDS, JOURNAL_EXTERNAL_ACCOUNT } from "./constants.js";
 
 // ============================================================================
 // Types
@@ -31,11 +67,15 @@ export interface AccountManagerOptions {
 
 /**
  * Redis-backed account ledger with server-scoped keys, idempotency, and
- * atomic balance operations. All amounts are in wei (bigint).
+ * atomic balance operations (each one a Lua script, see lua.ts). All amounts are in wei (bigint).
  *
  * Key structure:
  * - `acc:{serverId}:{accountName}` — balance (string integer)
  * - `idemp:{serverId}:{idempotencyKey}` — cached operation result
+ * - `exits:{wallet}` — hash of unclaimed exit tickets, field `{serverId}:{sessionId}`
+ * - `exits:deadline:{serverId}` — sorted set of unclaimed tickets (`{wallet}:{sessionId}`) by deadline
+ * - `journal:{serverId}` — append-only stream of every balance movement (written by the same
+ *   script as the balance change; see JournalEntry)
  *
  * Account naming convention:
  * - `user:pending:spawn:<wallet>` — deposit balance for spawning
@@ -88,46 +128,39 @@ export class AccountManager {
     return `idemp:${this.toBytes32(serverId)}:${key}`;
   }
 
-  // --------------------------------------------------------------------------
-  // Idempotency Helpers
-  // --------------------------------------------------------------------------
+  private keyJournal(serverId: string): string {
+    return `journal:${this.toBytes32(serverId)}`;
+  }
 
-  /**
-   * Check if an idempotency key already has a cached result.
-   * Returns the cached result or null if not found.
-   */
-  private async getCachedResult(idKey: string, expectedOp: OpType): Promise<IdempotentRecord | null> {
-    const raw = await this.redis.get(idKey);
-    if (!raw) return null;
-    const record = JSON.parse(raw) as IdempotentRecord;
-    if (record.op !== expectedOp) {
-      throw new Error(`Idempotency key reused for different operation: expected ${expectedOp}, got ${record.op}`);
-    }
-    return record;
+  private keyPendingExits(wallet: string): string {
+    return `exits:${wallet.toLowerCase()}`;
   }
 
-  /**
-   * Store an idempotency result with TTL.
-   */
-  private async storeIdempResult(idKey: string, record: IdempotentRecord): Promise<void> {
-    const json = JSON.stringify(record);
-    if (this.idempotencyTtl > 0) {
-      await this.redis.setex(idKey, this.idempotencyTtl, json);
-    } else {
-      await this.redis.set(idKey, json);
-    }
+  private fieldPendingExit(serverId: string, sessionId: string): string {
+    return `${this.toBytes32(serverId)}:${sessionId.toLowerCase()}`;
+  }
+
+  private keyExitDeadlines(serverId: string): string {
+    return `exits:deadline:${this.toBytes32(serverId)}`;
+  }
+
+  private memberExitDeadline(wallet: string, sessionId: string): string {
+    return `${wallet.toLowerCase()}:${sessionId.toLowerCase()}`;
   }
 
+  // --------------------------------------------------------------------------
+  // Script Helpers
+  // --------------------------------------------------------------------------
+
   /**
-   * Queue idempotency result storage within a MULTI transaction.
+   * Leading ARGV shared by the balance scripts (TTL + raw key) and the optional trailing
+   * idempotency KEYS entry (see lua.ts).
    */
-  private queueIdempResult(tx: ReturnType<Redis["multi"]>, idKey: string, record: IdempotentRecord): void {
-    const json = JSON.stringify(record);
-    if (this.idempotencyTtl > 0) {
-      tx.setex(idKey, this.idempotencyTtl, json);
-    } else {
-      tx.set(idKey, json);
-    }
+  private idempotency(serverId: string, idempotencyKey?: string): { keys: string[]; args: string[] } {
+    return {
+      keys: idempotencyKey ? [this.keyIdemp(serverId, idempotencyKey)] : [],
+      args: [String(this.idempotencyTtl), idempotencyKey ?? ""],
+    };
   }
 
   // --------------------------------------------------------------------------
@@ -218,6 +251,27 @@ export class AccountManager {
     return parseBalance(raw);
   }
 
+  /**
+   * Balances of every account on a server whose name starts with `prefix` (all accounts by default).
+   * Keys are found with SCAN, then read with a single MGET so the balances are one consistent snapshot.
+   */
+  async getBalances(serverId: string, prefix: string = ""): Promise<Map<string, bigint>> {
+    const keyPrefix = this.keyAccount(serverId, "");
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = await this.redis.scan(cursor, "MATCH", `${keyPrefix}${prefix}*`, "COUNT", 1000);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== "0");
+
+    const balances = new Map<string, bigint>();
+    if (keys.length === 0) return balances;
+    const values = await this.redis.mget(...keys);
+    keys.forEach((key, i) => balances.set(key.slice(keyPrefix.length), parseBalance(values[i] ?? null)));
+    return balances;
+  }
+
   // --------------------------------------------------------------------------
   // Public: Deposit
   // --------------------------------------------------------------------------
@@ -237,30 +291,14 @@ export class AccountManager {
     assertPositiveInt64(amountWei, this.maxAmount);
     if (amountWei === 0n) return this.getBalance(serverId, accountName);
 
-    const balKey = this.keyAccount(serverId, accountName);
-
-    // Fast path: no idempotency
-    if (!idempotencyKey) {
-      const next = await this.redis.incrby(balKey, amountWei.toString());
-      return BigInt(next);
-    }
-
-    // Idempotent path
-    const idKey = this.keyIdemp(serverId, idempotencyKey);
-
-    return withOptimisticLock(this.redis, [balKey, idKey], async () => {
-      const cached = await this.getCachedResult(idKey, "deposit");
-      if (cached?.op === "deposit") return BigInt(cached.newBalanceWei);
-
-      const tx = this.redis.multi();
-      tx.incrby(balKey, amountWei.toString());
-      const exec = await tx.exec();
-      if (!exec) return null; // WATCH failed, retry
-
-      const newBal = String(exec[0]?.[1] ?? "0");
-      await this.storeIdempResult(idKey, { ok: true, op: "deposit", newBalanceWei: newBal });
-      return BigInt(newBal);
-    });
+    const idem = this.idempotency(serverId, idempotencyKey);
+    const next = await runScript(
+      this.redis,
+      DEPOSIT_SCRIPT,
+      [this.keyAccount(serverId, accountName), this.keyJournal(serverId), ...idem.keys],
+      [...idem.args, amountWei.toString(), JOURNAL_EXTERNAL_ACCOUNT, accountName],
+    );
+    return BigInt(next as string);
   }
 
   // --------------------------------------------------------------------------
@@ -282,38 +320,14 @@ export class AccountManager {
     assertPositiveInt64(amountWei, this.maxAmount);
     if (amountWei === 0n) return true;
 
-    const balKey = this.keyAccount(serverId, accountName);
-
-    // Fast path: no idempotency
-    if (!idempotencyKey) {
-      return withOptimisticLock(this.redis, [balKey], async () => {
-        const current = parseBalance(await this.redis.get(balKey));
-        if (current < amountWei) return false;
-
-        const tx = this.redis.multi();
-        tx.decrby(balKey, amountWei.toString());
-        const exec = await tx.exec();
-        return exec ? true : null;
-      });
-    }
-
-    // Idempotent path
-    const idKey = this.keyIdemp(serverId, idempotencyKey);
-
-    return withOptimisticLock(this.redis, [balKey, idKey], async () => {
-      const cached = await this.getCachedResult(idKey, "burn");
-      if (cached) return cached.ok;
-
-      const current = parseBalance(await this.redis.get(balKey));
-      const ok = current >= amountWei;
-
-      const tx = this.redis.multi();
-      if (ok) tx.decrby(balKey, amountWei.toString());
-      this.queueIdempResult(tx, idKey, { ok, op: "burn" });
-
-      const exec = await tx.exec();
-      return exec ? ok : null;
-    });
+    const idem = this.idempotency(serverId, idempotencyKey);
+    const ok = await runScript(
+      this.redis,
+      BURN_SCRIPT,
+      [this.keyAccount(serverId, accountName), this.keyJournal(serverId), ...idem.keys],
+      [...idem.args, amountWei.toString(), accountName, JOURNAL_EXTERNAL_ACCOUNT],
+    );
+    return ok === 1;
   }
 
   // --------------------------------------------------------------------------
@@ -336,43 +350,19 @@ export class AccountManager {
     assertPositiveInt64(amountWei, this.maxAmount);
     if (amountWei === 0n) return true;
 
-    const fromKey = this.keyAccount(serverId, fromAccountName);
-    const toKey = this.keyAccount(serverId, toAccountName);
-
-    // Fast path: no idempotency
-    if (!idempotencyKey) {
-      return withOptimisticLock(this.redis, [fromKey, toKey], async () => {
-        const fromBal = parseBalance(await this.redis.get(fromKey));
-        if (fromBal < amountWei) return false;
-
-        const tx = this.redis.multi();
-        tx.decrby(fromKey, amountWei.toString());
-        tx.incrby(toKey, amountWei.toString());
-        const exec = await tx.exec();
-        return exec ? true : null;
-      });
-    }
-
-    // Idempotent path
-    const idKey = this.keyIdemp(serverId, idempotencyKey);
-
-    return withOptimisticLock(this.redis, [fromKey, toKey, idKey], async () => {
-      const cached = await this.getCachedResult(idKey, "transfer");
-      if (cached) return cached.ok;
-
-      const fromBal = parseBalance(await this.redis.get(fromKey));
-      const ok = fromBal >= amountWei;
-
-      const tx = this.redis.multi();
-      if (ok) {
-        tx.decrby(fromKey, amountWei.toString());
-        tx.incrby(toKey, amountWei.toString());
-      }
-      this.queueIdempResult(tx, idKey, { ok, op: "transfer" });
-
-      const exec = await tx.exec();
-      return exec ? ok : null;
-    });
+    const idem = this.idempotency(serverId, idempotencyKey);
+    const ok = await runScript(
+      this.redis,
+      TRANSFER_SCRIPT,
+      [
+        this.keyAccount(serverId, fromAccountName),
+        this.keyAccount(serverId, toAccountName),
+        this.keyJournal(serverId),
+        ...idem.keys,
+      ],
+      [...idem.args, amountWei.toString(), fromAccountName, toAccountName],
+    );
+    return ok === 1;
   }
 
   // --------------------------------------------------------------------------
@@ -385,6 +375,7 @@ export class AccountManager {
    * This is the main exit function:
    * 1. Transfers `amountWei` from `server:world` to `user:pending:exit:<wallet>`
    * 2. Signs and returns an ExitTicket
+   * 3. Keeps the ticket under `exits:<wallet>` (same transaction) until it is cleared or refunded
    *
    * Returns the ExitTicket if successful, null if insufficient balance in server:world.
    *
@@ -413,62 +404,231 @@ export class AccountManager {
       return this.signExitTicket(serverIdBytes32, sessionId, normalizedWallet, 0n, signingConfig);
     }
 
-    const fromKey = this.keyAccount(serverId, "server:world");
-    const toKey = this.keyAccount(serverId, `user:pending:exit:${normalizedWallet}`);
+    // Signed up front (signing is local); the script only commits it if the balance allows
+    const ticket = await this.signExitTicket(serverIdBytes32, sessionId, normalizedWallet, amountWei, signingConfig);
+    const exitAccount = `user:pending:exit:${normalizedWallet}`;
+    const idem = this.idempotency(serverId, idempotencyKey);
+    const [status, ticketJson] = (await runScript(
+      this.redis,
+      WITHDRAW_SCRIPT,
+      [
+        this.keyAccount(serverId, "server:world"),
+        this.keyAccount(serverId, exitAccount),
+        this.keyJournal(serverId),
+        this.keyPendingExits(normalizedWallet),
+        this.keyExitDeadlines(serverId),
+        ...idem.keys,
+      ],
+      [
+        ...idem.args,
+        amountWei.toString(),
+        "server:world",
+        exitAccount,
+        sessionId,
+        JSON.stringify(this.serializeTicket(ticket)),
+        this.fieldPendingExit(serverId, sessionId),
+        this.memberExitDeadline(normalizedWallet, sessionId),
+        ticket.deadline.toString(),
+      ],
+    )) as [string, string];
+
+    if (status === "insufficient") return null;
+    if (status === "cached") {
+      // Retry of a completed withdraw: hand back the original ticket (re-signed only if it wasn't recorded)
+      return ticketJson ? this.deserializeTicket(JSON.parse(ticketJson) as SerializedExitTicket) : ticket;
+    }
+    return ticket;
+  }
 
-    // Fast path: no idempotency
-    if (!idempotencyKey) {
-      const transferred = await withOptimisticLock(this.redis, [fromKey, toKey], async () => {
-        const fromBal = parseBalance(await this.redis.get(fromKey));
-        if (fromBal < amountWei) return false;
+  // --------------------------------------------------------------------------
+  // Public: Pending Exit Tickets
+  // --------------------------------------------------------------------------
 
-        const tx = this.redis.multi();
-        tx.decrby(fromKey, amountWei.toString());
-        tx.incrby(toKey, amountWei.toString());
-        const exec = await tx.exec();
-        return exec ? true : null;
-      });
+  /**
+   * Exit tickets issued to a wallet (on any server) whose on-chain Exit hasn't been indexed yet.
+   */
+  async getPendingExitTickets(wallet: `0x${string}`): Promise<SerializedExitTicket[]> {
+    const entries = await this.redis.hvals(this.keyPendingExits(wallet));
+    return entries.map((raw) => JSON.parse(raw) as SerializedExitTicket);
+  }
 
-      if (!transferred) return null;
-      return this.signExitTicket(serverIdBytes32, sessionId, normalizedWallet, amountWei, signingConfig);
-    }
+  /**
+   * Re-sign a pending exit ticket with a fresh deadline.
+   *
+   * The sessionId and payout are unchanged, so the contract still accepts at most one of the
+   * signatures. Returns null if the ticket is no longer pending (already claimed).
+   */
+  async resignExitTicket(
+    serverId: string,
+    wallet: `0x${string}`,
+    sessionId: `0x${string}`,
+    signingConfig: SigningConfig,
+  ): Promise<ExitTicket | null> {
+    const exitsKey = this.keyPendingExits(wallet);
+    const exitField = this.fieldPendingExit(serverId, sessionId);
+    const raw = await this.redis.hget(exitsKey, exitField);
+    if (!raw) return null;
 
-    // Idempotent path
-    const idKey = this.keyIdemp(serverId, idempotencyKey);
-
-    return withOptimisticLock(this.redis, [fromKey, toKey, idKey], async () => {
-      const cached = await this.getCachedResult(idKey, "withdraw");
-      if (cached && cached.op === "withdraw") {
-        if (!cached.ok) return null;
-        // Return cached ticket
-        if (cached.ticket) {
-          return this.deserializeTicket(cached.ticket);
-        }
-        // Ticket missing from cache (shouldn't happen), regenerate
-        return this.signExitTicket(serverIdBytes32, sessionId, normalizedWallet, amountWei, signingConfig);
+    const previous = this.deserializeTicket(JSON.parse(raw) as SerializedExitTicket);
+    const signed = await this.signExitTicket(
+      previous.serverId,
+      previous.sessionId,
+      previous.player,
+      previous.payout,
+      signingConfig,
+    );
+    // Only replaces the ticket if it is still pending (it may have been claimed or refunded meanwhile)
+    const replaced = await runScript(
+      this.redis,
+      RESIGN_SCRIPT,
+      [exitsKey, this.keyExitDeadlines(serverId)],
+      [
+        exitField,
+        this.memberExitDeadline(previous.player, sessionId),
+        JSON.stringify(this.serializeTicket(signed)),
+        signed.deadline.toString(),
+      ],
+    );
+    return replaced === 1 ? signed : null;
+  }
+
+  /**
+   * Pending exit tickets on a server whose deadline is at or before `deadline` (unix seconds),
+   * oldest first.
+   */
+  async getExpiredExitTickets(serverId: string, deadline: bigint, limit: number = 100): Promise<SerializedExitTicket[]> {
+    const deadlinesKey = this.keyExitDeadlines(serverId);
+    const members = await this.redis.zrangebyscore(deadlinesKey, "-inf", deadline.toString(), "LIMIT", 0, limit);
+
+    const tickets: SerializedExitTicket[] = [];
+    for (const member of members) {
+      const [wallet = "", sessionId = ""] = member.split(":");
+      const raw = await this.redis.hget(this.keyPendingExits(wallet), this.fieldPendingExit(serverId, sessionId));
+      if (raw) {
+        tickets.push(JSON.parse(raw) as SerializedExitTicket);
+      } else {
+        // Cleared without touching the index (tickets stored before it existed); drop the stale member
+        await this.redis.zrem(deadlinesKey, member);
       }
+    }
+    return tickets;
+  }
 
-      const fromBal = parseBalance(await this.redis.get(fromKey));
-      const ok = fromBal >= amountWei;
+  /**
+   * Refund an expired, unclaimed exit ticket: moves its payout from `user:pending:exit:<wallet>`
+   * back to the spendable `user:pending:spawn:<wallet>` and forgets the ticket.
+   *
+   * Only refunds while the stored ticket's deadline is still at or before `deadline`, so a ticket
+   * re-signed in the meantime is left alone. Returns true if a refund was made.
+   */
+  async refundExitTicket(
+    serverId: string,
+    wallet: `0x${string}`,
+    sessionId: `0x${string}`,
+    deadline: bigint,
+  ): Promise<boolean> {
+    const normalizedWallet = wallet.toLowerCase() as `0x${string}`;
+    const fromAccount = `user:pending:exit:${normalizedWallet}`;
+    const toAccount = `user:pending:spawn:${normalizedWallet}`;
+
+    // Less than the payout pending means it was already burned by a claim; the script just forgets the ticket
+    const refunded = await runScript(
+      this.redis,
+      REFUND_SCRIPT,
+      [
+        this.keyPendingExits(normalizedWallet),
+        this.keyExitDeadlines(serverId),
+        this.keyAccount(serverId, fromAccount),
+        this.keyAccount(serverId, toAccount),
+        this.keyJournal(serverId),
+      ],
+      [
+        this.fieldPendingExit(serverId, sessionId),
+        this.memberExitDeadline(normalizedWallet, sessionId),
+        deadline.toString(),
+        fromAccount,
+        toAccount,
+        sessionId,
+      ],
+    );
+    return refunded === 1;
+  }
 
-      if (!ok) {
-        // Store failure result
-        await this.storeIdempResult(idKey, { ok: false, op: "withdraw" });
-        return null;
-      }
+  /**
+   * Forget a pending exit ticket once its Exit event has been indexed.
+   */
+  async clearExitTicket(serverId: string, wallet: `0x${string}`, sessionId: `0x${string}`): Promise<void> {
+    const tx = this.redis.multi();
+    tx.hdel(this.keyPendingExits(wallet), this.fieldPendingExit(serverId, sessionId));
+    tx.zrem(this.keyExitDeadlines(serverId), this.memberExitDeadline(wallet, sessionId));
+    await tx.exec();
+  }
 
-      // Sign ticket first (before committing transfer)
-      const ticket = await this.signExitTicket(serverIdBytes32, sessionId, normalizedWallet, amountWei, signingConfig);
+  // --------------------------------------------------------------------------
+  // Public: Journal
+  // --------------------------------------------------------------------------
 
-      const tx = this.redis.multi();
-      tx.decrby(fromKey, amountWei.toString());
-      tx.incrby(toKey, amountWei.toString());
-      this.queueIdempResult(tx, idKey, { ok: true, op: "withdraw", ticket: this.serializeTicket(ticket) });
+  /**
+   * Read one page of a server's journal, oldest first.
+   *
+   * `limit` bounds the stream entries scanned, so an `account` filter can return fewer
+   * entries than that; keep paging with `after: page.cursor` until the cursor is null.
+   */
+  async readJournal(serverId: string, query: JournalQuery = {}): Promise<JournalPage> {
+    const limit = query.limit ?? DEFAULT_JOURNAL_PAGE_SIZE;
+    const start = query.after ? `(${query.after}` : query.since !== undefined ? `${query.since}-0` : "-";
+    const end = query.until !== undefined ? `${query.until}-18446744073709551615` : "+";
+
+    const items = await this.redis.xrange(this.keyJournal(serverId), start, end, "COUNT", limit);
+    const entries: JournalEntry[] = [];
+    for (const [id, fields] of items) {
+      const entry = parseJournalItem(id, fields);
+      if (!entry) continue;
+      if (query.account && entry.from !== query.account && entry.to !== query.account) continue;
+      entries.push(entry);
+    }
 
-      const exec = await tx.exec();
-      if (!exec) return null; // WATCH failed, retry
+    const last = items[items.length - 1];
+    return { entries, cursor: items.length === limit && last ? last[0] : null };
+  }
 
-      return ticket;
-    });
+  /**
+   * Stream a server's journal as export lines (CSV with a header row, or JSONL), oldest first.
+   * Accepts the same filters as readJournal (`after`/`limit` are managed internally).
+   */
+  async *exportJournal(
+    serverId: string,
+    format: "csv" | "jsonl",
+    query: Omit<JournalQuery, "after" | "limit"> = {},
+  ): AsyncGenerator<string> {
+    if (format === "csv") yield JOURNAL_CSV_HEADER;
+    let after: string | undefined;
+    for (;;) {
+      const page = await this.readJournal(serverId, { ...query, after });
+      for (const entry of page.entries) {
+        yield format === "csv" ? journalEntryToCsv(entry) : journalEntryToJson(entry);
+      }
+      if (!page.cursor) return;
+      after = page.cursor;
+    }
+  }
+
+  /**
+   * Replay the journal into per-account balances (optionally up to `until`, unix ms).
+   * For audits: on a server whose whole history is journaled this matches getBalance() for
+   * every account, and the external account holds minus the net funds inside the ledger.
+   */
+  async replayJournal(serverId: string, until?: number): Promise<Map<string, bigint>> {
+    const balances = new Map<string, bigint>();
+    let after: string | undefined;
+    for (;;) {
+      const page = await this.readJournal(serverId, { after, until });
+      for (const entry of page.entries) {
+        balances.set(entry.from, (balances.get(entry.from) ?? 0n) - entry.amountWei);
+        balances.set(entry.to, (balances.get(entry.to) ?? 0n) + entry.amountWei);
+      }
+      if (!page.cursor) return balances;
+      after = page.cursor;
+    }
   }
 }
@@ -0,0 +1,67 @@
+/**
+ * Journal encoding: Redis stream fields -> JournalEntry (entries are written by the scripts in lua.ts), plus CSV/JSONL export lines.
+ */
+import type { JournalEntry, JournalOp } from "./types.js";
+
+const JOURNAL_OPS: ReadonlySet<string> = new Set<JournalOp>(["deposit", "burn", "transfer", "withdraw", "refund"]);
+
+/**
+ * Parse an XRANGE item back into an entry. Returns null for malformed items.
+ */
+export function parseJournalItem(id: string, fields: string[]): JournalEntry | null {
+  const values = new Map<string, string>();
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    values.set(fields[i]!, fields[i + 1]!);
+  }
+  const op = values.get("op");
+  const from = values.get("from");
+  const to = values.get("to");
+  const amount = values.get("amount");
+  if (!op || !JOURNAL_OPS.has(op) || !from || !to || !amount) return null;
+
+  const entry: JournalEntry = { id, op: op as JournalOp, from, to, amountWei: BigInt(amount) };
+  const key = values.get("key");
+  const session = values.get("session");
+  if (key) entry.idempotencyKey = key;
+  if (session) entry.sessionId = session;
+  return entry;
+}
+
+/** Timestamp (unix ms) encoded in a stream id. */
+export function journalEntryTime(entry: JournalEntry): number {
+  return Number(entry.id.split("-")[0]);
+}
+
+export const JOURNAL_CSV_HEADER = "id,timestamp,op,from,to,amountWei,idempotencyKey,sessionId";
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function journalEntryToCsv(entry: JournalEntry): string {
+  return [
+    entry.id,
+    new Date(journalEntryTime(entry)).toISOString(),
+    entry.op,
+    entry.from,
+    entry.to,
+    entry.amountWei.toString(),
+    entry.idempotencyKey ?? "",
+    entry.sessionId ?? "",
+  ]
+    .map(csvField)
+    .join(",");
+}
+
+export function journalEntryToJson(entry: JournalEntry): string {
+  return JSON.stringify({
+    id: entry.id,
+    timestamp: journalEntryTime(entry),
+    op: entry.op,
+    from: entry.from,
+    to: entry.to,
+    amountWei: entry.amountWei.toString(),
+    idempotencyKey: entry.idempotencyKey,
+    sessionId: entry.sessionId,
+  });
+}
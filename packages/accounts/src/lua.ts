@@ -0,0 +1,193 @@
+/**
+ * Lua scripts for AccountManager operations.
+ *
+ * Each operation (balance check, balance change, idempotency record, journal entry, pending exit
+ * ticket) runs as one script, so it is atomic without WATCH/MULTI retries no matter how many
+ * callers hit the same accounts.
+ *
+ * Conventions shared by all scripts:
+ * - Amounts are decimal strings; balances change with INCRBY/DECRBY (int64), and comparisons are
+ *   done on the strings because Lua numbers are doubles.
+ * - An idempotency key, when used, is always the last KEYS entry; ARGV[1] is its TTL in seconds
+ *   (0 = no expiry) and ARGV[2] the raw key (recorded in the journal).
+ * - Journal entries use the same fields as journal.ts (`op`, `from`, `to`, `amount`, `key`, `session`).
+ */
+import { createHash } from "node:crypto";
+
+export interface LuaScript {
+  source: string;
+  sha1: string;
+}
+
+function defineScript(body: string): LuaScript {
+  const source = `${PRELUDE}\n${body}`;
+  return { source, sha1: createHash("sha1").update(source).digest("hex") };
+}
+
+const PRELUDE = `
+local function gte(a, b)
+  if string.sub(a, 1, 1) == "-" then return false end
+  if #a ~= #b then return #a > #b end
+  return a >= b
+end
+
+local function balance(key)
+  return redis.call("GET", key) or "0"
+end
+
+local function cached(idKey, op)
+  if not idKey then return nil end
+  local raw = redis.call("GET", idKey)
+  if not raw then return nil end
+  local record = cjson.decode(raw)
+  if record.op ~= op then
+    error({ err = "Idempotency key reused for different operation: expected " .. op .. ", got " .. tostring(record.op) })
+  end
+  return record
+end
+
+local function remember(idKey, ttl, record)
+  if not idKey then return end
+  local json = cjson.encode(record)
+  if tonumber(ttl) > 0 then
+    redis.call("SET", idKey, json, "EX", ttl)
+  else
+    redis.call("SET", idKey, json)
+  end
+end
+
+local function journal(key, op, from, to, amount, idem, session)
+  local fields = { "op", op, "from", from, "to", to, "amount", amount }
+  if idem and idem ~= "" then
+    table.insert(fields, "key")
+    table.insert(fields, idem)
+  end
+  if session and session ~= "" then
+    table.insert(fields, "session")
+    table.insert(fields, session)
+  end
+  redis.call("XADD", key, "*", unpack(fields))
+end
+`;
+
+/**
+ * KEYS: balance, journal, [idempotency]
+ * ARGV: ttl, idempotencyKey, amount, from (external), to (account)
+ * Returns the new balance.
+ */
+export const DEPOSIT_SCRIPT = defineScript(`
+local idKey = KEYS[3]
+local record = cached(idKey, "deposit")
+if record then return record.newBalanceWei end
+
+local nextBalance = redis.call("INCRBY", KEYS[1], ARGV[3])
+journal(KEYS[2], "deposit", ARGV[4], ARGV[5], ARGV[3], ARGV[2])
+remember(idKey, ARGV[1], { ok = true, op = "deposit", newBalanceWei = tostring(nextBalance) })
+return tostring(nextBalance)
+`);
+
+/**
+ * KEYS: balance, journal, [idempotency]
+ * ARGV: ttl, idempotencyKey, amount, from (account), to (external)
+ * Returns 1 if burned, 0 if the balance was insufficient.
+ */
+export const BURN_SCRIPT = defineScript(`
+local idKey = KEYS[3]
+local record = cached(idKey, "burn")
+if record then return record.ok and 1 or 0 end
+
+local ok = gte(balance(KEYS[1]), ARGV[3])
+if ok then
+  redis.call("DECRBY", KEYS[1], ARGV[3])
+  journal(KEYS[2], "burn", ARGV[4], ARGV[5], ARGV[3], ARGV[2])
+end
+remember(idKey, ARGV[1], { ok = ok, op = "burn" })
+return ok and 1 or 0
+`);
+
+/**
+ * KEYS: from balance, to balance, journal, [idempotency]
+ * ARGV: ttl, idempotencyKey, amount, from account, to account
+ * Returns 1 if moved, 0 if the source balance was insufficient.
+ */
+export const TRANSFER_SCRIPT = defineScript(`
+local idKey = KEYS[4]
+local record = cached(idKey, "transfer")
+if record then return record.ok and 1 or 0 end
+
+local ok = gte(balance(KEYS[1]), ARGV[3])
+if ok then
+  redis.call("DECRBY", KEYS[1], ARGV[3])
+  redis.call("INCRBY", KEYS[2], ARGV[3])
+  journal(KEYS[3], "transfer", ARGV[4], ARGV[5], ARGV[3], ARGV[2])
+end
+remember(idKey, ARGV[1], { ok = ok, op = "transfer" })
+return ok and 1 or 0
+`);
+
+/**
+ * KEYS: server:world, user:pending:exit, journal, pending exits hash, exit deadlines zset, [idempotency]
+ * ARGV: ttl, idempotencyKey, amount, from account, to account, sessionId,
+ *       signed ticket JSON, pending exit field, deadline member, deadline
+ * Returns { status, ticketJson }: "ok" (the given ticket was committed), "cached" (an earlier
+ * call's ticket, empty if it wasn't recorded) or "insufficient".
+ */
+export const WITHDRAW_SCRIPT = defineScript(`
+local idKey = KEYS[6]
+local record = cached(idKey, "withdraw")
+if record then
+  if not record.ok then return { "insufficient", "" } end
+  if record.ticket then return { "cached", cjson.encode(record.ticket) } end
+  return { "cached", "" }
+end
+
+if not gte(balance(KEYS[1]), ARGV[3]) then
+  remember(idKey, ARGV[1], { ok = false, op = "withdraw" })
+  return { "insufficient", "" }
+end
+
+redis.call("DECRBY", KEYS[1], ARGV[3])
+redis.call("INCRBY", KEYS[2], ARGV[3])
+redis.call("HSET", KEYS[4], ARGV[8], ARGV[7])
+redis.call("ZADD", KEYS[5], ARGV[10], ARGV[9])
+journal(KEYS[3], "withdraw", ARGV[4], ARGV[5], ARGV[3], ARGV[2], ARGV[6])
+remember(idKey, ARGV[1], { ok = true, op = "withdraw", ticket = cjson.decode(ARGV[7]) })
+return { "ok", ARGV[7] }
+`);
+
+/**
+ * KEYS: pending exits hash, exit deadlines zset
+ * ARGV: pending exit field, deadline member, re-signed ticket JSON, new deadline
+ * Returns 1 if the ticket was still pending and got replaced, 0 otherwise.
+ */
+export const RESIGN_SCRIPT = defineScript(`
+if redis.call("HEXISTS", KEYS[1], ARGV[1]) == 0 then return 0 end
+redis.call("HSET", KEYS[1], ARGV[1], ARGV[3])
+redis.call("ZADD", KEYS[2], ARGV[4], ARGV[2])
+return 1
+`);
+
+/**
+ * KEYS: pending exits hash, exit deadlines zset, user:pending:exit, user:pending:spawn, journal
+ * ARGV: pending exit field, deadline member, cutoff deadline, from account, to account, sessionId
+ * Returns 1 if refunded, 0 if the ticket is gone, was re-signed past the cutoff, or its payout had
+ * already left the pending-exit balance (then the ticket is just dropped).
+ */
+export const REFUND_SCRIPT = defineScript(`
+local raw = redis.call("HGET", KEYS[1], ARGV[1])
+if not raw then return 0 end
+local ticket = cjson.decode(raw)
+local deadline = tostring(ticket.deadline)
+if deadline ~= ARGV[3] and gte(deadline, ARGV[3]) then return 0 end
+
+local payout = tostring(ticket.payout)
+local refund = gte(balance(KEYS[3]), payout)
+if refund then
+  redis.call("DECRBY", KEYS[3], payout)
+  redis.call("INCRBY", KEYS[4], payout)
+  journal(KEYS[5], "refund", ARGV[4], ARGV[5], payout, nil, ARGV[6])
+end
+redis.call("HDEL", KEYS[1], ARGV[1])
+redis.call("ZREM", KEYS[2], ARGV[2])
+return refund and 1 or 0
+`);
@@ -35,7 +35,7 @@ export interface SigningConfig {
   exitTicketTtlSeconds?: number;
 }
 
-/** Stored idempotency record to return cached results on retry. */
+/** Stored idempotency record to return cached results on retry (JSON written by the Lua scripts). */
 export type IdempotentRecord =
   | { ok: true; op: "deposit"; newBalanceWei: string }
   | { ok: boolean; op: "withdraw"; ticket?: SerializedExitTicket }
@@ -44,3 +44,43 @@ export type IdempotentRecord =
 
 /** Operation type for idempotency validation */
 export type OpType = IdempotentRecord["op"];
+
+/** Ledger operation recorded in the journal. */
+export type JournalOp = "deposit" | "burn" | "transfer" | "withdraw" | "refund";
+
+/**
+ * One journal line: `amountWei` moved from one account to another. Funds entering or
+ * leaving the ledger (deposits, burns) use JOURNAL_EXTERNAL_ACCOUNT on the outside leg,
+ * so every entry balances.
+ */
+export interface JournalEntry {
+  /** Redis stream id (`<ms>-<seq>`), unique and ordered per server. */
+  id: string;
+  op: JournalOp;
+  from: string;
+  to: string;
+  amountWei: bigint;
+  idempotencyKey?: string;
+  /** Exit ticket sessionId for withdraw/refund entries. */
+  sessionId?: string;
+}
+
+/** Filters for reading the journal. */
+export interface JournalQuery {
+  /** Only entries after this stream id (exclusive); use the previous page's `cursor`. */
+  after?: string;
+  /** Only entries at or after this time (unix ms). Ignored when `after` is set. */
+  since?: number;
+  /** Only entries at or before this time (unix ms). */
+  until?: number;
+  /** Only entries touching this account (either leg). */
+  account?: string;
+  /** Stream entries scanned per page (before the account filter). Defaults to 1000. */
+  limit?: number;
+}
+
+/** A page of journal entries; `cursor` is null once the end of the range is reached. */
+export interface JournalPage {
+  entries: JournalEntry[];
+  cursor: string | null;
+}
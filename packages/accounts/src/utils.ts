@@ -2,7 +2,7 @@
  * Utility functions for Redis operations.
  */
 import type Redis from "ioredis";
-import { WATCH_MAX_RETRIES, WATCH_JITTER_MS } from "./constants.js";
+import type { LuaScript } from "./lua.js";
 
 /**
  * Assert that a bigint is within valid range for Redis int64 operations.
@@ -24,44 +24,18 @@ export function parseBalance(raw: string | null): bigint {
 }
 
 /**
- * Sleep for a given number of milliseconds.
+ * Run a Lua script by SHA, loading it on the first NOSCRIPT (new connection or SCRIPT FLUSH).
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * Execute a function inside WATCH/MULTI with automatic retry on contention.
- * The function should return `null` to signal a retry is needed (WATCH failed).
- *
- * @param redis - Redis client instance
- * @param keys - Keys to watch for changes
- * @param fn - Function to execute; return null to retry, or a value to succeed
- * @returns The result from fn when successful
- */
-export async function withOptimisticLock<T>(
+export async function runScript(
   redis: Redis,
+  script: LuaScript,
   keys: string[],
-  fn: () => Promise<T | null>,
-): Promise<T> {
-  for (let attempt = 0; attempt < WATCH_MAX_RETRIES; attempt++) {
-    await redis.watch(...keys);
-    try {
-      const result = await fn();
-      if (result !== null) return result;
-    } finally {
-      try {
-        await redis.unwatch();
-      } catch {
-        /* ignore unwatch errors */
-      }
-    }
-    if (WATCH_JITTER_MS > 0) {
-      await sleep(Math.floor(Math.random() * WATCH_JITTER_MS));
-    }
+  args: string[],
+): Promise<unknown> {
+  try {
+    return await redis.evalsha(script.sha1, keys.length, ...keys, ...args);
+  } catch (error) {
+    if (!(error instanceof Error) || !error.message.startsWith("NOSCRIPT")) throw error;
+    return redis.eval(script.source, keys.length, ...keys, ...args);
   }
-  throw new Error(`Optimistic lock retry limit exceeded for keys: ${keys.join(", ")}`);
 }
-
-
-
@@ -7,14 +7,14 @@ import { formatEth, formatUsd } from '@/lib/formatter'
 /**
  * POC Parity HUD Layout:
  * - Bottom center: Balance + PnL badge
- * - Top right: Leaderboard
+ * - Top right: Leaderboard (with team standings in team modes)
  * - Bottom right: Transaction log
  * - Top center: Event feed
  * - Left: Controls hint (optional)
  */
 export const Hud = () => {
   const hud = useHud()
-  const { phase } = useGameClientContext()
+  const { phase, isSpectator, drainSecondsLeft, leaveGame } = useGameClientContext()
   const { isOverlayVisible } = useUI()
 
   const show = phase === 'ingame' && !isOverlayVisible && hud
@@ -44,6 +44,26 @@ export const Hud = () => {
           ═══════════════════════════════════════════════════════════════════ */}
       {hud.showLeaderboard !== false && (
         <div className="absolute top-4 right-4 w-40">
+          {hud.teams && hud.teams.length > 0 && (
+            <div className="mb-3 space-y-0.5">
+              {hud.teams.map((t) => (
+                <div
+                  key={t.team}
+                  className={[
+                    'flex justify-between items-center text-xs font-bold py-0.5',
+                    t.isLocal ? '' : 'opacity-70',
+                  ].join(' ')}
+                  style={{ color: t.color }}
+                >
+                  <span>
+                    {t.name.toUpperCase()}
+                    <span className="text-gray-500 font-normal"> ({t.players})</span>
+                  </span>
+                  <span className="tabular-nums">{formatUsd(t.usdValue, true)}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider text-center mb-2">
             Leaderboard
           </div>
@@ -63,12 +83,71 @@ export const Hud = () => {
                   ].join(' ')}
                 >
                   <span>
+                    {e.teamColor && (
+                      <span className="inline-block w-1.5 h-1.5 rounded-full mr-1 align-middle" style={{ background: e.teamColor }} />
+                    )}
                     #{i + 1} {e.isLocal ? 'YOU' : name}
                   </span>
                   <span className="tabular-nums">{formatUsd(e.usdValue, true)}</span>
                 </div>
               )
             })}
+            {hud.localRank && hud.localRank.rank > leaderboard.length && (
+              <div className="flex justify-between items-center text-xs font-semibold py-0.5 text-[#4ade80]">
+                <span>
+                  #{hud.localRank.rank} YOU
+                  <span className="text-gray-500 font-normal"> / {hud.localRank.totalPlayers}</span>
+                </span>
+                <span className="tabular-nums">{formatUsd(hud.localRank.usdValue, true)}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* ═══════════════════════════════════════════════════════════════════
+          RIGHT: Kill Feed (below leaderboard)
+          ═══════════════════════════════════════════════════════════════════ */}
+      {hud.killFeed && hud.killFeed.length > 0 && (
+        <div
+          className={`absolute ${hud.teams && hud.teams.length > 0 ? 'top-64' : 'top-48'} right-4 w-56 flex flex-col items-end gap-1`}
+        >
+          {hud.killFeed.slice(0, 5).map((k) => (
+            <div
+              key={k.id}
+              className={[
+                'text-[11px] font-semibold px-2 py-0.5 rounded bg-black/60 backdrop-blur-sm text-right',
+                k.isLocalKiller ? 'text-[#4ade80]' : k.isLocalVictim ? 'text-[#fb7185]' : 'text-gray-300',
+              ].join(' ')}
+            >
+              {k.killerName ? (
+                <>
+                  <span>{k.isLocalKiller ? 'YOU' : k.killerName}</span>
+                  <span className="text-gray-500"> ✕ </span>
+                </>
+              ) : (
+                <span className="text-gray-500">{k.cause === 'liquidation' ? 'LIQUIDATED ' : ''}</span>
+              )}
+              <span>{k.isLocalVictim ? 'YOU' : k.victimName}</span>
+              <span className="tabular-nums text-[#fcd34d]"> {formatUsd(k.usdValue, true)}</span>
+              {k.bountyUsd ? (
+                <span className="tabular-nums text-[#f59e0b]"> +{formatUsd(k.bountyUsd, true)} bounty</span>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* ═══════════════════════════════════════════════════════════════════
+          CENTER: Server shutdown countdown (room drain)
+          ═══════════════════════════════════════════════════════════════════ */}
+      {drainSecondsLeft !== null && (
+        <div className="absolute top-1/4 left-1/2 -translate-x-1/2 px-4 py-2 rounded bg-black/70 backdrop-blur-sm text-center">
+          <div className="text-sm font-bold text-[#fcd34d]">SERVER RESTARTING</div>
+          <div className="text-xs font-semibold text-gray-300">
+            {isSpectator
+              ? `Room closes in ${drainSecondsLeft}s`
+              : `Cashing out at your current value in ${drainSecondsLeft}s`}
           </div>
         </div>
       )}
@@ -119,18 +198,37 @@ export const Hud = () => {
       {/* ═══════════════════════════════════════════════════════════════════
           BOTTOM LEFT: Controls Hint (POC style - optional)
           ═══════════════════════════════════════════════════════════════════ */}
-      <div className="absolute bottom-4 left-4 text-[10px] text-gray-600 font-medium leading-tight">
-        <div>WASD: Move</div>
-        <div>Mouse: Aim</div>
-        <div>LMB: Shoot (hold to charge)</div>
-        <div>RMB/Space: Dash (hold to charge)</div>
-        <div>Q: Exit (hold)</div>
-      </div>
+      {isSpectator ? (
+        <div className="absolute bottom-4 left-4 flex flex-col items-start gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              void leaveGame()
+            }}
+            className="pointer-events-auto px-3 py-2 rounded-lg btn-secondary text-gray-300 text-xs font-semibold"
+          >
+            Stop spectating
+          </button>
+          <div className="text-[10px] text-gray-600 font-medium leading-tight">
+            <div>SPECTATING</div>
+            <div>WASD: Move camera</div>
+            <div>LMB: Follow player</div>
+          </div>
+        </div>
+      ) : (
+        <div className="absolute bottom-4 left-4 text-[10px] text-gray-600 font-medium leading-tight">
+          <div>WASD: Move</div>
+          <div>Mouse: Aim</div>
+          <div>LMB: Shoot (hold to charge)</div>
+          <div>RMB/Space: Dash (hold to charge)</div>
+          <div>Q: Exit (hold)</div>
+        </div>
+      )}
 
       {/* ═══════════════════════════════════════════════════════════════════
           BOTTOM CENTER: Balance + PnL Badge (POC style - main HUD)
           ═══════════════════════════════════════════════════════════════════ */}
-      {hud.showBottomWorth !== false && (
+      {hud.showBottomWorth !== false && !isSpectator && (
         <div className="absolute bottom-6 left-1/2 -translate-x-1/2">
           <div className="flex items-center justify-center gap-3 px-6 py-3 bg-[#1a1a22]/90 border border-white/10 rounded-lg backdrop-blur-sm shadow-lg">
             {/* Main balance */}
@@ -146,10 +244,20 @@ export const Hud = () => {
       )}
 
       {/* ═══════════════════════════════════════════════════════════════════
-          TOP LEFT: Status indicators (stun, slow, dash cooldown)
+          TOP LEFT: Status indicators (team, bounty, stun, slow, dash cooldown)
           ═══════════════════════════════════════════════════════════════════ */}
-      {hud.showTopLeftStats !== false && (
+      {hud.showTopLeftStats !== false && !isSpectator && (
         <div className="absolute top-4 left-4 flex flex-col gap-1">
+          {hud.localTeam ? (
+            <div className="text-xs font-bold bg-black/50 px-2 py-1 rounded" style={{ color: hud.localTeam.color }}>
+              TEAM {hud.localTeam.name.toUpperCase()}
+            </div>
+          ) : null}
+          {hud.bountyUsd && hud.bountyUsd > 0 ? (
+            <div className="text-xs font-bold text-[#f59e0b] bg-black/50 px-2 py-1 rounded">
+              WANTED ({formatUsd(hud.bountyUsd, true)} bounty)
+            </div>
+          ) : null}
           {hud.stunTicks && hud.stunTicks > 0 ? (
             <div className="text-xs font-bold text-[#fcd34d] bg-black/50 px-2 py-1 rounded">
               STUNNED ({hud.stunTicks}t)
@@ -9,12 +9,13 @@ import { useGameClientContext } from '@/hooks/useGameSession'
 import { useWallet } from '@/hooks/useWallet'
 import { env } from '@/lib/env'
 import { WorldAbi } from '@/lib/contracts/WorldAbi'
+import { SIM_CONFIG } from '@goonverse/sim'
 
 export const Overlay = () => {
   const { rooms } = useRooms()
   const { isOverlayVisible, showOverlay } = useUI()
   const { isAuthenticated, primaryHandle, userId } = useAuth()
-  const { phase, exitTicket, exitError, clearExit } = useGameClientContext()
+  const { phase, exitTicket, exitError, practiceResult, clearExit } = useGameClientContext()
   const { activeAddress, refreshBalance } = useWallet()
   const { writeContractAsync } = useWriteContract()
   const [exitClaimState, setExitClaimState] = useState<'idle' | 'confirming' | 'pending' | 'success' | 'error'>('idle')
@@ -155,6 +156,23 @@ export const Overlay = () => {
 
           <PlayButton servers={rooms} displayName={effectiveDisplayName || null} />
 
+          {practiceResult && (
+            <div className="mt-6 rounded-xl border border-white/[0.08] bg-white/[0.02] p-4 flex items-center justify-between gap-3">
+              <div className="text-xs text-gray-400">
+                {practiceResult.reason === 'exited'
+                  ? `Practice run: exited with ${(practiceResult.mass / SIM_CONFIG.massScale).toFixed(2)} mass`
+                  : 'Practice run: eliminated'}
+              </div>
+              <button
+                className="px-3 py-2 rounded-lg btn-secondary text-gray-300 text-xs font-semibold"
+                type="button"
+                onClick={clearExit}
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           {(exitError || exitTicket) && (
             <div className="mt-6 rounded-xl border border-white/[0.08] bg-white/[0.02] p-4">
               <div className="text-xs font-semibold text-gray-500 mb-2">Exit ticket (testing)</div>
@@ -36,7 +36,7 @@ type PlayPhase =
 export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
   const { isAuthenticated, login, getAccessToken, status } = useAuth()
   const { ethBalance, activeAddress, isLoading: walletLoading, refreshBalance } = useWallet()
-  const { joinGame, phase: sessionPhase } = useGameSession()
+  const { joinGame, startPractice, phase: sessionPhase } = useGameSession()
   const { fundWallet } = useFundWallet()
   const { deposit, state: depositState, error: depositError, reset: resetDeposit } = useDeposit()
   const { checkEligibility } = useJoinEligibility()
@@ -49,6 +49,8 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
   const [isFunding, setIsFunding] = useState(false)
   const [isMenuOpen, setIsMenuOpen] = useState(false)
+  // Lobby party code: friends entering the same one spawn in the same room (and team)
+  const [partyCode, setPartyCode] = useState('')
   const menuRef = useRef<HTMLDivElement | null>(null)
 
   // Derive selected server
@@ -140,6 +142,46 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
     }
   }
 
+  // Offline practice: local simulation against bots, no wallet or deposit
+  const handlePractice = () => {
+    setErrorMessage(null)
+    startPractice(displayName ?? undefined)
+    hideOverlay()
+  }
+
+  // Watch the selected room without spawning (no deposit; still needs a signed-in session)
+  const handleSpectate = async () => {
+    setErrorMessage(null)
+    if (!selectedServer) return
+    if (!isAuthenticated) {
+      login()
+      return
+    }
+
+    const accessToken = await getAccessToken()
+    if (!accessToken) {
+      setErrorMessage('Failed to get authentication token. Please try again.')
+      return
+    }
+
+    setPlayPhase('joining')
+    const joined = await joinGame(
+      {
+        serverId: selectedServer.serverId,
+        buyInEth,
+        wsEndpoint: selectedServer.wsEndpoint,
+        spectate: true,
+      },
+      accessToken
+    )
+    setPlayPhase('idle')
+    if (joined) {
+      hideOverlay()
+    } else {
+      setErrorMessage('Failed to join as spectator. Please try again.')
+    }
+  }
+
   // Main play flow
   const handlePlay = async () => {
     setErrorMessage(null)
@@ -175,7 +217,7 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
 
       // Step 5: Check join eligibility
       setPlayPhase('checking')
-      const eligibility = await checkEligibility(selectedServer.serverId, accessToken)
+      const eligibility = await checkEligibility(selectedServer.serverId, accessToken, partyCode || undefined)
       console.log('[PlayButton] Join eligibility:', eligibility)
 
       let depositId: string | undefined
@@ -189,6 +231,7 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
         // Has unused deposit - can join directly
         console.log('[PlayButton] Using existing deposit:', eligibility.depositId)
         depositId = eligibility.depositId
+        roomId = eligibility.roomId
       } else {
         // Need to deposit first
         console.log('[PlayButton] No unused deposit, making new deposit...')
@@ -217,7 +260,7 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
 
         while (Date.now() - startTime < maxWaitMs) {
           await new Promise((resolve) => setTimeout(resolve, pollIntervalMs))
-          const recheckEligibility = await checkEligibility(selectedServer.serverId, accessToken)
+          const recheckEligibility = await checkEligibility(selectedServer.serverId, accessToken, partyCode || undefined)
           console.log('[PlayButton] Recheck eligibility:', recheckEligibility)
           
           if (recheckEligibility.canJoin && recheckEligibility.action !== 'deposit_required') {
@@ -226,6 +269,8 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
             if (recheckEligibility.depositId) {
               depositId = recheckEligibility.depositId
             }
+            // Spawn in the room the server picked (least loaded)
+            roomId = recheckEligibility.roomId
             break
           }
         }
@@ -249,6 +294,7 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
           wallet: activeAddress,
           wsEndpoint: selectedServer.wsEndpoint,
           displayName: displayName ?? undefined,
+          partyCode: partyCode || undefined,
         },
         accessToken
       )
@@ -366,6 +412,19 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
         ) : null}
       </div>
 
+      <div className="mb-5">
+        <input
+          id="party-code"
+          type="text"
+          value={partyCode}
+          onChange={(e) => setPartyCode(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 12))}
+          placeholder="Party code (optional)"
+          disabled={isBusy}
+          autoComplete="off"
+          className="w-full px-4 py-3 rounded-xl input-premium text-sm text-white placeholder:text-gray-600 font-medium tracking-widest focus:outline-none disabled:opacity-60 disabled:cursor-not-allowed"
+        />
+      </div>
+
       {selectedServer ? (
         <div className="flex items-center justify-center gap-4 sm:gap-5 mb-5 text-[13px]">
           <div className="flex flex-col items-center">
@@ -420,6 +479,27 @@ export const PlayButton = ({ servers, displayName }: PlayButtonProps) => {
       <p className={`mt-3 text-[13px] leading-relaxed font-medium ${errorMessage || depositError ? 'text-red-400' : 'text-gray-500'}`}>
         {helperText}
       </p>
+
+      <div className="mt-4 flex gap-2">
+        <button
+          type="button"
+          onClick={handlePractice}
+          disabled={isBusy}
+          className="flex-1 py-3 rounded-xl btn-secondary text-gray-300 text-sm font-semibold disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          Practice offline vs bots
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            void handleSpectate()
+          }}
+          disabled={!selectedServer || isBusy || isLoading}
+          className="flex-1 py-3 rounded-xl btn-secondary text-gray-300 text-sm font-semibold disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          Spectate
+        </button>
+      </div>
     </div>
   )
 }
@@ -15,11 +15,12 @@ export const useGameClientContext = () => {
 }
 
 export const useGameSession = () => {
-  const { phase, joinGame, leaveGame } = useGameClientContext()
+  const { phase, joinGame, startPractice, leaveGame } = useGameClientContext()
 
   return {
     phase,
     joinGame,
+    startPractice,
     leaveGame,
   }
 }
@@ -4,6 +4,7 @@ import { env } from '@/lib/env'
 export interface JoinEligibilityResult {
   canJoin: boolean
   action?: 'spawn' | 'reconnect'
+  /** Room holding the live entity (reconnect) or the least-loaded room to spawn in */
   roomId?: string
   depositId?: string
   spawnAmount?: string
@@ -13,8 +14,8 @@ export interface JoinEligibilityResult {
 }
 
 export interface UseJoinEligibilityReturn {
-  /** Check join eligibility for a server */
-  checkEligibility: (serverId: string, accessToken: string) => Promise<JoinEligibilityResult>
+  /** Check join eligibility for a server (a party code routes the spawn to the party's room) */
+  checkEligibility: (serverId: string, accessToken: string, partyCode?: string) => Promise<JoinEligibilityResult>
   /** Loading state */
   isLoading: boolean
   /** Error message */
@@ -55,13 +56,14 @@ export function useJoinEligibility(): UseJoinEligibilityReturn {
   const [result, setResult] = useState<JoinEligibilityResult | null>(null)
 
   const checkEligibility = useCallback(
-    async (serverId: string, accessToken: string): Promise<JoinEligibilityResult> => {
+    async (serverId: string, accessToken: string, partyCode?: string): Promise<JoinEligibilityResult> => {
       setIsLoading(true)
       setError(null)
 
       try {
+        const party = partyCode ? `&partyCode=${encodeURIComponent(partyCode)}` : ''
         const response = await fetch(
-          `${env.httpOrigin}/join-eligibility?serverId=${encodeURIComponent(serverId)}`,
+          `${env.httpOrigin}/join-eligibility?serverId=${encodeURIComponent(serverId)}${party}`,
           {
             headers: {
               Authorization: `Bearer ${accessToken}`,
@@ -14,6 +14,8 @@ type RawRoom = {
     massPerEth?: number
     region?: string
     worldBalance?: string
+    botCount?: number
+    spectatorCount?: number
   }
 }
 
@@ -31,7 +33,8 @@ async function fetchRooms(): Promise<RoomSummary[]> {
       id: room.roomId,
       name: room.name,
       serverId: room.metadata?.serverId ?? room.roomId,
-      playerCount: room.clients,
+      // Server-side bots play without a client connection; spectators connect without playing
+      playerCount: room.clients - (room.metadata?.spectatorCount ?? 0) + (room.metadata?.botCount ?? 0),
       maxPlayers: room.maxClients,
       buyInEth,
       totalWorldEth,
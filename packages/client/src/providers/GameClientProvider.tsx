@@ -3,7 +3,15 @@ import type { Room } from 'colyseus.js'
 import { env } from '@/lib/env'
 import { getGameClient } from '@/lib/colyseusClient'
 import type { ClientInputMessage } from '@/world/adapters'
+import {
+  decodeWorldDelta,
+  PROTOCOL_VERSION,
+  type DrainNoticeDto,
+  type MinimapDto,
+  type SpectateMessage,
+} from '@goonverse/sim'
 import { isSnapshotReady } from '@/world/snapshot'
+import { createPracticeSession, type PracticeEndReason, type PracticeSession } from '@/world/practice'
 
 type ExitTicketMessage = {
   serverId: string
@@ -18,6 +26,12 @@ type ExitErrorMessage = {
   message?: string
 }
 
+type PracticeResult = {
+  reason: PracticeEndReason
+  /** Mass at the end of the run (fixed-point, see massScale) */
+  mass: number
+}
+
 // Server-driven visible-world snapshot (best-parity visibility deltas)
 type DeltaWorldSnapshot = {
   init: unknown | null
@@ -27,6 +41,138 @@ type DeltaWorldSnapshot = {
   ownedIds: number[]
   // Dynamic border state (POC parity)
   border?: { radius: number; targetRadius: number; velocity: number }
+  // Last input clientTick the server had applied when it produced `tick` (prediction reconciliation)
+  ackClientTick?: number
+  // Spectator connections: the server's view focus (followed player node or free camera)
+  spectator?: { x: number; y: number; followId?: number }
+  // Recent combat events (`world:events`), newest last; eventSeq counts every event ever received
+  events: unknown[]
+  eventSeq: number
+  // Room-wide kill feed (`killFeed`), newest first
+  killFeed: Array<{ receivedAt: number; entry: unknown }>
+  // Latest room-wide ranking (`leaderboard`, once per second)
+  leaderboard?: unknown
+  // Latest arena overview (`world:minimap`); obstacles carried over from the first one
+  minimap?: MinimapDto
+}
+
+const MAX_BUFFERED_EVENTS = 64
+const MAX_KILL_FEED = 8
+
+const createDeltaSnapshot = (): DeltaWorldSnapshot => ({
+  init: null,
+  tick: 0,
+  nodes: new Map<number, unknown>(),
+  ownedIds: [],
+  events: [],
+  eventSeq: 0,
+  killFeed: [],
+})
+
+// Anything that delivers the world:* / killFeed / leaderboard messages: a Colyseus room or an offline practice session
+type WorldStreamSource = {
+  onMessage(type: string, handler: (payload: unknown) => void): unknown
+}
+
+/**
+ * Fold the world message stream into `deltaSnapshot`. `publish` is called whenever the
+ * snapshot should become (or stay) the canvas render source.
+ */
+const subscribeWorldStream = (source: WorldStreamSource, deltaSnapshot: DeltaWorldSnapshot, publish: () => void) => {
+  // Interned strings for binary deltas; the server restarts its table on every world:init
+  const wireStrings = new Map<number, string>()
+
+  source.onMessage('world:init', (init) => {
+    deltaSnapshot.init = init
+    wireStrings.clear()
+    deltaSnapshot.nodes.clear()
+    deltaSnapshot.ownedIds = []
+    deltaSnapshot.tick = 0
+    // Ensure canvas reads the delta snapshot even if onStateChange fired before init arrived.
+    publish()
+  })
+
+  source.onMessage('world:delta', (delta) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const d = (delta instanceof Uint8Array ? decodeWorldDelta(delta, wireStrings) : delta) as any
+    if (typeof d?.tick === 'number') deltaSnapshot.tick = d.tick
+    deltaSnapshot.ackClientTick = typeof d?.ackClientTick === 'number' ? d.ackClientTick : undefined
+    deltaSnapshot.spectator = d?.spectator && typeof d.spectator === 'object' ? d.spectator : undefined
+
+    const removed: unknown[] = Array.isArray(d?.removedIds) ? d.removedIds : []
+    for (const id of removed) {
+      if (typeof id === 'number') deltaSnapshot.nodes.delete(id)
+    }
+
+    const nodes: unknown[] = Array.isArray(d?.nodes) ? d.nodes : []
+    if (d?.keyframe === true) {
+      // Keyframe lists the whole visible set; anything else we hold is stale
+      const keep = new Set<unknown>(nodes.map((n) => (n as { id?: unknown })?.id))
+      for (const id of deltaSnapshot.nodes.keys()) {
+        if (!keep.has(id)) deltaSnapshot.nodes.delete(id)
+      }
+    }
+    for (const n of nodes) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const nn = n as any
+      if (typeof nn?.id === 'number') {
+        deltaSnapshot.nodes.set(nn.id, nn)
+      }
+    }
+
+    // Field patches: merge into the copy we hold (nodes absent from the delta are unchanged)
+    const patches: unknown[] = Array.isArray(d?.patches) ? d.patches : []
+    for (const p of patches) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const pp = p as any
+      const prev = typeof pp?.id === 'number' ? deltaSnapshot.nodes.get(pp.id) : undefined
+      if (prev && typeof prev === 'object') {
+        deltaSnapshot.nodes.set(pp.id, { ...prev, ...pp })
+      }
+    }
+
+    const owned: unknown[] = Array.isArray(d?.ownedIds) ? d.ownedIds : []
+    deltaSnapshot.ownedIds = owned.filter((x): x is number => typeof x === 'number')
+
+    // Extract border state (POC parity)
+    if (d?.border && typeof d.border === 'object') {
+      deltaSnapshot.border = {
+        radius: typeof d.border.radius === 'number' ? d.border.radius : 700,
+        targetRadius: typeof d.border.targetRadius === 'number' ? d.border.targetRadius : 700,
+        velocity: typeof d.border.velocity === 'number' ? d.border.velocity : 0,
+      }
+    }
+
+    // Keep the delta snapshot as the canonical render source.
+    publish()
+  })
+
+  source.onMessage('world:events', (raw) => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const events: unknown[] = Array.isArray((raw as any)?.events) ? (raw as any).events : []
+    for (const e of events) {
+      deltaSnapshot.events.push(e)
+      deltaSnapshot.eventSeq += 1
+    }
+    if (deltaSnapshot.events.length > MAX_BUFFERED_EVENTS) {
+      deltaSnapshot.events.splice(0, deltaSnapshot.events.length - MAX_BUFFERED_EVENTS)
+    }
+  })
+
+  source.onMessage('killFeed', (entry) => {
+    deltaSnapshot.killFeed.unshift({ receivedAt: Date.now(), entry })
+    if (deltaSnapshot.killFeed.length > MAX_KILL_FEED) deltaSnapshot.killFeed.length = MAX_KILL_FEED
+  })
+
+  source.onMessage('world:minimap', (raw) => {
+    const minimap = raw as MinimapDto
+    const obstacles = minimap.obstacles ?? deltaSnapshot.minimap?.obstacles
+    deltaSnapshot.minimap = { ...minimap, obstacles }
+  })
+
+  source.onMessage('leaderboard', (leaderboard) => {
+    deltaSnapshot.leaderboard = leaderboard
+  })
 }
 
 /** Derive WebSocket URL from HTTP origin */
@@ -43,7 +189,7 @@ type JoinGameOptions = {
   serverId: string
   /** Buy-in amount in ETH */
   buyInEth: number
-  /** Optional roomId to join directly (reconnect path) */
+  /** Optional roomId to join directly (reconnect, or the room the server routed a spawn to) */
   roomId?: string
   /** Deposit transaction ID (after on-chain deposit) */
   depositId?: string
@@ -53,6 +199,12 @@ type JoinGameOptions = {
   wsEndpoint?: string
   /** Optional player display name to share in-game */
   displayName?: string
+  /** Lobby party code: team modes put everyone sharing it on the same team */
+  partyCode?: string
+  /** Watch the room without spawning (no deposit needed) */
+  spectate?: boolean
+  /** Spectators only: player sessionId to follow initially */
+  followSessionId?: string
 }
 
 type GameClientContextValue = {
@@ -61,10 +213,18 @@ type GameClientContextValue = {
   room: Room | null
   /** Current client's sessionId inside the active room, if any */
   sessionId: string | null
+  /** True while an offline practice session (local simulation, no wallet) is running */
+  isPractice: boolean
+  /** True while connected as a spectator (no player of our own) */
+  isSpectator: boolean
+  /** How the last practice run ended (cleared with clearExit) */
+  practiceResult: PracticeResult | null
   /** Latest exit ticket received from the server (testing) */
   exitTicket: ExitTicketMessage | null
   /** Latest exit error message (testing) */
   exitError: string | null
+  /** Seconds until the room cashes everyone out while it shuts down (null when not draining) */
+  drainSecondsLeft: number | null
   /** Clear exit ticket/error from UI */
   clearExit: () => void
   /**
@@ -78,12 +238,16 @@ type GameClientContextValue = {
    * No-ops if there is no active room.
    */
   sendInput: (input: ClientInputMessage) => void
+  /** Spectators: follow a player or move the free camera. No-ops otherwise. */
+  spectate: (message: SpectateMessage) => void
   /** 
    * Join a game room
    * @param options - Join options including serverId and buyInEth
    * @param accessToken - Fresh Privy access token for authentication
    */
   joinGame: (options: JoinGameOptions, accessToken: string) => Promise<boolean>
+  /** Start an offline practice session against bots; no deposit or server involved */
+  startPractice: (displayName?: string) => void
   leaveGame: () => Promise<void>
 }
 
@@ -95,14 +259,20 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
   const [sessionId, setSessionId] = useState<string | null>(null)
   const [exitTicket, setExitTicket] = useState<ExitTicketMessage | null>(null)
   const [exitError, setExitError] = useState<string | null>(null)
+  const [drainSecondsLeft, setDrainSecondsLeft] = useState<number | null>(null)
+  const [isPractice, setIsPractice] = useState(false)
+  const [isSpectator, setIsSpectator] = useState(false)
+  const [practiceResult, setPracticeResult] = useState<PracticeResult | null>(null)
 
   const clearExit = useCallback(() => {
     setExitTicket(null)
     setExitError(null)
+    setPracticeResult(null)
   }, [])
 
   // Refs so non-React code (canvas adapter) always sees latest values
   const roomRef = useRef<Room | null>(null)
+  const practiceRef = useRef<PracticeSession | null>(null)
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const latestStateRef = useRef<any | null>(null)
 
@@ -112,6 +282,11 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
 
   const sendInput = useCallback(
     (input: ClientInputMessage) => {
+      const practice = practiceRef.current
+      if (practice) {
+        practice.send('input', input)
+        return
+      }
       const activeRoom = roomRef.current
       if (!activeRoom) return
       try {
@@ -123,6 +298,16 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
     [],
   )
 
+  const spectate = useCallback((message: SpectateMessage) => {
+    const activeRoom = roomRef.current
+    if (!activeRoom) return
+    try {
+      activeRoom.send('spectate', message)
+    } catch (error) {
+      console.error('[GameClient] Failed to send spectate message:', error)
+    }
+  }, [])
+
   const leaveGame = useCallback(async () => {
     setPhase('exiting')
     const activeRoom = roomRef.current
@@ -133,13 +318,45 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
         console.error('[GameClient] Failed to leave room:', error)
       }
     }
+    practiceRef.current?.leave()
+    practiceRef.current = null
     roomRef.current = null
     latestStateRef.current = null
     setRoom(null)
     setSessionId(null)
+    setIsPractice(false)
+    setIsSpectator(false)
+    setDrainSecondsLeft(null)
     setPhase('idle')
   }, [])
 
+  const startPractice = useCallback(
+    (displayName?: string) => {
+      if (roomRef.current || practiceRef.current) return
+      setExitTicket(null)
+      setExitError(null)
+      setPracticeResult(null)
+
+      const practice = createPracticeSession(displayName?.trim() || 'You')
+      practiceRef.current = practice
+
+      const deltaSnapshot = createDeltaSnapshot()
+      latestStateRef.current = deltaSnapshot
+      subscribeWorldStream(practice, deltaSnapshot, () => {
+        latestStateRef.current = deltaSnapshot
+      })
+      practice.onMessage('practice:ended', (raw) => {
+        setPracticeResult(raw as PracticeResult)
+        void leaveGame()
+      })
+
+      setSessionId(practice.sessionId)
+      setIsPractice(true)
+      setPhase('ingame')
+    },
+    [leaveGame],
+  )
+
   const joinGame = useCallback(
     async (options: JoinGameOptions, accessToken: string): Promise<boolean> => {
       const endpoint = options.wsEndpoint ?? wsEndpoint
@@ -166,6 +383,11 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
           depositId: options.depositId,
           wallet: options.wallet,
           displayName: options.displayName,
+          partyCode: options.partyCode,
+          spectate: options.spectate,
+          followSessionId: options.followSessionId,
+          // Lets the server pick the delta encoding we understand (v5+: packed binary)
+          protocolVersion: PROTOCOL_VERSION,
         }
 
         const joinedRoom = options.roomId
@@ -175,58 +397,13 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
         roomRef.current = joinedRoom
         setRoom(joinedRoom)
         setSessionId(joinedRoom.sessionId)
+        setIsSpectator(options.spectate === true)
 
         // Prefer best-parity delta stream if the server provides it.
         // We keep the shape opaque here and let the canvas adapter interpret it.
-        const deltaSnapshot: DeltaWorldSnapshot = {
-          init: null,
-          tick: 0,
-          nodes: new Map<number, unknown>(),
-          ownedIds: [],
-        }
+        const deltaSnapshot = createDeltaSnapshot()
         latestStateRef.current = deltaSnapshot
-
-        joinedRoom.onMessage('world:init', (init) => {
-          deltaSnapshot.init = init
-          deltaSnapshot.nodes.clear()
-          deltaSnapshot.ownedIds = []
-          deltaSnapshot.tick = 0
-          // Ensure canvas reads the delta snapshot even if onStateChange fired before init arrived.
-          latestStateRef.current = deltaSnapshot
-        })
-
-        joinedRoom.onMessage('world:delta', (delta) => {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const d = delta as any
-          if (typeof d?.tick === 'number') deltaSnapshot.tick = d.tick
-
-          const removed: unknown[] = Array.isArray(d?.removedIds) ? d.removedIds : []
-          for (const id of removed) {
-            if (typeof id === 'number') deltaSnapshot.nodes.delete(id)
-          }
-
-          const nodes: unknown[] = Array.isArray(d?.nodes) ? d.nodes : []
-          for (const n of nodes) {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const nn = n as any
-            if (typeof nn?.id === 'number') {
-              deltaSnapshot.nodes.set(nn.id, nn)
-            }
-          }
-
-          const owned: unknown[] = Array.isArray(d?.ownedIds) ? d.ownedIds : []
-          deltaSnapshot.ownedIds = owned.filter((x): x is number => typeof x === 'number')
-
-          // Extract border state (POC parity)
-          if (d?.border && typeof d.border === 'object') {
-            deltaSnapshot.border = {
-              radius: typeof d.border.radius === 'number' ? d.border.radius : 700,
-              targetRadius: typeof d.border.targetRadius === 'number' ? d.border.targetRadius : 700,
-              velocity: typeof d.border.velocity === 'number' ? d.border.velocity : 0,
-            }
-          }
-
-          // Keep the delta snapshot as the canonical render source.
+        subscribeWorldStream(joinedRoom, deltaSnapshot, () => {
           latestStateRef.current = deltaSnapshot
         })
 
@@ -257,6 +434,12 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
           setExitError(msg)
         })
 
+        // Room shutdown countdown; the server sends our exitTicket when it reaches zero
+        joinedRoom.onMessage('serverDraining', (raw) => {
+          const secondsLeft = (raw as DrainNoticeDto)?.secondsLeft
+          setDrainSecondsLeft(typeof secondsLeft === 'number' ? secondsLeft : null)
+        })
+
         setPhase('ingame')
         return true
       } catch (error) {
@@ -275,15 +458,39 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
       phase,
       room,
       sessionId,
+      isPractice,
+      isSpectator,
+      practiceResult,
       exitTicket,
       exitError,
+      drainSecondsLeft,
       clearExit,
       getStateSnapshot,
       sendInput,
+      spectate,
       joinGame,
+      startPractice,
       leaveGame,
     }),
-    [wsEndpoint, phase, room, sessionId, exitTicket, exitError, clearExit, getStateSnapshot, sendInput, joinGame, leaveGame],
+    [
+      wsEndpoint,
+      phase,
+      room,
+      sessionId,
+      isPractice,
+      isSpectator,
+      practiceResult,
+      exitTicket,
+      exitError,
+      drainSecondsLeft,
+      clearExit,
+      getStateSnapshot,
+      sendInput,
+      spectate,
+      joinGame,
+      startPractice,
+      leaveGame,
+    ],
   )
 
   return <GameClientContext.Provider value={value}>{children}</GameClientContext.Provider>
@@ -291,4 +498,4 @@ export const GameClientProvider = ({ children }: PropsWithChildren) => {
 
 // Export for hook file
 export { GameClientContext }
-export type { GameClientContextValue, JoinGameOptions, SessionPhase }
+export type { GameClientContextValue, JoinGameOptions, PracticeResult, SessionPhase }
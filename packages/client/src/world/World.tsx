@@ -11,7 +11,7 @@ import { useUI } from '@/hooks/useUI'
 
 export const World = () => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null)
-  const { room, sessionId, getStateSnapshot, sendInput, phase } = useGameClientContext()
+  const { room, isPractice, sessionId, getStateSnapshot, sendInput, spectate, phase } = useGameClientContext()
   const { ethUsd } = useEthUsdPrice()
   const { isOverlayVisible } = useUI()
   const { setHud } = useHudActions()
@@ -23,7 +23,8 @@ export const World = () => {
   const getMaxFpsRef = useRef<() => number | null>(() => null)
 
   const adapter = useMemo(() => {
-    if (!room) return null
+    // Offline practice feeds the same delta snapshot shape from a local worker instead of a room
+    if (!room && !isPractice) return null
 
     return createDeltaWorldAdapter({
       // getStateSnapshot will return the latest Colyseus GameState proxy
@@ -33,8 +34,9 @@ export const World = () => {
       sendInput,
       sessionId,
       ethUsd,
+      spectate,
     })
-  }, [room, getStateSnapshot, sendInput, sessionId, ethUsd])
+  }, [room, isPractice, getStateSnapshot, sendInput, spectate, sessionId, ethUsd])
 
   useEffect(() => {
     const canvas = canvasRef.current
@@ -1,9 +1,16 @@
 import type { RoomSummary } from '@/types/rooms'
 import { isSnapshotReady } from './snapshot'
 import { formatUsd, massToEth, massToUsd } from '@/lib/formatter'
-
-const MASS_SCALE = 10_000
-const PROTOCOL_VERSION = 4
+import { createLocalPredictor, PREDICTION_TICK_MS, type PredictionWorld } from './prediction'
+import {
+  NODE_FLAG_BOUNTY,
+  NODE_FLAG_EXITING,
+  PROTOCOL_VERSION,
+  SIM_CONFIG,
+  TEAM_COLORS,
+  TEAM_NAMES,
+  type SpectateMessage,
+} from '@goonverse/sim'
 
 // Existing lobby summary helper
 export const summarizeServer = (room: RoomSummary) => ({
@@ -63,6 +70,8 @@ export type BlobView = {
   shootRecoveryTicks: number
   exitCombatTagTicks: number
   hitFlashTicks: number
+  bountyUsd: number // bounty carried on top of usdValue (0 = none)
+  team?: number // team modes only (color is already the team's)
 }
 
 export type PelletView = {
@@ -100,6 +109,15 @@ export type VirusView = {
   color: string
 }
 
+export type MinimapView = {
+  worldRadius: number
+  obstacles: Array<{ x: number; y: number; radius: number }>
+  // Counts per cell, row-major over [-worldRadius, worldRadius]²
+  gridSize: number
+  players: number[]
+  pickups: number[]
+}
+
 export type WorldViewModel = {
   camera: {
     x: number
@@ -118,6 +136,8 @@ export type WorldViewModel = {
     maxRadius: number
     minRadius: number
   }
+  // Arena overview from `world:minimap` (absent until the first one arrives)
+  minimap?: MinimapView
   playerBlobs: BlobView[]
   otherBlobs: BlobView[]
   pellets: PelletView[]
@@ -135,9 +155,24 @@ export type WorldViewModel = {
     stunTicks?: number
     slowTicks?: number
     exitCombatTagTicks?: number
+    // Bounty on the local player (0 = not wanted)
+    bountyUsd?: number
+    // Team modes: the local player's team and every team's combined value
+    localTeam?: { team: number; name: string; color: string }
+    teams?: Array<{ team: number; name: string; color: string; players: number; usdValue: number; isLocal: boolean }>
     pnlPct?: number
     pnlUsd?: number
     events?: Array<{ id: number; message: string; variant: 'exit' | 'warn' | 'danger' }>
+    killFeed?: Array<{
+      id: string
+      killerName?: string
+      victimName: string
+      usdValue: number
+      cause: 'bullet' | 'liquidation'
+      bountyUsd?: number
+      isLocalKiller: boolean
+      isLocalVictim: boolean
+    }>
     transactions?: Array<{ id: number; amount: number; type: 'gain' | 'loss' }>
     pingMs?: number
     serverLabel?: string
@@ -155,7 +190,10 @@ export type WorldViewModel = {
       usdValue: number
       ethValue: number
       isLocal: boolean
+      teamColor?: string
     }>
+    /** Local player's place in the whole room (server ranking; absent before the first one arrives). */
+    localRank?: { rank: number; totalPlayers: number; usdValue: number }
   }
 }
 
@@ -247,6 +285,8 @@ export type CreateWorldAdapterOptions = {
   sessionId: string | null
   /** Current ETH→USD price from CoinGecko (or null if unavailable). */
   ethUsd: number | null
+  /** Spectator connections: steer the server-side view (follow a player / move the free camera). */
+  spectate?: (message: SpectateMessage) => void
 }
 
 export const createWorldAdapter = ({
@@ -270,7 +310,7 @@ export const createWorldAdapter = ({
   const buildViewModel = (state: ServerGameState): WorldViewModel => {
     const worldWidth = state.worldWidth ?? 4000
     const worldHeight = state.worldHeight ?? 4000
-    const massScale = (state as { massScale?: number })?.massScale ?? MASS_SCALE
+    const massScale = (state as { massScale?: number })?.massScale ?? SIM_CONFIG.massScale
 
     const playerBlobs: BlobView[] = []
     const otherBlobs: BlobView[] = []
@@ -330,6 +370,7 @@ export const createWorldAdapter = ({
           shootRecoveryTicks: 0,
           exitCombatTagTicks: 0,
           hitFlashTicks: 0,
+          bountyUsd: 0,
         }
 
         if (isLocal) {
@@ -572,6 +613,88 @@ type DeltaWorldSnapshot = {
     targetRadius: number
     velocity: number
   }
+  ackClientTick?: number
+  // Spectator connections: where the server centred the view (followId = followed player node)
+  spectator?: { x: number; y: number; followId?: number }
+  // Recent `world:events` (bounded buffer, newest last)
+  events?: ServerWorldEventDto[]
+  eventSeq?: number
+  // Room-wide kill feed, newest first
+  killFeed?: Array<{ receivedAt: number; entry: ServerKillFeedDto }>
+  // Latest room-wide ranking
+  leaderboard?: ServerLeaderboardDto
+  // Latest arena overview
+  minimap?: ServerMinimapDto
+}
+
+// Mirrors server KillFeedDto
+type ServerKillFeedDto = {
+  tick: number
+  victimSessionId: string
+  victimName: string
+  killerSessionId?: string
+  killerName?: string
+  cause: 'bullet' | 'liquidation'
+  mass: number
+  valueWei: string
+  bounty?: number
+}
+
+// Mirrors server LeaderboardDto
+type ServerLeaderboardEntryDto = {
+  rank: number
+  sessionId: string
+  displayName: string
+  mass: number
+  valueWei: string
+  team?: number
+}
+
+type ServerLeaderboardDto = {
+  tick: number
+  totalPlayers: number
+  top: ServerLeaderboardEntryDto[]
+  you?: ServerLeaderboardEntryDto
+  teams?: Array<{ team: number; players: number; mass: number; valueWei: string }>
+}
+
+// Mirrors server MinimapDto
+type ServerMinimapDto = {
+  tick: number
+  worldRadius: number
+  border: { radius: number; targetRadius: number }
+  obstacles?: Array<{ x: number; y: number; radius: number }>
+  grid: { size: number; players: number[]; pickups: number[] }
+}
+
+// Kill feed entries stay on screen this long
+const KILL_FEED_TTL_MS = 6000
+
+// Mirrors server WorldEventDto (only the fields the client reads)
+type ServerWorldEventDto = {
+  type:
+    | 'bulletFired'
+    | 'bulletHit'
+    | 'dashStarted'
+    | 'stunApplied'
+    | 'overheat'
+    | 'pickupCollected'
+    | 'exitStarted'
+    | 'exitInterrupted'
+    | 'kill'
+  x: number
+  y: number
+  sessionId?: string
+  ownerSessionId?: string
+  targetSessionId?: string
+  attackerSessionId?: string
+  sourceSessionId?: string
+  victimSessionId?: string
+  killerSessionId?: string
+  damage?: number
+  mass?: number
+  bounty?: number
+  reason?: string
 }
 
 type ServerColor = { r: number; g: number; b: number }
@@ -606,6 +729,8 @@ type ServerNodeDto = {
   shootRecoveryTicks?: number
   exitCombatTagTicks?: number
   hitFlashTicks?: number
+  bounty?: number
+  team?: number
 }
 
 type WorldInitDto = {
@@ -623,6 +748,8 @@ type WorldInitDto = {
   massPerEth: number
   exitHoldMs: number
   massScale?: number
+  deltaEncoding?: 'json' | 'binary'
+  gameMode?: string
 }
 
 type HudEvent = { id: number; message: string; variant: 'exit' | 'warn' | 'danger' }
@@ -666,6 +793,16 @@ function rgbToHslString(rgb: ServerColor, fallbackHue: number = 200): string {
   return `hsl(${hh}, ${ss}%, ${ll}%)`
 }
 
+// Team modes color players by team instead of their own color
+function teamColor(team: number): string | undefined {
+  const rgb = TEAM_COLORS[team - 1]
+  return rgb ? rgbToHslString(rgb) : undefined
+}
+
+function teamName(team: number): string {
+  return TEAM_NAMES[team - 1] ?? `Team ${team}`
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value))
 }
@@ -675,6 +812,7 @@ export const createDeltaWorldAdapter = ({
   sendInput,
   sessionId,
   ethUsd,
+  spectate,
 }: CreateWorldAdapterOptions): WorldAdapter => {
   let pointerX = 0.5
   let pointerY = 0.5
@@ -694,6 +832,7 @@ export const createDeltaWorldAdapter = ({
   let prevExitCombatTagTicks = 0
   let nextEventId = 1
   let nextTxId = 1
+  let lastEventSeq = 0
   const events: HudEvent[] = []
   const transactions: HudTransaction[] = []
 
@@ -712,7 +851,15 @@ export const createDeltaWorldAdapter = ({
   let hasCameraInit = false
   let hasPlayerView = false
 
-  const FLAG_EXITING = 1 << 2
+  // Spectator camera: tracks the followed player, otherwise pans with WASD and reports its position
+  const SPECTATOR_PAN_SPEED = 900
+  const SPECTATOR_SEND_INTERVAL_MS = 100
+  let spectating = false
+  let spectatorX = 0
+  let spectatorY = 0
+  let hasSpectatorView = false
+  let lastSpectatorFrameAt = 0
+  let lastSpectateSentAt = 0
 
   type InterpState = {
     ox: number
@@ -728,6 +875,53 @@ export const createDeltaWorldAdapter = ({
   let lastInterpTick = -1
   const INTERP_WINDOW_MS = 120
 
+  // Local player prediction: fixed 20Hz steps stamped with clientTick, reconciled on each delta
+  const predictor = createLocalPredictor()
+  let clientTick = 0
+  let predictedId: number | null = null
+  let lastPredictAt = 0
+
+  const predictionWorld = (snap: DeltaWorldSnapshot): PredictionWorld => {
+    const obstacles: PredictionWorld['obstacles'] = []
+    for (const n of snap.nodes.values()) {
+      const node = n as ServerNodeDto
+      if (node.kind === 'obstacle') obstacles.push({ x: node.x, y: node.y, radius: node.radius ?? 0 })
+    }
+    return {
+      borderRadius: snap.border?.radius ?? Infinity,
+      borderVelocity: snap.border?.velocity ?? 0,
+      obstacles,
+    }
+  }
+
+  const reconcilePrediction = (snap: DeltaWorldSnapshot) => {
+    const localId = snap.ownedIds[0]
+    const node = localId == null ? undefined : (snap.nodes.get(localId) as ServerNodeDto | undefined)
+    if (localId == null || !node || node.kind !== 'player' || snap.ackClientTick == null) {
+      predictor.reset()
+      predictedId = null
+      return
+    }
+    if (predictedId !== localId) predictor.reset()
+    predictedId = localId
+    predictor.reconcile(
+      {
+        x: node.x,
+        y: node.y,
+        vx: node.vx ?? 0,
+        vy: node.vy ?? 0,
+        radius: node.radius ?? 0,
+        stunTicks: node.stunTicks ?? 0,
+        slowTicks: node.slowTicks ?? 0,
+        shootRecoveryTicks: node.shootRecoveryTicks ?? 0,
+        dashActiveTicks: node.dashActiveTicks ?? 0,
+        exiting: ((node.flags ?? 0) & NODE_FLAG_EXITING) !== 0,
+      },
+      snap.ackClientTick,
+      predictionWorld(snap),
+    )
+  }
+
   const syncInterpolation = (snap: DeltaWorldSnapshot, now: number) => {
     if (snap.tick === lastInterpTick) return
     lastInterpTick = snap.tick
@@ -767,16 +961,22 @@ export const createDeltaWorldAdapter = ({
     for (const id of interpById.keys()) {
       if (!seen.has(id)) interpById.delete(id)
     }
+
+    reconcilePrediction(snap)
   }
 
   const getInterpolated = (id: number, node: ServerNodeDto, now: number) => {
     const s = interpById.get(id)
     if (!s) return { x: node.x, y: node.y, radius: node.radius ?? 0 }
     const t = clamp((now - s.updatedAt) / INTERP_WINDOW_MS, 0, 1)
+    const radius = s.or + (s.nr - s.or) * t
+    // The local player is drawn where prediction puts it rather than trailing the server.
+    const predicted = id === predictedId ? predictor.position(now) : null
+    if (predicted) return { x: predicted.x, y: predicted.y, radius }
     return {
       x: s.ox + (s.nx - s.ox) * t,
       y: s.oy + (s.ny - s.oy) * t,
-      radius: s.or + (s.nr - s.or) * t,
+      radius,
     }
   }
 
@@ -788,6 +988,8 @@ export const createDeltaWorldAdapter = ({
       hasCameraInit = true
     }
 
+    if (snap.spectator) return updateSpectatorCamera(snap.spectator, snap, now)
+
     const localId = snap.ownedIds[0]
     if (localId == null) {
       hasPlayerView = false
@@ -829,6 +1031,69 @@ export const createDeltaWorldAdapter = ({
     return { x: cameraX, y: cameraY, zoom: cameraZoom }
   }
 
+  const updateSpectatorCamera = (
+    focus: NonNullable<DeltaWorldSnapshot['spectator']>,
+    snap: DeltaWorldSnapshot,
+    now: number,
+  ) => {
+    const dt = hasSpectatorView ? Math.min(0.1, (now - lastSpectatorFrameAt) / 1000) : 0
+    lastSpectatorFrameAt = now
+    if (!hasSpectatorView) {
+      spectatorX = focus.x
+      spectatorY = focus.y
+    }
+
+    const followed = focus.followId == null ? undefined : (snap.nodes.get(focus.followId) as ServerNodeDto | undefined)
+    if (followed && followed.kind === 'player') {
+      const it = getInterpolated(followed.id, followed, now)
+      spectatorX = it.x
+      spectatorY = it.y
+    } else {
+      const dirX = (dHeld ? 1 : 0) - (aHeld ? 1 : 0)
+      const dirY = (sHeld ? 1 : 0) - (wHeld ? 1 : 0)
+      if (dirX !== 0 || dirY !== 0) {
+        const mag = Math.hypot(dirX, dirY)
+        spectatorX += (dirX / mag) * SPECTATOR_PAN_SPEED * dt
+        spectatorY += (dirY / mag) * SPECTATOR_PAN_SPEED * dt
+        if (now - lastSpectateSentAt >= SPECTATOR_SEND_INTERVAL_MS) {
+          lastSpectateSentAt = now
+          spectate?.({ followSessionId: null, x: spectatorX, y: spectatorY })
+        }
+      }
+    }
+
+    if (!hasSpectatorView) {
+      cameraX = spectatorX
+      cameraY = spectatorY
+      cameraZoom = POC_ZOOM_BASE
+      hasSpectatorView = true
+    } else {
+      cameraX += (spectatorX - cameraX) * POC_CAM_LERP
+      cameraY += (spectatorY - cameraY) * POC_CAM_LERP
+      cameraZoom += (POC_ZOOM_BASE - cameraZoom) * POC_ZOOM_LERP
+    }
+    return { x: cameraX, y: cameraY, zoom: cameraZoom }
+  }
+
+  // Spectators: clicking a player follows them
+  const followPlayerAt = (point: { x: number; y: number }) => {
+    const snap = getStateSnapshot()
+    if (!isDeltaSnapshot(snap)) return
+    let best: ServerNodeDto | null = null
+    let bestDistSq = Infinity
+    for (const n of snap.nodes.values()) {
+      const node = n as ServerNodeDto
+      if (node.kind !== 'player' || typeof node.ownerSessionId !== 'string') continue
+      const distSq = (node.x - point.x) ** 2 + (node.y - point.y) ** 2
+      const reach = (node.radius ?? 0) + 40
+      if (distSq <= reach * reach && distSq < bestDistSq) {
+        best = node
+        bestDistSq = distSq
+      }
+    }
+    if (best) spectate?.({ followSessionId: best.ownerSessionId as string })
+  }
+
   const computeMouseWorld = (): { x: number; y: number } => {
     const snap = getStateSnapshot()
     if (!isDeltaSnapshot(snap) || !snap.init) {
@@ -867,6 +1132,7 @@ export const createDeltaWorldAdapter = ({
   let lastMoveSentAt = 0
 
   const sendCurrentInput = (mouse: { x: number; y: number }) => {
+    if (spectating) return
     sendInput({
       w: wHeld,
       a: aHeld,
@@ -877,9 +1143,33 @@ export const createDeltaWorldAdapter = ({
       shoot: shootHeld,
       dash: dashHeld,
       exit: exitKeyHeld,
+      clientTick,
     })
   }
 
+  // Run the local prediction clock. Every local tick is sent to the server so its ack keeps
+  // pace with our pending inputs even when nothing changes.
+  const advancePrediction = (snap: DeltaWorldSnapshot, now: number) => {
+    if (predictedId == null) {
+      lastPredictAt = now
+      return
+    }
+    // Don't try to catch up after a stall (hidden tab); reconciliation will rebase us.
+    if (now - lastPredictAt > PREDICTION_TICK_MS * 4) lastPredictAt = now - PREDICTION_TICK_MS
+    const world = predictionWorld(snap)
+    while (now - lastPredictAt >= PREDICTION_TICK_MS) {
+      lastPredictAt += PREDICTION_TICK_MS
+      clientTick += 1
+      predictor.step(
+        clientTick,
+        { w: wHeld, a: aHeld, s: sHeld, d: dHeld, shoot: shootHeld, dash: dashHeld, exit: exitKeyHeld },
+        world,
+      )
+      sendCurrentInput(computeMouseWorld())
+      lastMoveSentAt = now
+    }
+  }
+
   const maybeSendMove = (now: number, mouse: { x: number; y: number }) => {
     if (now - lastMoveSentAt < MOVE_SEND_INTERVAL_MS) return
     lastMoveSentAt = now
@@ -905,11 +1195,16 @@ export const createDeltaWorldAdapter = ({
       if (typeof state.s === 'boolean') sHeld = state.s
       if (typeof state.d === 'boolean') dHeld = state.d
       const m = computeMouseWorld()
+      // Spectators leave the followed player as soon as they start panning
+      if (spectating && (wHeld || aHeld || sHeld || dHeld)) {
+        spectate?.({ followSessionId: null, x: cameraX, y: cameraY })
+      }
       sendCurrentInput(m)
     },
     onShootKeyDown: () => {
       shootHeld = true
       const m = computeMouseWorld()
+      if (spectating) followPlayerAt(m)
       sendCurrentInput(m)
     },
     onShootKeyUp: () => {
@@ -948,7 +1243,9 @@ export const createDeltaWorldAdapter = ({
 
     const init = snap.init as WorldInitDto
     if (init.protocolVersion && init.protocolVersion !== PROTOCOL_VERSION) return null
-    const massScale = init.massScale ?? MASS_SCALE
+    spectating = snap.spectator != null
+    advancePrediction(snap, now)
+    const massScale = init.massScale ?? SIM_CONFIG.massScale
     const worldWidth = init.world.right - init.world.left
     const worldHeight = init.world.bottom - init.world.top
     const massPerEth = init.massPerEth ?? 100
@@ -1004,11 +1301,15 @@ export const createDeltaWorldAdapter = ({
             : typeof node.ownerSessionId === 'string'
               ? node.ownerSessionId
               : 'player')
-        const color = node.color ? rgbToHslString(node.color) : `hsl(200, 80%, 60%)`
+        const color =
+          (node.team ? teamColor(node.team) : undefined) ??
+          (node.color ? rgbToHslString(node.color) : `hsl(200, 80%, 60%)`)
         const mass = (node.mass ?? 0) / massScale
         const radius = it.radius
         const usdValue = massToUsd(mass, massPerEth, ethUsd)
-        const isExiting = ((node.flags ?? 0) & FLAG_EXITING) !== 0
+        const isExiting = ((node.flags ?? 0) & NODE_FLAG_EXITING) !== 0
+        const bountyUsd =
+          ((node.flags ?? 0) & NODE_FLAG_BOUNTY) !== 0 ? massToUsd((node.bounty ?? 0) / massScale, massPerEth, ethUsd) : 0
         const exitProgress = node.exitProgress ?? 0
         if (isLocal) {
           localNode = node
@@ -1043,6 +1344,8 @@ export const createDeltaWorldAdapter = ({
           shootRecoveryTicks: node.shootRecoveryTicks ?? 0,
           exitCombatTagTicks: node.exitCombatTagTicks ?? 0,
           hitFlashTicks: node.hitFlashTicks ?? 0,
+          bountyUsd,
+          team: node.team,
         }
         if (isLocal) playerBlobs.push(viewBlob)
         else otherBlobs.push(viewBlob)
@@ -1128,36 +1431,73 @@ export const createDeltaWorldAdapter = ({
       }
     }
 
-    // Leaderboard (sorted by USD) aggregated by owner.
-    const leaderboardByOwner = new Map<string, { sessionId: string; displayName: string; totalMass: number }>()
-    for (const n of snap.nodes.values()) {
-      const node = n as ServerNodeDto
-      if (node.kind !== 'player') continue
-      const owner = typeof node.ownerSessionId === 'string' ? node.ownerSessionId : 'unknown'
-      const name =
-        typeof node.displayName === 'string' && node.displayName.trim().length > 0 ? node.displayName : owner
+    // Leaderboard: the server's room-wide ranking; until the first one arrives, whoever is in view
+    // (aggregated by owner, sorted by USD)
+    const leaderboard: WorldViewModel['hud']['leaderboard'] = []
+    let localRank: WorldViewModel['hud']['localRank']
+    if (snap.leaderboard) {
+      for (const e of snap.leaderboard.top) {
+        const displayMass = e.mass / massScale
+        leaderboard.push({
+          sessionId: e.sessionId,
+          displayName: e.displayName,
+          usdValue: massToUsd(displayMass, massPerEth, ethUsd),
+          ethValue: massToEth(displayMass, massPerEth),
+          isLocal: sessionId != null && e.sessionId === sessionId,
+          teamColor: e.team ? teamColor(e.team) : undefined,
+        })
+      }
+      const you = snap.leaderboard.you
+      if (you) {
+        localRank = {
+          rank: you.rank,
+          totalPlayers: snap.leaderboard.totalPlayers,
+          usdValue: massToUsd(you.mass / massScale, massPerEth, ethUsd),
+        }
+      }
+    } else {
+      const leaderboardByOwner = new Map<string, { sessionId: string; displayName: string; totalMass: number }>()
+      for (const n of snap.nodes.values()) {
+        const node = n as ServerNodeDto
+        if (node.kind !== 'player') continue
+        const owner = typeof node.ownerSessionId === 'string' ? node.ownerSessionId : 'unknown'
+        const name =
+          typeof node.displayName === 'string' && node.displayName.trim().length > 0 ? node.displayName : owner
+
+        const prev = leaderboardByOwner.get(owner)
+        if (!prev) {
+          leaderboardByOwner.set(owner, { sessionId: owner, displayName: name, totalMass: node.mass ?? 0 })
+        } else {
+          prev.totalMass += node.mass ?? 0
+          if (prev.displayName === prev.sessionId && name !== owner) prev.displayName = name
+        }
+      }
 
-      const prev = leaderboardByOwner.get(owner)
-      if (!prev) {
-        leaderboardByOwner.set(owner, { sessionId: owner, displayName: name, totalMass: node.mass ?? 0 })
-      } else {
-        prev.totalMass += node.mass ?? 0
-        if (prev.displayName === prev.sessionId && name !== owner) prev.displayName = name
+      for (const p of leaderboardByOwner.values()) {
+        const displayMass = p.totalMass / massScale
+        leaderboard.push({
+          sessionId: p.sessionId,
+          displayName: p.displayName,
+          usdValue: massToUsd(displayMass, massPerEth, ethUsd),
+          ethValue: massToEth(displayMass, massPerEth),
+          isLocal: sessionId != null && p.sessionId === sessionId,
+        })
       }
+      leaderboard.sort((a, b) => b.usdValue - a.usdValue)
     }
 
-    const leaderboard: WorldViewModel['hud']['leaderboard'] = []
-    for (const p of leaderboardByOwner.values()) {
-      const displayMass = p.totalMass / massScale
-      leaderboard.push({
-        sessionId: p.sessionId,
-        displayName: p.displayName,
-        usdValue: massToUsd(displayMass, massPerEth, ethUsd),
-        ethValue: massToEth(displayMass, massPerEth),
-        isLocal: sessionId != null && p.sessionId === sessionId,
-      })
-    }
-    leaderboard.sort((a, b) => b.usdValue - a.usdValue)
+    const localTeamId = localNode?.team ?? snap.leaderboard?.you?.team
+    const localTeam = localTeamId
+      ? { team: localTeamId, name: teamName(localTeamId), color: teamColor(localTeamId) ?? 'white' }
+      : undefined
+    const teams = snap.leaderboard?.teams?.map((t) => ({
+      team: t.team,
+      name: teamName(t.team),
+      color: teamColor(t.team) ?? 'white',
+      players: t.players,
+      usdValue: massToUsd(t.mass / massScale, massPerEth, ethUsd),
+      isLocal: t.team === localTeamId,
+    }))
 
     const spawnMass = localSpawnMassRaw > 0 ? localSpawnMassRaw / massScale : 0
     const pnlMass = currentMass - spawnMass
@@ -1199,6 +1539,24 @@ export const createDeltaWorldAdapter = ({
         events.unshift({ id: nextEventId++, message: 'IN COMBAT', variant: 'danger' })
       }
 
+      // Server-reported events that can't be inferred from node state
+      const seq = snap.eventSeq ?? 0
+      const buffered = snap.events ?? []
+      const fresh = Math.min(buffered.length, Math.max(0, seq - lastEventSeq))
+      for (const e of buffered.slice(buffered.length - fresh)) {
+        if (e.type === 'overheat' && e.sessionId === sessionId) {
+          events.unshift({ id: nextEventId++, message: 'OVERHEATED', variant: 'danger' })
+        } else if (e.type === 'kill' && sessionId != null && e.killerSessionId === sessionId) {
+          const value = massToUsd((e.mass ?? 0) / massScale, massPerEth, ethUsd)
+          events.unshift({ id: nextEventId++, message: `ELIMINATED +${formatUsd(value, true)}`, variant: 'exit' })
+          if ((e.bounty ?? 0) > 0) {
+            const bounty = massToUsd((e.bounty ?? 0) / massScale, massPerEth, ethUsd)
+            events.unshift({ id: nextEventId++, message: `BOUNTY CLAIMED +${formatUsd(bounty, true)}`, variant: 'exit' })
+          }
+        }
+      }
+      lastEventSeq = seq
+
       if (events.length > 6) events.length = 6
 
       prevLocalMassRaw = currentMassRaw
@@ -1215,6 +1573,22 @@ export const createDeltaWorldAdapter = ({
       prevExitCombatTagTicks = 0
     }
 
+    const wallNow = Date.now()
+    const killFeed: NonNullable<WorldViewModel['hud']['killFeed']> = []
+    for (const { receivedAt, entry } of snap.killFeed ?? []) {
+      if (wallNow - receivedAt > KILL_FEED_TTL_MS) continue
+      killFeed.push({
+        id: `${entry.tick}:${entry.victimSessionId}`,
+        killerName: entry.killerName,
+        victimName: entry.victimName,
+        usdValue: massToUsd(entry.mass / massScale, massPerEth, ethUsd),
+        cause: entry.cause,
+        bountyUsd: entry.bounty ? massToUsd(entry.bounty / massScale, massPerEth, ethUsd) : undefined,
+        isLocalKiller: sessionId != null && entry.killerSessionId === sessionId,
+        isLocalVictim: sessionId != null && entry.victimSessionId === sessionId,
+      })
+    }
+
     // Build border state from init + delta
     const borderRadius = snap.border?.radius ?? init.border?.radius ?? init.border?.minRadius ?? 700
     const borderTargetRadius = snap.border?.targetRadius ?? init.border?.targetRadius ?? borderRadius
@@ -1233,6 +1607,15 @@ export const createDeltaWorldAdapter = ({
         maxRadius: borderMaxRadius,
         minRadius: borderMinRadius,
       },
+      minimap: snap.minimap
+        ? {
+            worldRadius: snap.minimap.worldRadius,
+            obstacles: snap.minimap.obstacles ?? [],
+            gridSize: snap.minimap.grid.size,
+            players: snap.minimap.grid.players,
+            pickups: snap.minimap.grid.pickups,
+          }
+        : undefined,
       playerBlobs,
       otherBlobs,
       pellets,
@@ -1250,13 +1633,18 @@ export const createDeltaWorldAdapter = ({
         stunTicks: localNode?.stunTicks ?? 0,
         slowTicks: localNode?.slowTicks ?? 0,
         exitCombatTagTicks: localNode?.exitCombatTagTicks ?? 0,
+        bountyUsd: playerBlobs[0]?.bountyUsd ?? 0,
+        localTeam,
+        teams,
         pnlPct,
         pnlUsd,
         events,
+        killFeed,
         transactions,
         localUsdWorth: massToUsd(currentMass, massPerEth, ethUsd),
         localEthWorth: massToEth(currentMass, massPerEth),
         leaderboard,
+        localRank,
       },
     }
   }
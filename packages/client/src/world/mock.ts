@@ -91,6 +91,7 @@ export function createMockViewModelSource(): () => WorldViewModel {
         shootRecoveryTicks: 0,
         exitCombatTagTicks: 0,
         hitFlashTicks: 0,
+        bountyUsd: 0,
       },
     ]
 
@@ -123,6 +124,7 @@ export function createMockViewModelSource(): () => WorldViewModel {
         shootRecoveryTicks: 0,
         exitCombatTagTicks: 0,
         hitFlashTicks: 0,
+        bountyUsd: 0,
       }
     })
 
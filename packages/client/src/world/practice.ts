@@ -0,0 +1,54 @@
+// Offline practice session: a local stand-in for the Colyseus room backed by practice.worker.ts.
+// Exposes just the room surface GameClientProvider uses (sessionId, onMessage, send, leave).
+
+import type { ClientInputMessage } from './adapters'
+
+export type PracticeEndReason = 'exited' | 'died'
+
+export type PracticeWorkerRequest =
+  | { type: 'start'; displayName: string; seed: number }
+  | { type: 'input'; input: ClientInputMessage }
+
+export type PracticeWorkerMessage =
+  | {
+      type: 'world:init' | 'world:delta' | 'world:events' | 'world:minimap' | 'killFeed' | 'leaderboard'
+      payload: unknown
+    }
+  | { type: 'practice:ended'; payload: { reason: PracticeEndReason; mass: number } }
+
+export type PracticeSession = {
+  sessionId: string
+  onMessage: (type: PracticeWorkerMessage['type'], handler: (payload: unknown) => void) => void
+  send: (type: 'input', input: ClientInputMessage) => void
+  leave: () => void
+}
+
+// Must match PRACTICE_SESSION_ID in the worker
+const PRACTICE_SESSION_ID = 'practice:local'
+
+export const createPracticeSession = (displayName: string): PracticeSession => {
+  const worker = new Worker(new URL('./practice.worker.ts', import.meta.url), { type: 'module' })
+  const handlers = new Map<string, Array<(payload: unknown) => void>>()
+  const request = (message: PracticeWorkerRequest) => worker.postMessage(message)
+
+  worker.onmessage = (event: MessageEvent<PracticeWorkerMessage>) => {
+    for (const handler of handlers.get(event.data.type) ?? []) handler(event.data.payload)
+  }
+  worker.onerror = (event) => {
+    console.error('[Practice] Simulation worker failed:', event.message)
+  }
+  // Worker replies arrive on a later task, so handlers registered right after creation see world:init
+  request({ type: 'start', displayName, seed: (Math.random() * 0x7fffffff) >>> 0 })
+
+  return {
+    sessionId: PRACTICE_SESSION_ID,
+    onMessage: (type, handler) => {
+      handlers.set(type, [...(handlers.get(type) ?? []), handler])
+    },
+    send: (_type, input) => request({ type: 'input', input }),
+    leave: () => {
+      worker.terminate()
+      handlers.clear()
+    },
+  }
+}
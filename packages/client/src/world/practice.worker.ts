@@ -0,0 +1,234 @@
+// Offline practice: runs the real simulation (@goonverse/sim) in a Web Worker with bots.
+// Speaks the same world:* messages as GameRoom so the provider/adapter/renderer path is unchanged;
+// there is no ledger, so spawns, pellets and bots are free and exits pay nothing.
+
+import {
+  BotController,
+  buildLeaderboard,
+  buildMinimap,
+  buildViewBox,
+  GameEngine,
+  isEventVisibleTo,
+  isWorldEvent,
+  nodeToDto,
+  PROTOCOL_VERSION,
+  rankPlayers,
+  SIM_CONFIG,
+  type EngineEvent,
+  type KillFeedDto,
+  type NodeDto,
+  type WorldDeltaDto,
+  type WorldEventDto,
+  type WorldInitDto,
+} from '@goonverse/sim'
+import type { PracticeWorkerMessage, PracticeWorkerRequest } from './practice'
+
+const PRACTICE_SESSION_ID = 'practice:local'
+const PRACTICE_WALLET = '0x0000000000000000000000000000000000000000' as const
+// Mirrors a 0.01 ETH buy-in at the default 100 mass/ETH so sizes and HUD values look like a real room
+const PRACTICE_MASS_PER_ETH = 100
+const PRACTICE_BUY_IN_ETH = 0.01
+const PRACTICE_BOT_COUNT = 6
+const PRACTICE_BOT_DIFFICULTY = 'easy'
+const IDLE_INPUT = { w: false, a: false, s: false, d: false, shoot: false, dash: false, exit: false }
+
+const post = (message: PracticeWorkerMessage) => postMessage(message)
+
+let engine: GameEngine | null = null
+let bots: BotController | null = null
+let timer: ReturnType<typeof setInterval> | null = null
+let tick = 0
+let botNonce = 0
+let lastInputTick = 0
+let lastClientTick: number | undefined
+let prevVisibleIds = new Set<number>()
+let minimapObstaclesSent = false
+
+const spawnMass = () => Math.floor(PRACTICE_BUY_IN_ETH * PRACTICE_MASS_PER_ETH * SIM_CONFIG.massScale)
+
+const start = (displayName: string, seed: number) => {
+  stop()
+  engine = new GameEngine()
+  bots = new BotController(seed ^ 0x9e3779b9)
+  engine.seedRng(seed)
+  engine.initializeObstacles(SIM_CONFIG.obstacles.countMin)
+  engine.addPlayer({ sessionId: PRACTICE_SESSION_ID, wallet: PRACTICE_WALLET, displayName, spawnMass: spawnMass() })
+  tick = 0
+  lastInputTick = 0
+  lastClientTick = undefined
+  prevVisibleIds = new Set()
+  minimapObstaclesSent = false
+
+  const init: WorldInitDto = {
+    protocolVersion: PROTOCOL_VERSION,
+    serverId: 'practice',
+    tickMs: SIM_CONFIG.tickMs,
+    world: {
+      left: -SIM_CONFIG.border.worldRadiusMax,
+      right: SIM_CONFIG.border.worldRadiusMax,
+      top: -SIM_CONFIG.border.worldRadiusMax,
+      bottom: SIM_CONFIG.border.worldRadiusMax,
+    },
+    border: {
+      radius: engine.world.borderRadius,
+      targetRadius: engine.world.borderTargetRadius,
+      maxRadius: SIM_CONFIG.border.worldRadiusMax,
+      minRadius: SIM_CONFIG.border.worldRadiusMin,
+    },
+    massPerEth: PRACTICE_MASS_PER_ETH,
+    exitHoldMs: SIM_CONFIG.exit.durationTicks * SIM_CONFIG.tickMs,
+    massScale: SIM_CONFIG.massScale,
+    deltaEncoding: 'json',
+  }
+  post({ type: 'world:init', payload: init })
+
+  timer = setInterval(update, SIM_CONFIG.tickMs)
+}
+
+const stop = () => {
+  if (timer !== null) clearInterval(timer)
+  timer = null
+  engine = null
+  bots = null
+}
+
+// Bots join one at a time, like GameRoom.maintainBots (but with nothing to fund)
+const maintainBots = () => {
+  if (!engine || !bots || bots.size >= PRACTICE_BOT_COUNT) return
+  botNonce += 1
+  const sessionId = `bot:practice:${botNonce}`
+  engine.addPlayer({ sessionId, wallet: PRACTICE_WALLET, displayName: `Bot ${botNonce}`, spawnMass: spawnMass(), isBot: true })
+  bots.add(sessionId, PRACTICE_BOT_DIFFICULTY)
+}
+
+const valueWei = (mass: number) =>
+  ((BigInt(Math.max(0, Math.floor(mass))) * 10n ** 18n) / BigInt(PRACTICE_MASS_PER_ETH * SIM_CONFIG.massScale)).toString()
+
+const killFeedEntry = (e: Extract<EngineEvent, { type: 'kill' }>): KillFeedDto => ({
+  tick,
+  victimSessionId: e.victimSessionId,
+  victimName: e.victimDisplayName,
+  killerSessionId: e.killerSessionId,
+  killerName: e.killerDisplayName,
+  cause: e.cause,
+  mass: e.mass,
+  valueWei: valueWei(e.mass),
+  assists: e.assists.map((a) => ({ sessionId: a.sessionId, name: engine?.getPlayer(a.sessionId)?.displayName, damage: a.damage })),
+  spills: e.spills,
+  bounty: e.bounty > 0 ? e.bounty : undefined,
+})
+
+const update = () => {
+  if (!engine || !bots) return
+  tick += 1
+  if (tick - lastInputTick > SIM_CONFIG.inputStaleTicks) engine.setInput(PRACTICE_SESSION_ID, IDLE_INPUT)
+
+  bots.update(engine)
+  const result = engine.step()
+
+  const worldEvents: WorldEventDto[] = []
+  let ended: PracticeWorkerMessage | null = null
+  for (const e of result.events) {
+    if (isWorldEvent(e)) worldEvents.push(e)
+    if (e.type === 'kill') {
+      post({ type: 'killFeed', payload: killFeedEntry(e) })
+    } else if (e.type === 'playerExited' || e.type === 'playerDied') {
+      if (e.sessionId === PRACTICE_SESSION_ID) {
+        const mass = engine.getPlayerTotalMass(e.sessionId)
+        ended = { type: 'practice:ended', payload: { reason: e.type === 'playerExited' ? 'exited' : 'died', mass } }
+      } else {
+        engine.removePlayer(e.sessionId)
+        bots.remove(e.sessionId)
+      }
+    }
+  }
+
+  sendDelta(worldEvents)
+  if (tick % 20 === 0) {
+    maintainBots()
+    post({ type: 'leaderboard', payload: buildLeaderboard(rankPlayers(engine, valueWei), PRACTICE_SESSION_ID, tick) })
+  }
+  if (tick % 40 === 0) {
+    post({ type: 'world:minimap', payload: buildMinimap(engine, tick, !minimapObstaclesSent) })
+    minimapObstaclesSent = true
+  }
+
+  if (ended) {
+    stop()
+    post(ended)
+  }
+}
+
+// Same visibility rules as GameRoom.sendVisibilityDelta, minus far-range clustering (the practice world is small)
+const sendDelta = (worldEvents: WorldEventDto[]) => {
+  if (!engine) return
+  const player = engine.getPlayer(PRACTICE_SESSION_ID)
+  if (!player || !player.alive) return
+
+  const box = buildViewBox(player)
+  const minPickupMass = SIM_CONFIG.lod.minPickupMassForDelta
+  const pickupInterestRadiusSq = SIM_CONFIG.lod.pickupInterestRadius ** 2
+  const nodes = engine.getWorldNodesInBox({
+    leftX: box.leftX - 240,
+    rightX: box.rightX + 240,
+    topY: box.topY - 240,
+    bottomY: box.bottomY + 240,
+  })
+
+  const visible = new Set<number>()
+  const dtos: NodeDto[] = []
+  for (const node of nodes) {
+    const margin = node.kind === 'bullet' ? 200 : 0
+    if (node.y > box.bottomY + margin || node.y < box.topY - margin) continue
+    if (node.x > box.rightX + margin || node.x < box.leftX - margin) continue
+    if ((node.kind === 'pellet' || node.kind === 'spill') && node.mass < minPickupMass) {
+      if ((node.x - player.x) ** 2 + (node.y - player.y) ** 2 > pickupInterestRadiusSq) continue
+    }
+    visible.add(node.id)
+    dtos.push(nodeToDto(node))
+  }
+
+  const removedIds = [...prevVisibleIds].filter((id) => !visible.has(id))
+  prevVisibleIds = visible
+
+  const delta: WorldDeltaDto = {
+    tick,
+    nodes: dtos,
+    removedIds,
+    ownedIds: [player.id],
+    ackClientTick: lastClientTick,
+    border: {
+      radius: engine.world.borderRadius,
+      targetRadius: engine.world.borderTargetRadius,
+      velocity: engine.world.borderVelocity,
+    },
+  }
+  post({ type: 'world:delta', payload: delta })
+
+  const events = worldEvents.filter((e) => isEventVisibleTo(e, PRACTICE_SESSION_ID, box))
+  if (events.length > 0) post({ type: 'world:events', payload: { tick, events } })
+}
+
+onmessage = (event: MessageEvent<PracticeWorkerRequest>) => {
+  const request = event.data
+  if (request.type === 'start') {
+    start(request.displayName, request.seed)
+  } else if (request.type === 'input') {
+    if (!engine) return
+    const { input } = request
+    const maxR = SIM_CONFIG.border.worldRadiusMax
+    engine.setInput(PRACTICE_SESSION_ID, {
+      w: input.w,
+      a: input.a,
+      s: input.s,
+      d: input.d,
+      aimX: Math.max(-maxR, Math.min(maxR, input.aimX)),
+      aimY: Math.max(-maxR, Math.min(maxR, input.aimY)),
+      shoot: input.shoot,
+      dash: input.dash,
+      exit: input.exit,
+    })
+    lastInputTick = tick
+    if (typeof input.clientTick === 'number') lastClientTick = input.clientTick
+  }
+}
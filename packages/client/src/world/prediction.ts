@@ -0,0 +1,155 @@
+// Client-side prediction for the local player.
+// Runs the same movement functions as the server engine (@goonverse/sim), so a replay of
+// unacknowledged inputs on top of the server state lands where the server will.
+
+import {
+  SIM_CONFIG,
+  accelerate,
+  applyFriction,
+  bounceOffBorder,
+  clampToBorder,
+  dampForExit,
+  integratePosition,
+  movementSpeedMod,
+  resolveObstacleCollision,
+  type CircleObstacle,
+  type MovementBody,
+} from '@goonverse/sim'
+
+// Corrections smaller than this are absorbed smoothly; larger ones (dash hits, respawn) snap.
+const SNAP_DISTANCE = 120
+// Fraction of the remaining correction offset kept per 60fps frame
+const CORRECTION_DECAY = 0.85
+const FRAME_MS = 1000 / 60
+// Never predict further ahead than this (e.g. while the tab was hidden)
+const MAX_PENDING_TICKS = 40
+
+export const PREDICTION_TICK_MS = SIM_CONFIG.tickMs
+
+export type PredictionInput = {
+  w: boolean
+  a: boolean
+  s: boolean
+  d: boolean
+  shoot: boolean
+  dash: boolean
+  exit: boolean
+}
+
+export type PredictionWorld = {
+  borderRadius: number
+  borderVelocity: number
+  obstacles: CircleObstacle[]
+}
+
+// Server-replicated state of the local player (from its world:delta node)
+export type ServerPlayerState = {
+  x: number
+  y: number
+  vx: number
+  vy: number
+  radius: number
+  stunTicks: number
+  slowTicks: number
+  shootRecoveryTicks: number
+  dashActiveTicks: number
+  exiting: boolean
+}
+
+type Body = MovementBody & {
+  stunTicks: number
+  slowTicks: number
+  shootRecoveryTicks: number
+  dashActiveTicks: number
+  exiting: boolean
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+// One server tick of movement for the local player (engine.step order: accel, integrate,
+// friction, obstacles, border bounce). Dash impulses and knockback are left to reconciliation.
+const stepBody = (body: Body, input: PredictionInput, world: PredictionWorld) => {
+  body.prevX = body.x
+  body.prevY = body.y
+  const dashing = body.dashActiveTicks > 0
+
+  if (body.stunTicks <= 0) {
+    if (body.exiting || input.exit) {
+      dampForExit(body)
+    } else {
+      const speedMod = movementSpeedMod({
+        dashCharging: input.dash && !dashing,
+        slowed: body.slowTicks > 0,
+        shootCharging: input.shoot,
+        shootRecovering: body.shootRecoveryTicks > 0,
+      })
+      accelerate(body, input, speedMod)
+    }
+  }
+
+  integratePosition(body, world.borderRadius)
+  applyFriction(body, dashing)
+  for (const o of world.obstacles) resolveObstacleCollision(body, o, dashing)
+  clampToBorder(body, world.borderRadius)
+  bounceOffBorder(body, world.borderRadius, world.borderVelocity)
+
+  if (body.stunTicks > 0) body.stunTicks -= 1
+  if (body.slowTicks > 0) body.slowTicks -= 1
+  if (body.shootRecoveryTicks > 0) body.shootRecoveryTicks -= 1
+  if (body.dashActiveTicks > 0) body.dashActiveTicks -= 1
+}
+
+export type LocalPredictor = {
+  // Advance one local tick with the input that is being sent to the server for `clientTick`
+  step: (clientTick: number, input: PredictionInput, world: PredictionWorld) => void
+  // Rebase on the server's state (which already includes inputs up to `ackClientTick`) and replay the rest
+  reconcile: (server: ServerPlayerState, ackClientTick: number, world: PredictionWorld) => void
+  // Predicted position for rendering, with any correction eased in over a few frames
+  position: (now: number) => { x: number; y: number } | null
+  reset: () => void
+}
+
+export const createLocalPredictor = (): LocalPredictor => {
+  let body: Body | null = null
+  let pending: Array<{ clientTick: number; input: PredictionInput }> = []
+  let offsetX = 0
+  let offsetY = 0
+  let lastPositionAt = 0
+
+  return {
+    step: (clientTick, input, world) => {
+      if (!body) return
+      pending.push({ clientTick, input })
+      if (pending.length > MAX_PENDING_TICKS) pending.splice(0, pending.length - MAX_PENDING_TICKS)
+      stepBody(body, input, world)
+    },
+    reconcile: (server, ackClientTick, world) => {
+      const before = body ? { x: body.x + offsetX, y: body.y + offsetY } : null
+      body = { ...server, prevX: server.x, prevY: server.y }
+      pending = pending.filter((p) => p.clientTick > ackClientTick)
+      for (const p of pending) stepBody(body, p.input, world)
+
+      if (!before) return
+      offsetX = before.x - body.x
+      offsetY = before.y - body.y
+      if (Math.hypot(offsetX, offsetY) > SNAP_DISTANCE) {
+        offsetX = 0
+        offsetY = 0
+      }
+    },
+    position: (now) => {
+      if (!body) return null
+      const decay = Math.pow(CORRECTION_DECAY, clamp((now - lastPositionAt) / FRAME_MS, 0, 10))
+      lastPositionAt = now
+      offsetX *= decay
+      offsetY *= decay
+      return { x: body.x + offsetX, y: body.y + offsetY }
+    },
+    reset: () => {
+      body = null
+      pending = []
+      offsetX = 0
+      offsetY = 0
+    },
+  }
+}
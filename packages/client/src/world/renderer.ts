@@ -192,6 +192,86 @@ function drawOutOfBoundsOverlay(ctx: CanvasRenderingContext2D, borderRadius: num
   ctx.restore()
 }
 
+// Minimap: bottom-left, above the HUD's controls hint (screen pixels)
+const MINIMAP_SIZE = 160
+const MINIMAP_MARGIN = 16
+const MINIMAP_BOTTOM_OFFSET = 96
+
+/**
+ * Minimap (screen space): player/pickup density, obstacles, the live border and where we are
+ */
+function drawMinimap(ctx: CanvasRenderingContext2D, view: WorldViewModel, height: number) {
+  const minimap = view.minimap
+  if (!minimap) return
+
+  const size = MINIMAP_SIZE
+  const left = MINIMAP_MARGIN
+  const top = height - MINIMAP_BOTTOM_OFFSET - size
+  const cx = left + size / 2
+  const cy = top + size / 2
+  const scale = size / (minimap.worldRadius * 2)
+  const cell = size / minimap.gridSize
+
+  ctx.save()
+  ctx.beginPath()
+  ctx.arc(cx, cy, size / 2, 0, Math.PI * 2)
+  ctx.fillStyle = 'rgba(15, 15, 20, 0.75)'
+  ctx.fill()
+  ctx.clip()
+
+  // Density: pickups faint green, players red (relative to the busiest cell)
+  const maxPickups = Math.max(1, ...minimap.pickups)
+  const maxPlayers = Math.max(1, ...minimap.players)
+  for (let i = 0; i < minimap.gridSize * minimap.gridSize; i++) {
+    const x = left + (i % minimap.gridSize) * cell
+    const y = top + Math.floor(i / minimap.gridSize) * cell
+    const pickups = minimap.pickups[i] ?? 0
+    if (pickups > 0) {
+      ctx.fillStyle = `rgba(74, 222, 128, ${(0.08 + 0.22 * (pickups / maxPickups)).toFixed(3)})`
+      ctx.fillRect(x, y, cell, cell)
+    }
+    const players = minimap.players[i] ?? 0
+    if (players > 0) {
+      ctx.fillStyle = `rgba(251, 113, 133, ${(0.3 + 0.55 * (players / maxPlayers)).toFixed(3)})`
+      ctx.fillRect(x, y, cell, cell)
+    }
+  }
+
+  ctx.fillStyle = 'rgba(148, 163, 184, 0.6)'
+  for (const o of minimap.obstacles) {
+    ctx.beginPath()
+    ctx.arc(cx + o.x * scale, cy + o.y * scale, Math.max(1, o.radius * scale), 0, Math.PI * 2)
+    ctx.fill()
+  }
+
+  // Border (live from deltas) and where it is heading
+  ctx.lineWidth = 1.5
+  ctx.strokeStyle = POC_COLORS.danger
+  ctx.beginPath()
+  ctx.arc(cx, cy, view.border.radius * scale, 0, Math.PI * 2)
+  ctx.stroke()
+  if (Math.abs(view.border.targetRadius - view.border.radius) > 1) {
+    ctx.setLineDash([3, 3])
+    ctx.strokeStyle = POC_COLORS.dangerGlow
+    ctx.beginPath()
+    ctx.arc(cx, cy, view.border.targetRadius * scale, 0, Math.PI * 2)
+    ctx.stroke()
+    ctx.setLineDash([])
+  }
+
+  ctx.fillStyle = POC_COLORS.white
+  ctx.beginPath()
+  ctx.arc(cx + view.camera.x * scale, cy + view.camera.y * scale, 3, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.restore()
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)'
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  ctx.arc(cx, cy, size / 2, 0, Math.PI * 2)
+  ctx.stroke()
+}
+
 export type RendererOptions = {
   maxFps?: number
   getMaxFps?: () => number | null | undefined
@@ -209,7 +289,7 @@ export const bootstrapRenderer = (
   let timeoutId: number | null = null
 
   // Text caches
-  const blobTextById = new Map<string, { name: UText; usd: UText }>()
+  const blobTextById = new Map<string, { name: UText; usd: UText; bounty: UText }>()
   const pelletLabelByValue = new Map<string, UText>()
   const MONEY_COLOR = POC_COLORS.primary
   const MONEY_STROKE = 'rgba(0,0,0,0.9)'
@@ -325,6 +405,7 @@ export const bootstrapRenderer = (
           shootRecoveryTicks: number
           exitCombatTagTicks: number
           hitFlashTicks: number
+          bountyUsd: number
         }
 
     const nodes: RenderNode[] = []
@@ -387,6 +468,7 @@ export const bootstrapRenderer = (
         shootRecoveryTicks: b.shootRecoveryTicks,
         exitCombatTagTicks: b.exitCombatTagTicks,
         hitFlashTicks: b.hitFlashTicks,
+        bountyUsd: b.bountyUsd,
       })
     }
 
@@ -418,6 +500,7 @@ export const bootstrapRenderer = (
         shootRecoveryTicks: b.shootRecoveryTicks,
         exitCombatTagTicks: b.exitCombatTagTicks,
         hitFlashTicks: b.hitFlashTicks,
+        bountyUsd: b.bountyUsd,
       })
     }
 
@@ -629,6 +712,7 @@ export const bootstrapRenderer = (
         const cached = blobTextById.get(node.id) ?? {
           name: new UText(nameSize, '#FFFFFF', true, '#000000'),
           usd: new UText(nameSize * 0.6, MONEY_COLOR, true, MONEY_STROKE),
+          bounty: new UText(nameSize * 0.5, POC_COLORS.warning, true, MONEY_STROKE),
         }
         blobTextById.set(node.id, cached)
 
@@ -655,6 +739,27 @@ export const bootstrapRenderer = (
           ctx.drawImage(usdCanvas, x - Math.trunc(usdW / 2), y - r - usdH - 8, usdW, usdH)
         }
 
+        // Bounty: gold dashed ring + reward below the body
+        if (node.bountyUsd > 0) {
+          ctx.strokeStyle = POC_COLORS.warning
+          ctx.lineWidth = 3
+          ctx.setLineDash([8, 6])
+          ctx.lineDashOffset = -now * 0.02
+          ctx.beginPath()
+          ctx.arc(x, y, r + 5, 0, Math.PI * 2)
+          ctx.stroke()
+          ctx.setLineDash([])
+          ctx.lineDashOffset = 0
+
+          cached.bounty.setValue(`BOUNTY ${formatUsd(node.bountyUsd, true)}`)
+          cached.bounty.setSize(nameSize * 0.5)
+          cached.bounty.setScale(ratio)
+          const bountyCanvas = cached.bounty.render()
+          const bountyW = Math.trunc(bountyCanvas.width * invRatio)
+          const bountyH = Math.trunc(bountyCanvas.height * invRatio)
+          ctx.drawImage(bountyCanvas, x - Math.trunc(bountyW / 2), y + r + 8, bountyW, bountyH)
+        }
+
         continue
       }
 
@@ -742,6 +847,8 @@ export const bootstrapRenderer = (
 
     ctx.restore()
 
+    drawMinimap(ctx, view, height)
+
     scheduleNext()
   }
 
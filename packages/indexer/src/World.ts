@@ -144,6 +144,8 @@ ponder.on("World:Deposit", async ({ event, context }) => {
  * Burns:
  * - user:pending:exit:<wallet> by payout (user claimed their pending exit)
  * - server:total by payout (reflects on-chain bankroll reduction)
+ *
+ * Also drops the stored ticket so /sessions/pending-exits stops offering it.
  */
 ponder.on("World:Exit", async ({ event, context }) => {
   const { player, serverId, sessionId, payout } = event.args;
@@ -172,5 +174,6 @@ ponder.on("World:Exit", async ({ event, context }) => {
     accounts.burn(serverId, `user:pending:exit:${wallet}`, amount, `exit:pending:${sid}`),
     // Burn server total to reflect on-chain bankroll reduction
     accounts.burn(serverId, "server:total", amount, `exit:total:${sid}`),
+    accounts.clearExitTicket(serverId, wallet as `0x${string}`, sid),
   ]);
 });
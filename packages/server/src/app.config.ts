@@ -8,7 +8,15 @@ import { config as envConfig } from "./config.js";
 import { GameRoom } from "./rooms/GameRoom.js";
 import { verifyPrivyToken, getPrivyUser, getPrimaryWallet } from "./auth/privy.js";
 import { getServer, serverIdToBytes32 } from "./services/ponder.js";
-import { ledger, serverId as ledgerServerId } from "./services/accounts.js";
+import { ledger, serverId as ledgerServerId, signingConfig } from "./services/accounts.js";
+import { matchHistory, MATCH_HISTORY_MAX_PER_WALLET } from "./services/matchHistory.js";
+import { startExitReconciliation } from "./services/reconciliation.js";
+import { listServerRooms, normalizePartyCode, pickRoomForSpawn, startRoomAutoscaler } from "./services/roomShards.js";
+import { getLastLedgerCheck, spawnsPaused, startLedgerInvariantChecks } from "./services/ledgerInvariants.js";
+import type { SerializedExitTicket } from "./types.js";
+
+// Pending exit tickets this close to their deadline are re-signed before being handed out
+const EXIT_TICKET_RESIGN_MARGIN_SECONDS = 5 * 60;
 
 // Parse Redis URL into options object so we can disable ready check.
 // Ready check sends INFO command which fails if connection is already in subscriber mode.
@@ -37,6 +45,7 @@ export default config({
     gameServer.define("game", GameRoom);
 
     // Proactively create a room for this serverId so /rooms isn't empty on cold start.
+    // More rooms are added by the autoscaler as this one fills up (see services/roomShards.ts).
     // This uses the configured SERVER_ID; if the room already exists, creation will throw, so we ignore that error.
     (async () => {
       try {
@@ -103,10 +112,16 @@ export default config({
       }
     });
 
-    // Current balance telemetry for operators
+    // Current balance telemetry for operators: per room, plus the ledger accounts all of this
+    // serverId's rooms share
     app.get("/balances/current", async (_req, res) => {
       try {
         const rooms = await matchMaker.query({ name: "game" });
+        const serverRooms = await listServerRooms();
+        const [worldWei, budgetWei] = await Promise.all([
+          ledger.getBalance(ledgerServerId, "server:world"),
+          ledger.getBalance(ledgerServerId, "server:budget"),
+        ]);
         const balances = rooms.map((room) => ({
           roomId: room.roomId,
           serverId: room.metadata?.serverId,
@@ -119,6 +134,14 @@ export default config({
         res.json({
           balances,
           count: balances.length,
+          world: {
+            serverId: envConfig.serverId,
+            worldBalance: worldWei.toString(),
+            pelletReserve: budgetWei.toString(),
+            rooms: serverRooms.length,
+            clients: serverRooms.reduce((sum, room) => sum + room.clients, 0),
+            maxClients: serverRooms.reduce((sum, room) => sum + room.maxClients, 0),
+          },
           timestamp: Date.now(),
         });
       } catch (error) {
@@ -127,7 +150,16 @@ export default config({
       }
     });
 
-    // Pending exit tickets endpoint (requires Privy auth)
+    // Latest ledger invariant check for operators (ledger vs indexer vs on-chain bankroll)
+    app.get("/balances/invariants", (_req, res) => {
+      res.json({
+        check: getLastLedgerCheck(),
+        spawnsPaused: spawnsPaused(),
+        timestamp: Date.now(),
+      });
+    });
+
+    // Pending exit tickets endpoint (requires Privy auth): recovers tickets the client never received
     app.get("/sessions/pending-exits", async (req, res) => {
       try {
         const authHeader = req.headers.authorization;
@@ -143,15 +175,93 @@ export default config({
           return;
         }
 
-        // TODO: Fetch pending exit tickets from Redis for this user's wallet
-        // For now, return empty array
-        res.json({ tickets: [] });
+        const user = await getPrivyUser(claims.userId);
+        const wallet = getPrimaryWallet(user);
+        if (!wallet) {
+          res.status(400).json({ error: "No wallet linked to account" });
+          return;
+        }
+
+        // Tickets stay pending until the indexer sees their Exit event. Ours get a fresh
+        // deadline when they're expired or about to be; other servers re-sign their own.
+        const normalizedWallet = wallet.toLowerCase() as `0x${string}`;
+        const resignBefore = BigInt(Math.floor(Date.now() / 1000) + EXIT_TICKET_RESIGN_MARGIN_SECONDS);
+        const pending = await ledger.getPendingExitTickets(normalizedWallet);
+        const tickets: SerializedExitTicket[] = [];
+        for (const ticket of pending) {
+          if (ticket.serverId.toLowerCase() !== ledgerServerId || BigInt(ticket.deadline) > resignBefore) {
+            tickets.push(ticket);
+            continue;
+          }
+          const resigned = await ledger.resignExitTicket(
+            ledgerServerId,
+            normalizedWallet,
+            ticket.sessionId as `0x${string}`,
+            signingConfig,
+          );
+          if (!resigned) continue; // Claimed in the meantime
+          tickets.push({
+            serverId: resigned.serverId,
+            sessionId: resigned.sessionId,
+            player: resigned.player,
+            payout: resigned.payout.toString(),
+            deadline: resigned.deadline.toString(),
+            signature: resigned.signature,
+          });
+        }
+
+        res.json({ tickets });
       } catch (error) {
         console.error("Error fetching pending exits:", error);
         res.status(500).json({ error: "Internal server error" });
       }
     });
 
+    /**
+     * Match History Endpoint
+     *
+     * Returns the caller's most recent finished runs (newest first) with stats and PnL.
+     *
+     * Query params:
+     * - limit: Number of runs to return (default 20, max MATCH_HISTORY_MAX_PER_WALLET)
+     *
+     * Requires Privy auth token in Authorization header.
+     */
+    app.get("/sessions/history", async (req, res) => {
+      try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader?.startsWith("Bearer ")) {
+          res.status(401).json({ error: "Missing authorization header" });
+          return;
+        }
+
+        const token = authHeader.slice(7);
+        const claims = await verifyPrivyToken(token);
+        if (!claims) {
+          res.status(401).json({ error: "Invalid token" });
+          return;
+        }
+
+        const user = await getPrivyUser(claims.userId);
+        const wallet = getPrimaryWallet(user);
+        if (!wallet) {
+          res.status(400).json({ error: "No wallet linked to account" });
+          return;
+        }
+
+        const requested = parseInt(String(req.query.limit ?? "20"), 10);
+        const limit = Number.isFinite(requested)
+          ? Math.max(1, Math.min(MATCH_HISTORY_MAX_PER_WALLET, requested))
+          : 20;
+
+        const runs = await matchHistory.listByWallet(wallet.toLowerCase() as `0x${string}`, limit);
+        res.json({ wallet, runs, count: runs.length });
+      } catch (error) {
+        console.error("Error fetching match history:", error);
+        res.status(500).json({ error: "Internal server error" });
+      }
+    });
+
     /**
      * Join Eligibility Endpoint
      * 
@@ -257,9 +367,17 @@ export default config({
         const bal = await ledger.getBalance(ledgerServerId, `user:pending:spawn:${normalizedWallet}`);
 
         if (bal >= spawnCostWei) {
+          // Route the spawn to the least-loaded room (a new one if they're all nearly full)
+          let roomId: string | undefined;
+          try {
+            roomId = (await pickRoomForSpawn(normalizePartyCode(req.query.partyCode))) ?? undefined;
+          } catch (error) {
+            console.error("Join eligibility: failed to pick a room for spawn:", error);
+          }
           res.json({
             canJoin: true,
             action: "spawn",
+            roomId,
             spawnAmount: spawnCostWei.toString(),
             wallet,
             serverId,
@@ -286,6 +404,9 @@ export default config({
     console.log(`Game server starting on port ${envConfig.port}`);
     console.log(`Server ID: ${envConfig.serverId}`);
     console.log(`Ponder URL: ${envConfig.ponderUrl}`);
-    // No sweeper needed - pending exits belong to users permanently
+    // Pending exits belong to users until claimed; expired ones are refunded to their spawn balance
+    startExitReconciliation();
+    startLedgerInvariantChecks();
+    startRoomAutoscaler();
   },
 });
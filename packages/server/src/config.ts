@@ -85,9 +85,44 @@ export const config = {
   // Exit Tickets
   exitTicketTtlSeconds: parseInt(optionalEnv("EXIT_TICKET_TTL_SECONDS", "86400"), 10),
 
+  // Exit reconciliation (burn claimed tickets, refund expired ones after a grace period)
+  reconcileIntervalMs: parseInt(optionalEnv("RECONCILE_INTERVAL_MS", "60000"), 10),
+  exitRefundGraceSeconds: parseInt(optionalEnv("EXIT_REFUND_GRACE_SECONDS", "3600"), 10),
+
+  // Ledger invariant checks (Redis balances vs indexer totals vs on-chain bankroll)
+  rpcUrl: optionalEnv("RPC_URL", ""),
+  ledgerCheckIntervalMs: parseInt(optionalEnv("LEDGER_CHECK_INTERVAL_MS", "60000"), 10),
+  ledgerToleranceWei: optionalEnv("LEDGER_TOLERANCE_WEI", "0"),
+  // Wei credited to server:house off-chain (bot funding that never went through a deposit)
+  ledgerHouseFloatWei: optionalEnv("LEDGER_HOUSE_FLOAT_WEI", "0"),
+  ledgerPauseSpawns: optionalEnv("LEDGER_PAUSE_SPAWNS", "false") === "true",
+  ledgerAlertWebhookUrl: optionalEnv("LEDGER_ALERT_WEBHOOK_URL", ""),
+
+  // Replays (directory for gzipped match recordings; empty disables recording)
+  replayDir: optionalEnv("REPLAY_DIR", ""),
+
+  // Bots (funded from the server:house ledger account)
+  botCount: parseInt(optionalEnv("BOT_COUNT", "0"), 10),
+  botDifficulty: optionalEnv("BOT_DIFFICULTY", "normal"),
+
+  // Rule variant for every room of this serverId (sim modes.ts)
+  gameMode: optionalEnv("GAME_MODE", "classic"),
+
+  // Crash recovery: snapshot the world to Redis every N ticks (and on joins/leaves/exits); 0 disables
+  snapshotIntervalTicks: parseInt(optionalEnv("SNAPSHOT_INTERVAL_TICKS", "100"), 10),
+
+  // Graceful shutdown: countdown before a draining room cashes out every live player
+  drainCountdownMs: parseInt(optionalEnv("DRAIN_COUNTDOWN_MS", "10000"), 10),
+
   // Room Configuration (used in room metadata for matchMaker.query())
   region: optionalEnv("REGION", "us-east"),
+  // Player cap per room (spectators included)
   maxClients: parseInt(optionalEnv("MAX_CLIENTS", "50"), 10),
+
+  // Sharding: add a room for the serverId once every open room is this full (clients / MAX_CLIENTS)
+  roomScaleUpRatio: parseFloat(optionalEnv("ROOM_SCALE_UP_RATIO", "0.8")),
+  // How often to check room capacity (and crashed rooms to resume); 0 disables the autoscaler
+  roomScaleCheckMs: parseInt(optionalEnv("ROOM_SCALE_CHECK_MS", "5000"), 10),
 } as const;
 
 export type Config = typeof config;
\ No newline at end of file
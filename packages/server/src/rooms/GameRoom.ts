@@ -1,22 +1,67 @@
 import { Room, Client } from "colyseus";
 import { GameState, type SpawnOptions } from "./schema/GameState.js";
-import { PROTOCOL_VERSION, type InputMessage, type WorldDeltaDto, type WorldInitDto, type NodeDto } from "./protocol.js";
 import { verifyPrivyToken, getPrivyUser, getPrimaryWallet, type PrivyClaims } from "../auth/privy.js";
-import { getServer, serverIdToBytes32 } from "../services/ponder.js";
+import { getDeposit, getServer, serverIdToBytes32 } from "../services/ponder.js";
 import {
   generateSessionId,
   massToPayoutAmount,
   payoutAmountToMass,
 } from "../services/exitController.js";
 import { ledger, serverId, signingConfig } from "../services/accounts.js";
+import { spawnsPaused } from "../services/ledgerInvariants.js";
+import { saveReplaySegment } from "../services/replays.js";
+import { recordedSince, recoverWorldFlows, WorldFlowBuffer } from "../services/worldFlows.js";
+import { normalizePartyCode } from "../services/roomShards.js";
+import {
+  claimOrphanedSnapshot,
+  clearRoomSnapshot,
+  saveRoomSnapshot,
+  type PendingPayout,
+  type RoomSnapshot,
+} from "../services/roomSnapshots.js";
+import { matchHistory, type MatchSummary, type RunOutcome } from "../services/matchHistory.js";
 import { config } from "../config.js";
 import type { PlayerUserData, AuthContext } from "../types.js";
 import type { SerializedExitTicket } from "@goonverse/accounts";
 
-// Shooter simulation engine
-import { SIM_CONFIG } from "./sim/config.js";
-import { GameEngine, type WorldNode } from "./sim/engine.js";
-import type { PlayerState } from "./sim/state.js";
+// Shooter simulation engine + wire contract (shared with the client)
+import {
+  BotController,
+  buildLeaderboard,
+  buildMinimap,
+  buildViewBox,
+  diffNode,
+  encodeWorldDelta,
+  GAME_MODES,
+  GameEngine,
+  isBotDifficulty,
+  isGameModeId,
+  isEventVisibleTo,
+  isWorldEvent,
+  MIN_PROTOCOL_VERSION,
+  nodeToDto,
+  PROTOCOL_VERSION,
+  rankPlayers,
+  ReplayRecorder,
+  SIM_CONFIG,
+  StringInterner,
+  type DrainNoticeDto,
+  type EngineEvent,
+  type InputMessage,
+  type KillFeedDto,
+  type MinimapDto,
+  type NodeDto,
+  type NodePatchDto,
+  type PlayerState,
+  type ReplaySegment,
+  type SpectateMessage,
+  type SpectatorViewDto,
+  type WorldDeltaDto,
+  type WorldEventDto,
+  type WorldEventsDto,
+  type WorldInitDto,
+  type WorldNode,
+} from "@goonverse/sim";
 
 /**
  * Main game room
@@ -26,6 +71,12 @@ import type { PlayerState } from "./sim/state.js";
  * - Deposit verification in onJoin
  * - Full physics-based gameplay
  * - Exit flow with hold-to-exit and ticket generation
+ * - Spectators (no player, no ledger transfer) following a player or a free camera
+ * - Match history: a summary of every finished player run (stats + PnL)
+ * - Graceful shutdown: drains (countdown, then every live player is cashed out) before disposing
+ * - Crash recovery: the world is snapshotted to Redis and a restarted room resumes it
+ * - World accounting: recycle and pellet flows are netted per room and settled to the ledger once per second
+ * - Sharding: a serverId can run several rooms (see services/roomShards.ts); extra ones close once idle
  * 
  * Room metadata is automatically included in matchMaker.query() results
  * when using RedisDriver for cross-machine room discovery.
@@ -33,6 +84,57 @@ import type { PlayerState } from "./sim/state.js";
 // Default buy-in for development when Ponder isn't available (0.01 ETH in wei)
 const DEV_DEFAULT_BUY_IN_WEI = "10000000000000000"; // 0.01 ETH
 
+// Full resync of a client's visible set every 5s (20Hz ticks) on field-patch deltas
+const DELTA_KEYFRAME_INTERVAL_TICKS = 20 * 5;
+
+// Minimap (border, obstacles, density) every 2s (20Hz ticks)
+const MINIMAP_INTERVAL_TICKS = 20 * 2;
+
+// Flush the replay recording to disk every minute (20Hz ticks)
+const REPLAY_FLUSH_INTERVAL_TICKS = 20 * 60;
+
+// Look for crashed rooms' unsettled world flows every 30s (their lease may still have been live at create)
+const WORLD_FLOW_RECOVERY_INTERVAL_TICKS = 20 * 30;
+
+// A shard room with no clients and no players left is disposed after this long
+const SHARD_IDLE_DISPOSE_MS = 60_000;
+
+// House account that funds bot spawns and receives bot cash-outs
+const BOT_HOUSE_ACCOUNT = "server:house";
+const BOT_WALLET = "0x0000000000000000000000000000000000000000" as const;
+
+// What a spectator connection is looking at: a followed player, else the free camera position
+type SpectatorView = {
+  followSessionId: string | null;
+  x: number;
+  y: number;
+};
+
+// A player's run so far, summarized to match history when it ends (bots aren't tracked)
+type RunStats = {
+  wallet: `0x${string}`;
+  depositId?: `0x${string}`;
+  // What the run paid (the deposit's amount, else the buy-in at spawn); missing in older snapshots
+  buyInWei?: string;
+  displayName: string;
+  startedAt: number;
+  spawnMass: number;
+  peakMass: number;
+  kills: number;
+  damageDealt: number;
+  // Lobby party code (team modes put party members on one team)
+  partyCode?: string;
+};
+
+// The part of the world a connection's delta is built around
+type ViewFocus = {
+  x: number;
+  y: number;
+  radius: number;
+  ownedIds: number[];
+  spectator?: SpectatorViewDto;
+};
+
 export class GameRoom extends Room<GameState> {
   private exitHoldMs: number = SIM_CONFIG.exit.durationTicks * SIM_CONFIG.tickMs;
   private massPerEth: number = 100;
@@ -43,14 +145,59 @@ export class GameRoom extends Room<GameState> {
   private startedAt: number = Date.now();
 
   // Authoritative simulation (shooter)
-  private readonly engine = new GameEngine();
+  private readonly engine = new GameEngine(GAME_MODES[isGameModeId(config.gameMode) ? config.gameMode : "classic"]);
   private tickCount: number = 0;
 
+  // Deterministic replay recording (only when REPLAY_DIR is configured)
+  private replay: ReplayRecorder | null = null;
+  private replayFlushInFlight = false;
+  // Segments flushed from the recorder but not written yet (kept in order, retried on the next flush)
+  private readonly unsavedReplaySegments: ReplaySegment[] = [];
+
+  // Server-side bots (driven through engine.setInput like any client)
+  private bots = new BotController(1);
+  private botNonce = 0;
+  private botSpawnInFlight = false;
+  private botFundingWarned = false;
+
   // Best-parity visibility: per-client visible sets + deltas
   private readonly prevVisibleIdsBySession = new Map<string, Set<number>>();
 
+  // Spectator connections (they have no PlayerState)
+  private readonly spectatorsBySession = new Map<string, SpectatorView>();
+
+  // Live player runs for match history
+  private readonly runsBySession = new Map<string, RunStats>();
+
+  // Negotiated protocol per client; binary-delta clients also get a string table
+  private readonly protocolVersionBySession = new Map<string, number>();
+  private readonly deltaStringsBySession = new Map<string, StringInterner>();
+
+  // Field-patch deltas: what each client currently holds, and when it next gets a keyframe
+  private readonly sentNodesBySession = new Map<string, Map<number, NodeDto>>();
+  private readonly nextKeyframeTickBySession = new Map<string, number>();
+  // Connections that already received the (static) obstacle layout in a minimap
+  private readonly minimapObstaclesSent = new Set<string>();
+
   // Input tracking (stale input handling)
   private readonly lastInputTickBySession = new Map<string, number>();
+  // Latest client prediction tick received per session (acked in world:delta)
+  private readonly lastClientTickBySession = new Map<string, number>();
+
+  // Exits between snapshot and ledger withdraw (retried by a room restoring the snapshot)
+  private readonly pendingPayouts = new Map<string, PendingPayout>();
+  // A player joined or left the world since the last snapshot
+  private snapshotDue = false;
+
+  // Graceful shutdown: when the drain countdown ends (null while not draining)
+  private drainEndsAt: number | null = null;
+
+  // Extra room created by the autoscaler (disposes itself when idle, runs no bots)
+  private shard = false;
+  private idleSince: number | null = null;
+
+  // Recycle/pellet flows not yet settled to the ledger (created in onCreate)
+  private worldFlows!: WorldFlowBuffer;
 
   // Cached balances for metadata
   private cachedPelletReserveWei: bigint = 0n;
@@ -101,9 +248,11 @@ export class GameRoom extends Room<GameState> {
   /**
    * Called when the room is created
    */
-  async onCreate(_options: Record<string, unknown>) {
-    // Keep rooms alive between players so discovery is never empty
+  async onCreate(options: Record<string, unknown>) {
+    // Keep rooms alive between players so discovery is never empty (shards close themselves when idle)
     this.autoDispose = false;
+    this.shard = options.shard === true;
+    this.maxClients = config.maxClients;
     this.startedAt = Date.now();
     // Initialize state
     this.setState(new GameState());
@@ -144,18 +293,48 @@ export class GameRoom extends Room<GameState> {
       this.state.exitHoldMs = this.exitHoldMs;
     }
 
-    // Seed RNG deterministically from roomId
-    this.engine.seedRng(this.hashSeed(this.roomId));
+    this.bots = new BotController(this.hashSeed(`bots:${this.roomId}`));
+
+    // Resume the world a crashed or restarted room left behind, else start a fresh one
+    const restored = await this.restoreFromSnapshot();
+    if (!restored) {
+      // Record every engine mutation from here on so the match can be replayed
+      if (config.replayDir) {
+        this.replay = new ReplayRecorder({ roomId: this.roomId, serverId: config.serverId });
+        this.engine.setRecorder(this.replay);
+      }
+
+      // Seed RNG deterministically from roomId
+      this.engine.seedRng(this.hashSeed(this.roomId));
+    } else if (config.replayDir) {
+      console.warn("[GameRoom] Replay recording disabled: replays can't start from a restored world");
+    }
+
+    // Settle whatever crashed rooms left unsettled before this room starts its own buffer
+    await this.recoverOrphanedWorldFlows();
+    this.worldFlows = new WorldFlowBuffer(this.roomId);
+    await this.worldFlows.open().catch((error) => {
+      // Flows still net and settle in memory; they just aren't journaled until Redis is back
+      console.error("[GameRoom] Failed to open world flow buffer:", error);
+    });
+    if (restored) await this.revertFlowsAfterSnapshot(restored);
 
     await this.refreshBalancesAndMetadata();
 
-    // Seed static obstacles
-    this.engine.initializeObstacles(SIM_CONFIG.obstacles.count);
+    if (restored) {
+      void this.retryPendingPayouts();
+    } else {
+      // Seed static obstacles
+      this.engine.initializeObstacles(SIM_CONFIG.obstacles.count);
+    }
 
     // Register message handlers
     this.onMessage("input", (client, message: InputMessage) => {
       this.handleInput(client, message);
     });
+    this.onMessage("spectate", (client, message: SpectateMessage) => {
+      this.handleSpectate(client, message);
+    });
 
     // Log initial state (useful to verify no pellets are pre-spawned)
     console.log(`GameRoom created for server ${config.serverId}`);
@@ -169,18 +348,14 @@ export class GameRoom extends Room<GameState> {
   /**
    * Called when a client joins the room
    * 
-   * Handles two flows:
-   * 1. Reconnect: If wallet already has a living entity, reattach to it
-   * 2. Spawn: Verify deposit is unused, mark as used, then spawn
+   * Handles three flows:
+   * 1. Spectate: watch without a player (no wallet or ledger transfer needed)
+   * 2. Reconnect: If wallet already has a living entity, reattach to it
+   * 3. Spawn: Verify deposit is unused, mark as used, then spawn
    */
   async onJoin(client: Client, options: SpawnOptions & { reconnect?: boolean }, auth: AuthContext) {
     console.log(`Client ${client.sessionId} joining with options:`, options);
 
-    const wallet = (auth.wallet || options.wallet)?.toLowerCase() as `0x${string}`;
-    if (!wallet) {
-      throw new Error("No wallet provided");
-    }
-
     if (!options.serverId) {
       throw new Error("Missing required spawn options: serverId");
     }
@@ -190,6 +365,22 @@ export class GameRoom extends Room<GameState> {
       throw new Error(`Invalid serverId: expected ${config.serverId}, got ${options.serverId}`);
     }
 
+    this.negotiateProtocol(client, options.protocolVersion);
+
+    // SPECTATE FLOW: no entity, nothing charged
+    if (options.spectate) {
+      this.spectatorsBySession.set(client.sessionId, { followSessionId: null, x: 0, y: 0 });
+      this.handleSpectate(client, { followSessionId: options.followSessionId ?? null });
+      console.log(`Client ${client.sessionId} spectating`);
+      this.sendInit(client);
+      return;
+    }
+
+    const wallet = (auth.wallet || options.wallet)?.toLowerCase() as `0x${string}`;
+    if (!wallet) {
+      throw new Error("No wallet provided");
+    }
+
     // RECONNECT FLOW: active entity already exists for this wallet
     const existing = this.engine.findPlayerByWallet(wallet);
     if (existing && existing.alive) {
@@ -197,7 +388,12 @@ export class GameRoom extends Room<GameState> {
       console.log(`Reconnecting wallet ${wallet} from ${oldSessionId} to ${client.sessionId}`);
 
       this.engine.rekeyPlayerSession(oldSessionId, client.sessionId);
-      existing.disconnectedAtTick = undefined;
+      this.engine.markReconnected(client.sessionId);
+      const run = this.runsBySession.get(oldSessionId);
+      if (run) {
+        this.runsBySession.delete(oldSessionId);
+        this.runsBySession.set(client.sessionId, run);
+      }
       this.lastInputTickBySession.set(client.sessionId, this.tickCount);
 
       client.userData = {
@@ -212,10 +408,17 @@ export class GameRoom extends Room<GameState> {
     }
 
     // SPAWN FLOW: consume hot-ledger balance (user:pending:spawn -> server:world)
+    if (this.drainEndsAt !== null) {
+      throw new Error("Room is shutting down; join another room");
+    }
+    if (spawnsPaused()) {
+      throw new Error("Spawns are paused while the ledger is being reconciled");
+    }
     const spawnCostWei = this.spawnCostWei;
     if (spawnCostWei <= 0n) {
       throw new Error("Server misconfigured: spawnCostWei is not set");
     }
+    const buyInWei = await this.runBuyInWei(wallet, options.depositId as `0x${string}` | undefined);
 
     const ok = await ledger.transfer(
       serverId,
@@ -240,19 +443,47 @@ export class GameRoom extends Room<GameState> {
     const displayName =
       this.sanitizeDisplayName((options as any).displayName) ?? this.deriveFallbackDisplayName(wallet);
 
+    const partyCode = normalizePartyCode(options.partyCode) ?? undefined;
     const sim = this.engine.addPlayer({
       sessionId: client.sessionId,
       wallet,
       displayName,
       spawnMass,
+      team: this.partyTeam(partyCode),
     });
     sim.depositId = options.depositId as `0x${string}` | undefined;
     this.lastInputTickBySession.set(client.sessionId, this.tickCount);
+    this.runsBySession.set(client.sessionId, {
+      wallet,
+      depositId: sim.depositId,
+      buyInWei,
+      displayName,
+      startedAt: Date.now(),
+      spawnMass,
+      peakMass: spawnMass,
+      kills: 0,
+      damageDealt: 0,
+      partyCode,
+    });
 
+    this.snapshotDue = true;
     console.log(`Player ${client.sessionId} spawned with mass ${spawnMass}`);
     this.sendInit(client);
   }
 
+  /**
+   * Team of a live party member, so the joining player lands on it (the engine balances otherwise)
+   */
+  private partyTeam(partyCode: string | undefined): number | undefined {
+    if (!partyCode || !this.engine.mode.teamCount) return undefined;
+    for (const [sessionId, run] of this.runsBySession) {
+      if (run.partyCode !== partyCode) continue;
+      const team = this.engine.getPlayer(sessionId)?.team;
+      if (team !== undefined) return team;
+    }
+    return undefined;
+  }
+
   /**
    * Find a player by wallet address
    */
@@ -287,6 +518,14 @@ export class GameRoom extends Room<GameState> {
    * If not consented (disconnect), keep entity alive for reconnect window.
    */
   async onLeave(client: Client, consented: boolean) {
+    // Encoding state is per connection; a reconnect negotiates again under its new session
+    this.forgetDeltaState(client.sessionId);
+
+    if (this.spectatorsBySession.delete(client.sessionId)) {
+      this.prevVisibleIdsBySession.delete(client.sessionId);
+      return;
+    }
+
     const sim = this.engine.getPlayer(client.sessionId);
     if (!sim) {
       console.log(`Client ${client.sessionId} left but no sim found`);
@@ -294,7 +533,9 @@ export class GameRoom extends Room<GameState> {
     }
 
     if (consented) {
+      this.recordRun(client.sessionId, "left", this.engine.getPlayerTotalMass(client.sessionId), 0n);
       this.removePlayer(client.sessionId);
+      this.snapshotDue = true;
       console.log(`Client ${client.sessionId} left intentionally, removed`);
       return;
     }
@@ -309,17 +550,74 @@ export class GameRoom extends Room<GameState> {
    */
   private removePlayer(sessionId: string) {
     this.engine.removePlayer(sessionId);
+    this.bots.remove(sessionId);
     this.prevVisibleIdsBySession.delete(sessionId);
     this.lastInputTickBySession.delete(sessionId);
+    this.runsBySession.delete(sessionId);
+    this.forgetDeltaState(sessionId);
+  }
+
+  private forgetDeltaState(sessionId: string) {
+    this.protocolVersionBySession.delete(sessionId);
+    this.deltaStringsBySession.delete(sessionId);
+    this.sentNodesBySession.delete(sessionId);
+    this.nextKeyframeTickBySession.delete(sessionId);
+    this.lastClientTickBySession.delete(sessionId);
+    this.minimapObstaclesSent.delete(sessionId);
+  }
+
+  /**
+   * Pick the protocol version for a connection. Only the current protocol (binary field-patch
+   * deltas) and the legacy JSON one are served; anything older than current falls back to legacy.
+   */
+  private negotiateProtocol(client: Client, requested: unknown) {
+    const current = typeof requested === "number" && requested >= PROTOCOL_VERSION;
+    this.forgetDeltaState(client.sessionId);
+    this.protocolVersionBySession.set(client.sessionId, current ? PROTOCOL_VERSION : MIN_PROTOCOL_VERSION);
+    if (current) {
+      this.deltaStringsBySession.set(client.sessionId, new StringInterner());
+      this.sentNodesBySession.set(client.sessionId, new Map());
+    }
   }
 
   /**
    * Called when the room is disposed
    */
   async onDispose() {
+    // Cash out anyone still in the world (nobody after a drain) so their mass doesn't strand in server:world
+    await this.cashOutAll();
+    await this.worldFlows.close();
+    // Nothing left to resume (a crash never gets here, so its snapshot survives)
+    await clearRoomSnapshot(this.roomId).catch((error) => {
+      console.error(`[GameRoom] Failed to clear snapshot for room ${this.roomId}:`, error);
+    });
+    await this.persistReplay();
     console.log(`GameRoom disposed for server ${config.serverId}`);
   }
 
+  /**
+   * Write what was recorded since the last flush to REPLAY_DIR as the next segment, so the recorder
+   * never holds more than one flush interval (no-op when recording is disabled).
+   */
+  private async persistReplay() {
+    if (!this.replay || !config.replayDir) return;
+    this.unsavedReplaySegments.push(this.replay.flush(this.engine));
+    // A write in progress picks this segment up when it's done
+    if (this.replayFlushInFlight) return;
+    this.replayFlushInFlight = true;
+    try {
+      for (let segment = this.unsavedReplaySegments[0]; segment; segment = this.unsavedReplaySegments[0]) {
+        const file = await saveReplaySegment(config.replayDir, this.roomId, segment);
+        this.unsavedReplaySegments.shift();
+        console.log(`[GameRoom] Replay segment saved to ${file} (tick ${segment.endTick})`);
+      }
+    } catch (error) {
+      console.error(`[GameRoom] Failed to persist replay for room ${this.roomId}:`, error);
+    } finally {
+      this.replayFlushInFlight = false;
+    }
+  }
+
   /**
    * Handle input messages from clients
    */
@@ -346,6 +644,126 @@ export class GameRoom extends Room<GameState> {
     });
 
     this.lastInputTickBySession.set(client.sessionId, this.tickCount);
+
+    const clientTick = Number(message.clientTick);
+    if (Number.isSafeInteger(clientTick) && clientTick >= 0) {
+      this.lastClientTickBySession.set(client.sessionId, clientTick);
+    }
+  }
+
+  /**
+   * Point a spectator's view at a player (while they are alive) or at a free camera position.
+   */
+  private handleSpectate(client: Client, message: SpectateMessage) {
+    const view = this.spectatorsBySession.get(client.sessionId);
+    if (!view) return;
+
+    const followSessionId = typeof message.followSessionId === "string" ? message.followSessionId : null;
+    const target = followSessionId ? this.engine.getPlayer(followSessionId) : undefined;
+    if (target?.alive) {
+      view.followSessionId = target.sessionId;
+      view.x = target.x;
+      view.y = target.y;
+      return;
+    }
+
+    view.followSessionId = null;
+    const x = Number(message.x);
+    const y = Number(message.y);
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+      const maxR = SIM_CONFIG.border.worldRadiusMax;
+      view.x = Math.max(-maxR, Math.min(maxR, x));
+      view.y = Math.max(-maxR, Math.min(maxR, y));
+    }
+  }
+
+  /**
+   * Where a connection's view is centred: its own player, or the spectator's followed player /
+   * free camera. Followed players that died or left drop the spectator back to the free camera.
+   */
+  private resolveViewFocus(sessionId: string): ViewFocus | null {
+    const view = this.spectatorsBySession.get(sessionId);
+    if (!view) {
+      const sim = this.engine.getPlayer(sessionId);
+      return sim && sim.alive ? { x: sim.x, y: sim.y, radius: sim.radius, ownedIds: [sim.id] } : null;
+    }
+
+    const target = view.followSessionId ? this.engine.getPlayer(view.followSessionId) : undefined;
+    if (target?.alive) {
+      view.x = target.x;
+      view.y = target.y;
+      return {
+        x: target.x,
+        y: target.y,
+        radius: target.radius,
+        ownedIds: [],
+        spectator: { x: target.x, y: target.y, followId: target.id },
+      };
+    }
+    view.followSessionId = null;
+    return {
+      x: view.x,
+      y: view.y,
+      radius: SIM_CONFIG.radiusAtSpawn,
+      ownedIds: [],
+      spectator: { x: view.x, y: view.y },
+    };
+  }
+
+  /**
+   * Buy-in a spawn pays for match history: the deposit's amount when the join names this wallet's
+   * deposit on this server, else the room's buy-in.
+   */
+  private async runBuyInWei(wallet: `0x${string}`, depositId: `0x${string}` | undefined): Promise<string> {
+    const deposit = depositId ? await getDeposit(depositId) : null;
+    if (
+      deposit &&
+      deposit.player.toLowerCase() === wallet.toLowerCase() &&
+      serverIdToBytes32(deposit.serverId).toLowerCase() === serverIdToBytes32(config.serverId).toLowerCase()
+    ) {
+      return deposit.amount.toString();
+    }
+    return this.buyInAmount;
+  }
+
+  /**
+   * Write a finished run to match history and stop tracking it (no-op for bots).
+   * Exits pass their ticket sessionId; other outcomes get a fresh one from generateSessionId.
+   */
+  private recordRun(
+    sessionId: string,
+    outcome: RunOutcome,
+    finalMass: number,
+    payoutWei: bigint,
+    runSessionId?: `0x${string}`,
+  ) {
+    const run = this.runsBySession.get(sessionId);
+    if (!run) return;
+    this.runsBySession.delete(sessionId);
+
+    const buyInWei = BigInt(run.buyInWei ?? this.buyInAmount ?? "0");
+    const summary: MatchSummary = {
+      sessionId: runSessionId ?? generateSessionId(run.wallet, ++this.sessionNonce),
+      depositId: run.depositId,
+      serverId,
+      roomId: this.roomId,
+      wallet: run.wallet,
+      displayName: run.displayName,
+      outcome,
+      startedAt: run.startedAt,
+      endedAt: Date.now(),
+      spawnMass: run.spawnMass,
+      peakMass: Math.max(run.peakMass, finalMass),
+      finalMass,
+      kills: run.kills,
+      damageDealt: run.damageDealt,
+      buyInWei: buyInWei.toString(),
+      payoutWei: payoutWei.toString(),
+      pnlWei: (payoutWei - buyInWei).toString(),
+    };
+    matchHistory.record(summary).catch((error) => {
+      console.error(`[GameRoom] Failed to record match history for ${sessionId}:`, error);
+    });
   }
 
   /**
@@ -364,39 +782,18 @@ export class GameRoom extends Room<GameState> {
     try {
       const userData = client.userData as PlayerUserData;
       const exitAttemptId = sim.exitAttemptId || ++this.sessionNonce;
-      const ticketSessionId = generateSessionId(userData.wallet, exitAttemptId);
-
       const totalMass = this.engine.getPlayerTotalMass(client.sessionId);
-      const payoutWei = massToPayoutAmount(totalMass, this.massPerEth);
-
-      // withdraw() atomically moves funds and signs the ticket
-      const ticket = await ledger.withdraw(
-        serverId,
-        userData.wallet,
-        payoutWei,
-        ticketSessionId,
-        signingConfig,
-        `exit:${client.sessionId}:${exitAttemptId}`
-      );
 
-      if (!ticket) {
+      const exit = await this.withdrawPayout(client.sessionId, userData.wallet, totalMass, exitAttemptId);
+      if (!exit) {
         client.send("exitError", { message: "Server temporarily out of funds, please try again." });
         return;
       }
 
-      // Serialize and send the ticket
-      const serializedTicket: SerializedExitTicket = {
-        serverId: ticket.serverId,
-        sessionId: ticket.sessionId,
-        player: ticket.player,
-        payout: ticket.payout.toString(),
-        deadline: ticket.deadline.toString(),
-        signature: ticket.signature,
-      };
-
-      client.send("exitTicket", serializedTicket);
-      console.log(`Player ${client.sessionId} exited with payout ${payoutWei.toString()}`);
+      client.send("exitTicket", exit.ticket);
+      console.log(`Player ${client.sessionId} exited with payout ${exit.payoutWei.toString()}`);
 
+      this.recordRun(client.sessionId, "exited", totalMass, exit.payoutWei, exit.ticketSessionId);
       this.removePlayer(client.sessionId);
     } catch (error) {
       console.error(`[GameRoom] completeExit failed for ${client.sessionId}:`, error);
@@ -404,11 +801,226 @@ export class GameRoom extends Room<GameState> {
     }
   }
 
+  /**
+   * Pay a player's mass out of server:world and sign their exit ticket.
+   *
+   * Uses accounts.withdraw(), which atomically moves the payout to user:pending:exit:<wallet> and
+   * keeps the ticket until it is claimed. Returns null if server:world can't cover the payout.
+   */
+  private async withdrawPayout(sessionId: string, wallet: `0x${string}`, totalMass: number, exitAttemptId: number) {
+    const ticketSessionId = generateSessionId(wallet, exitAttemptId);
+    const payoutWei = massToPayoutAmount(totalMass, this.massPerEth);
+
+    // A snapshot taken after this point must not bring the player back (see roomSnapshots.ts)
+    this.pendingPayouts.set(sessionId, { sessionId, wallet, totalMass, exitAttemptId });
+    await this.persistSnapshot();
+
+    // Pellets the player ate must be in server:world before it pays out
+    await this.worldFlows.settle();
+
+    // On an error the outcome is unknown, so the payout stays pending for a restore to retry
+    const ticket = await ledger.withdraw(
+      serverId,
+      wallet,
+      payoutWei,
+      ticketSessionId,
+      signingConfig,
+      `exit:${sessionId}:${exitAttemptId}`
+    );
+    this.pendingPayouts.delete(sessionId);
+    this.snapshotDue = true;
+    if (!ticket) return null;
+
+    const serializedTicket: SerializedExitTicket = {
+      serverId: ticket.serverId,
+      sessionId: ticket.sessionId,
+      player: ticket.player,
+      payout: ticket.payout.toString(),
+      deadline: ticket.deadline.toString(),
+      signature: ticket.signature,
+    };
+    return { ticket: serializedTicket, payoutWei, ticketSessionId };
+  }
+
+  /**
+   * Resume the world a crashed or restarted room stored, returning the snapshot (null when starting
+   * fresh). Restored players count as disconnected from now on, so they get the usual reconnect
+   * grace to come back (found by wallet on join).
+   */
+  private async restoreFromSnapshot(): Promise<RoomSnapshot<RunStats> | null> {
+    if (config.snapshotIntervalTicks <= 0) return null;
+    try {
+      const snapshot = await claimOrphanedSnapshot<RunStats>(this.roomId);
+      if (!snapshot) return null;
+
+      this.engine.restoreSnapshot(snapshot.engine);
+      this.tickCount = snapshot.tickCount;
+      for (const [sessionId, run] of snapshot.runs) this.runsBySession.set(sessionId, run);
+      for (const payout of snapshot.pendingPayouts) this.pendingPayouts.set(payout.sessionId, payout);
+
+      const difficulty = isBotDifficulty(config.botDifficulty) ? config.botDifficulty : "normal";
+      for (const p of this.engine.players.values()) {
+        if (!p.alive) continue;
+        if (p.isBot) {
+          this.bots.add(p.sessionId, difficulty);
+          continue;
+        }
+        this.engine.setInput(p.sessionId, { w: false, a: false, s: false, d: false, shoot: false, dash: false, exit: false });
+        this.engine.markDisconnected(p.sessionId, this.engine.world.tick);
+      }
+
+      console.log(
+        `[GameRoom] Restored room ${snapshot.roomId} from snapshot (tick ${snapshot.tickCount}, ` +
+          `${this.engine.players.size} players, ${snapshot.pendingPayouts.length} pending payouts, ` +
+          `${Date.now() - snapshot.savedAt}ms old)`,
+      );
+      return snapshot;
+    } catch (error) {
+      console.error("[GameRoom] Failed to restore room snapshot, starting a fresh world:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Pellets and recycling the crashed room settled (or left for recovery) after its snapshot are in
+   * the ledger but not in the restored world; reverse them so pellets eaten since aren't paid twice.
+   */
+  private async revertFlowsAfterSnapshot(snapshot: RoomSnapshot<RunStats>) {
+    if (snapshot.flowsRecordedWei === undefined) return;
+    try {
+      const after = await recordedSince(snapshot.roomId, BigInt(snapshot.flowsRecordedWei));
+      if (after === 0n) return;
+      console.log(`[GameRoom] Reverting ${after.toString()} wei of world flows recorded after the snapshot of ${snapshot.roomId}`);
+      this.worldFlows.revertFlows(after);
+    } catch (error) {
+      console.error("[GameRoom] Failed to reconcile world flows with the restored snapshot:", error);
+    }
+  }
+
+  /**
+   * Store the world for crash recovery. Players with a payout in progress are left out: they
+   * are restored as pending payouts instead.
+   */
+  private async persistSnapshot() {
+    if (config.snapshotIntervalTicks <= 0) return;
+    this.snapshotDue = false;
+    const engine = this.engine.toSnapshot();
+    engine.players = engine.players.filter((p) => !this.pendingPayouts.has(p.sessionId));
+    try {
+      await saveRoomSnapshot({
+        roomId: this.roomId,
+        savedAt: Date.now(),
+        tickCount: this.tickCount,
+        engine,
+        runs: [...this.runsBySession],
+        pendingPayouts: [...this.pendingPayouts.values()],
+        flowsRecordedWei: this.worldFlows.recordedWei.toString(),
+      });
+    } catch (error) {
+      console.error(`[GameRoom] Failed to persist snapshot for room ${this.roomId}:`, error);
+    }
+  }
+
+  /**
+   * Finish exits a crashed room had started. The withdraw idempotency key is the same, so a
+   * payout that did go through returns its original ticket; the player picks it up from
+   * /sessions/pending-exits.
+   */
+  private async retryPendingPayouts() {
+    for (const payout of [...this.pendingPayouts.values()]) {
+      try {
+        const exit = await this.withdrawPayout(payout.sessionId, payout.wallet, payout.totalMass, payout.exitAttemptId);
+        if (!exit) {
+          console.error(`[GameRoom] Recovered payout for ${payout.wallet} failed: server:world can't cover it`);
+          continue;
+        }
+        console.log(`[GameRoom] Recovered payout ${exit.payoutWei.toString()} for ${payout.wallet}`);
+        this.recordRun(payout.sessionId, "exited", payout.totalMass, exit.payoutWei, exit.ticketSessionId);
+      } catch (error) {
+        console.error(`[GameRoom] Recovered payout for ${payout.wallet} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Graceful shutdown: Colyseus locks the room and calls this on SIGTERM instead of dropping
+   * connections right away. Drain so live players are cashed out rather than stranded in server:world.
+   */
+  onBeforeShutdown() {
+    this.startDrain();
+  }
+
+  /**
+   * Drain the room: refuse new spawns, count down (`serverDraining` every second), then cash every
+   * live player out at their current mass and disconnect everyone, which disposes the room.
+   */
+  startDrain(countdownMs: number = config.drainCountdownMs) {
+    if (this.drainEndsAt !== null) return;
+    this.drainEndsAt = Date.now() + countdownMs;
+    void this.lock();
+    this.broadcastDrainNotice();
+    this.refreshMetadata();
+    console.log(`[GameRoom] Draining room ${this.roomId}: cashing out all players in ${countdownMs}ms`);
+
+    this.clock.setTimeout(() => {
+      void this.cashOutAll()
+        .catch((error) => console.error(`[GameRoom] Drain cash-out failed for room ${this.roomId}:`, error))
+        .finally(() => this.disconnect());
+    }, countdownMs);
+  }
+
+  private broadcastDrainNotice() {
+    if (this.drainEndsAt === null) return;
+    const notice: DrainNoticeDto = { secondsLeft: Math.max(0, Math.ceil((this.drainEndsAt - Date.now()) / 1000)) };
+    this.broadcast("serverDraining", notice);
+  }
+
+  /**
+   * Cash out every live player (tickets) and bot (house account). Each one leaves the world before
+   * the first ledger call, so masses are final even though the simulation keeps running.
+   */
+  private async cashOutAll() {
+    const sessionIds = [...this.engine.players.values()].filter((p) => p.alive).map((p) => p.sessionId);
+    await Promise.all(
+      sessionIds.map((sessionId) => (this.bots.has(sessionId) ? this.completeBotExit(sessionId) : this.forceExit(sessionId))),
+    );
+  }
+
+  /**
+   * Exit a player without the hold (room drain). Connected players get the ticket right away;
+   * disconnected ones still inside their reconnect grace recover it from /sessions/pending-exits,
+   * where the ledger keeps it until it is claimed.
+   */
+  private async forceExit(sessionId: string) {
+    const sim = this.engine.getPlayer(sessionId);
+    if (!sim || !sim.alive) return;
+    const totalMass = this.engine.getPlayerTotalMass(sessionId);
+    const exitAttemptId = ++this.sessionNonce;
+    this.engine.removePlayer(sessionId);
+    const client = this.clients.find((c) => c.sessionId === sessionId);
+
+    try {
+      const exit = await this.withdrawPayout(sessionId, sim.wallet, totalMass, exitAttemptId);
+      if (!exit) {
+        console.error(`[GameRoom] Drain: server:world can't cover ${sessionId}'s payout (mass ${totalMass})`);
+        client?.send("exitError", { message: "Server out of funds while shutting down." });
+        return;
+      }
+      client?.send("exitTicket", exit.ticket);
+      console.log(`Player ${sessionId} cashed out by drain with payout ${exit.payoutWei.toString()}`);
+      this.recordRun(sessionId, "exited", totalMass, exit.payoutWei, exit.ticketSessionId);
+    } catch (error) {
+      console.error(`[GameRoom] Drain cash-out failed for ${sessionId}:`, error);
+    } finally {
+      this.removePlayer(sessionId);
+    }
+  }
+
   /**
    * Game loop update (fixed 50ms ticks).
    *
    * - Runs authoritative simulation
-   * - Applies economic recycling to pelletReserveWei
+   * - Buffers economic recycling and pellet spawns (settled once per second)
    * - Sends per-client visibility deltas
    */
   private update(_deltaTime: number) {
@@ -420,87 +1032,234 @@ export class GameRoom extends Room<GameState> {
       }
     }
 
+    // Bots decide on the same world state clients see, then step with everyone else
+    this.bots.update(this.engine);
+
     const result = this.engine.step();
 
     let recycledMass = 0;
     let pelletMass = 0;
     const pelletIds: number[] = [];
+    const bounties: Extract<EngineEvent, { type: "bountyFunded" }>[] = [];
+    const worldEvents: WorldEventDto[] = [];
 
     for (const e of result.events) {
+      if (isWorldEvent(e)) worldEvents.push(e);
       if (e.type === "recycleMass") {
         recycledMass += e.mass;
       } else if (e.type === "pelletSpawned") {
         pelletMass += e.mass;
         pelletIds.push(e.id);
+      } else if (e.type === "bountyFunded") {
+        bounties.push(e);
       } else if (e.type === "playerExited") {
-        void this.completeExit(e.sessionId);
+        if (this.bots.has(e.sessionId)) {
+          void this.completeBotExit(e.sessionId);
+        } else {
+          void this.completeExit(e.sessionId);
+        }
+      } else if (e.type === "kill") {
+        this.broadcastKill(e);
+        const killer = e.killerSessionId ? this.runsBySession.get(e.killerSessionId) : undefined;
+        if (killer) killer.kills += 1;
+      } else if (e.type === "bulletHit") {
+        const attacker = e.attackerSessionId ? this.runsBySession.get(e.attackerSessionId) : undefined;
+        if (attacker) attacker.damageDealt += e.damage;
       } else if (e.type === "playerDied") {
+        this.recordRun(e.sessionId, "died", 0, 0n);
         this.removePlayer(e.sessionId);
+        this.snapshotDue = true;
       }
     }
 
+    for (const [sessionId, run] of this.runsBySession) {
+      run.peakMass = Math.max(run.peakMass, this.engine.getPlayerTotalMass(sessionId));
+    }
+
     if (recycledMass > 0) {
-      const wei = massToPayoutAmount(recycledMass, this.massPerEth);
-      void ledger.transfer(serverId, "server:world", "server:budget", wei, `recycle:${this.roomId}:${this.tickCount}`);
+      this.worldFlows.recordRecycle(massToPayoutAmount(recycledMass, this.massPerEth));
+    }
+
+    if (bounties.length > 0) {
+      this.fundBounties(bounties);
     }
 
     if (pelletMass > 0) {
-      void this.handlePelletTransfers(pelletMass, pelletIds);
+      this.fundPellets(pelletMass, pelletIds);
     }
 
-    // Visibility deltas
+    // Visibility deltas + nearby combat events
     for (const client of this.clients) {
       this.sendVisibilityDelta(client);
+      if (worldEvents.length > 0) this.sendWorldEvents(client, worldEvents);
     }
 
-    // Refresh balances + metadata once per second
+    // Settle world flows, then refresh balances + metadata once per second
     if (this.tickCount % 20 === 0) {
-      void this.refreshBalancesAndMetadata();
+      this.broadcastDrainNotice();
+      this.sendLeaderboard();
+      void this.worldFlows.settle().then(() => this.refreshBalancesAndMetadata());
+      void this.maintainBots();
+      this.disposeIfIdle();
+    }
+
+    if (this.tickCount % MINIMAP_INTERVAL_TICKS === 0) {
+      this.sendMinimap();
+    }
+
+    if (this.tickCount % WORLD_FLOW_RECOVERY_INTERVAL_TICKS === 0) {
+      void this.recoverOrphanedWorldFlows();
+    }
+
+    if (this.tickCount % REPLAY_FLUSH_INTERVAL_TICKS === 0) {
+      void this.persistReplay();
+    }
+
+    if (this.snapshotDue || (config.snapshotIntervalTicks > 0 && this.tickCount % config.snapshotIntervalTicks === 0)) {
+      void this.persistSnapshot();
     }
   }
 
-  private async handlePelletTransfers(totalMass: number, pelletIds: number[]) {
-    const costWei = massToPayoutAmount(totalMass, this.massPerEth);
-    const ok = await ledger.transfer(serverId, "server:budget", "server:world", costWei, `pellet:${this.roomId}:${this.tickCount}`);
+  /**
+   * Settle buffers of crashed rooms whose lease has expired. Runs at create and then periodically,
+   * since a crashed room restarted within its lease is only claimable later.
+   */
+  private async recoverOrphanedWorldFlows() {
+    try {
+      await recoverWorldFlows(this.roomId);
+    } catch (error) {
+      console.error("[GameRoom] World flow recovery failed:", error);
+    }
+  }
+
+  /**
+   * Close a shard room nobody has been in for SHARD_IDLE_DISPOSE_MS. Bots left in it (a restored
+   * world) are cashed out on dispose.
+   */
+  private disposeIfIdle() {
+    if (!this.shard || this.locked || this.drainEndsAt !== null) return;
+    const humans = [...this.engine.players.values()].some((p) => p.alive && !p.isBot);
+    if (this.clients.length > 0 || humans || this.pendingPayouts.size > 0) {
+      this.idleSince = null;
+      return;
+    }
+    this.idleSince ??= Date.now();
+    if (Date.now() - this.idleSince < SHARD_IDLE_DISPOSE_MS) return;
+
+    console.log(`[GameRoom] Shard ${this.roomId} idle, disposing`);
+    void this.lock();
+    void this.disconnect();
+  }
+
+  /**
+   * Top up the bot population to BOT_COUNT (one spawn per call).
+   *
+   * Bots skip the user:pending:spawn deposit flow entirely: their spawn cost is
+   * moved from the house account into server:world, so the world stays fully backed.
+   */
+  private async maintainBots() {
+    const difficulty = isBotDifficulty(config.botDifficulty) ? config.botDifficulty : "normal";
+    if (
+      this.shard ||
+      this.botSpawnInFlight ||
+      this.bots.size >= config.botCount ||
+      spawnsPaused() ||
+      this.drainEndsAt !== null
+    ) {
+      return;
+    }
+    const spawnCostWei = this.spawnCostWei;
+    if (spawnCostWei <= 0n) return;
+
+    this.botSpawnInFlight = true;
+    try {
+      const n = this.botNonce + 1;
+      const sessionId = `bot:${this.roomId}:${n}`;
+      const ok = await ledger.transfer(serverId, BOT_HOUSE_ACCOUNT, "server:world", spawnCostWei, `bot:spawn:${sessionId}`);
+      if (!ok) {
+        // Only log the first failure per streak to avoid spamming every second
+        if (!this.botFundingWarned) {
+          console.warn(`[GameRoom] Bot spawn skipped: ${BOT_HOUSE_ACCOUNT} has insufficient funds`);
+          this.botFundingWarned = true;
+        }
+        return;
+      }
+      this.botNonce = n;
+      this.botFundingWarned = false;
+
+      const spawnMass = payoutAmountToMass(spawnCostWei, this.massPerEth);
+      this.engine.addPlayer({
+        sessionId,
+        wallet: BOT_WALLET,
+        displayName: `Bot ${n}`,
+        spawnMass,
+        isBot: true,
+      });
+      this.bots.add(sessionId, difficulty);
+      this.snapshotDue = true;
+      console.log(`[GameRoom] Bot ${sessionId} spawned (${difficulty}) with mass ${spawnMass}`);
+    } catch (error) {
+      console.error("[GameRoom] Bot spawn failed:", error);
+    } finally {
+      this.botSpawnInFlight = false;
+    }
+  }
+
+  /**
+   * Cash a bot out back into the house account (no exit ticket is signed).
+   */
+  private async completeBotExit(sessionId: string) {
+    const payoutWei = massToPayoutAmount(this.engine.getPlayerTotalMass(sessionId), this.massPerEth);
+    this.removePlayer(sessionId);
+    if (payoutWei <= 0n) return;
+
+    await this.worldFlows.settle();
+    const ok = await ledger.transfer(serverId, "server:world", BOT_HOUSE_ACCOUNT, payoutWei, `bot:exit:${sessionId}`);
     if (!ok) {
+      console.warn(`[GameRoom] Bot ${sessionId} exit transfer failed (payout ${payoutWei.toString()})`);
+    }
+  }
+
+  /**
+   * Pay for this tick's pellets out of the budget, counting flows not settled yet;
+   * pellets the budget can't cover are removed again.
+   */
+  private fundPellets(totalMass: number, pelletIds: number[]) {
+    const costWei = massToPayoutAmount(totalMass, this.massPerEth);
+    if (this.cachedPelletReserveWei + this.worldFlows.pendingWei < costWei) {
       for (const id of pelletIds) {
-        this.engine.pickups.delete(id);
+        this.engine.removePickup(id);
       }
+      return;
     }
+    this.worldFlows.recordPellets(costWei);
   }
 
-  private buildViewBox(sim: PlayerState) {
-    const cx = sim.x;
-    const cy = sim.y;
-    const sizeFactor = Math.min(1.4, Math.max(0.6, SIM_CONFIG.radiusAtSpawn / Math.max(1, sim.radius)));
-    const radius = Math.max(
-      SIM_CONFIG.viewMinRadius,
-      Math.min(SIM_CONFIG.viewMaxRadius, SIM_CONFIG.viewBaseRadius * sizeFactor),
-    );
-
-    return {
-      centerX: cx,
-      centerY: cy,
-      topY: cy - radius,
-      bottomY: cy + radius,
-      leftX: cx - radius,
-      rightX: cx + radius,
-    };
+  // Bounty growth comes out of the same budget as pellets; if it can't be covered, take it back
+  private fundBounties(bounties: Extract<EngineEvent, { type: "bountyFunded" }>[]) {
+    const totalMass = bounties.reduce((sum, e) => sum + e.mass, 0);
+    const costWei = massToPayoutAmount(totalMass, this.massPerEth);
+    if (this.cachedPelletReserveWei + this.worldFlows.pendingWei < costWei) {
+      for (const e of bounties) {
+        this.engine.revokeBounty(e.sessionId, e.mass);
+      }
+      return;
+    }
+    this.worldFlows.recordPellets(costWei);
   }
 
   private sendVisibilityDelta(client: Client) {
-    const sim = this.engine.getPlayer(client.sessionId);
-    if (!sim || !sim.alive) {
+    const focus = this.resolveViewFocus(client.sessionId);
+    if (!focus) {
       const prev = this.prevVisibleIdsBySession.get(client.sessionId);
       if (prev && prev.size > 0) {
-        client.send("world:delta", { tick: this.tickCount, nodes: [], removedIds: [...prev], ownedIds: [] });
+        this.sendDelta(client, { tick: this.tickCount, nodes: [], removedIds: [...prev], ownedIds: [] });
       }
       this.prevVisibleIdsBySession.set(client.sessionId, new Set());
       return;
     }
 
-    const box = this.buildViewBox(sim);
-    if (!box) return;
+    const box = buildViewBox(focus);
 
     const nowVisible = new Set<number>();
     const candidates: WorldNode[] = [];
@@ -522,8 +1281,8 @@ export class GameRoom extends Room<GameState> {
       if (node.x > box.rightX + margin) continue;
       if (node.x < box.leftX - margin) continue;
       if ((node.kind === "pellet" || node.kind === "spill") && node.mass < minPickupMass) {
-        const dx = node.x - sim.x;
-        const dy = node.y - sim.y;
+        const dx = node.x - focus.x;
+        const dy = node.y - focus.y;
         if (dx * dx + dy * dy > pickupInterestRadiusSq) continue;
       }
       candidates.push(node);
@@ -545,8 +1304,8 @@ export class GameRoom extends Room<GameState> {
 
       for (const node of candidates) {
         if (node.kind === "pellet" || node.kind === "spill") {
-          const dx = node.x - sim.x;
-          const dy = node.y - sim.y;
+          const dx = node.x - focus.x;
+          const dy = node.y - focus.y;
           if (dx * dx + dy * dy > pickupInterestRadiusSq) {
             const cx = Math.floor(node.x / cellSize);
             const cy = Math.floor(node.y / cellSize);
@@ -608,7 +1367,7 @@ export class GameRoom extends Room<GameState> {
     const dtos: NodeDto[] = [...clusterDtos];
     for (const node of candidates) {
       nowVisible.add(node.id);
-      dtos.push(this.nodeToDto(node));
+      dtos.push(nodeToDto(node));
     }
 
     const prev = this.prevVisibleIdsBySession.get(client.sessionId) ?? new Set<number>();
@@ -623,7 +1382,9 @@ export class GameRoom extends Room<GameState> {
       tick: this.tickCount,
       nodes: dtos,
       removedIds,
-      ownedIds: [sim.id],
+      ownedIds: focus.ownedIds,
+      ackClientTick: this.lastClientTickBySession.get(client.sessionId),
+      spectator: focus.spectator,
       // Dynamic border state (POC parity)
       border: {
         radius: this.engine.world.borderRadius,
@@ -632,65 +1393,131 @@ export class GameRoom extends Room<GameState> {
       },
     };
 
-    client.send("world:delta", payload);
+    this.sendDelta(client, payload);
   }
 
-  private nodeToDto(node: WorldNode): NodeDto {
-    if (node.kind === "player") {
-      return {
-        kind: "player",
-        id: node.id,
-        ownerSessionId: node.ownerSessionId,
-        displayName: node.displayName,
-        x: node.x,
-        y: node.y,
-        radius: node.radius,
-        mass: node.mass,
-        spawnMass: node.spawnMass,
-        color: node.color,
-        flags: node.flags,
-        exitProgress: node.exitProgress,
-        vx: node.vx,
-        vy: node.vy,
-        aimX: node.aimX,
-        aimY: node.aimY,
-        dashChargeRatio: node.dashChargeRatio,
-        shootChargeRatio: node.shootChargeRatio,
-        dashCooldownTicks: node.dashCooldownTicks,
-        dashActiveTicks: node.dashActiveTicks,
-        stunTicks: node.stunTicks,
-        slowTicks: node.slowTicks,
-        shootRecoveryTicks: node.shootRecoveryTicks,
-        exitCombatTagTicks: node.exitCombatTagTicks,
-        hitFlashTicks: node.hitFlashTicks,
-      };
+  /**
+   * Send a world:delta in the client's negotiated encoding.
+   * `payload.nodes` is the full visible set; for field-patch clients it's reduced here to
+   * new nodes + patches of changed ones, except on keyframes.
+   */
+  private sendDelta(client: Client, payload: WorldDeltaDto) {
+    const sent = this.sentNodesBySession.get(client.sessionId);
+    if (sent) {
+      for (const id of payload.removedIds) sent.delete(id);
+      const keyframeAt = this.nextKeyframeTickBySession.get(client.sessionId) ?? 0;
+      if (this.tickCount >= keyframeAt && payload.nodes.length > 0) {
+        this.nextKeyframeTickBySession.set(client.sessionId, this.tickCount + DELTA_KEYFRAME_INTERVAL_TICKS);
+        sent.clear();
+        for (const node of payload.nodes) sent.set(node.id, node);
+        payload.keyframe = true;
+      } else {
+        const fresh: NodeDto[] = [];
+        const patches: NodePatchDto[] = [];
+        for (const node of payload.nodes) {
+          const prev = sent.get(node.id);
+          sent.set(node.id, node);
+          if (!prev || prev.kind !== node.kind) {
+            fresh.push(node);
+            continue;
+          }
+          const patch = diffNode(prev, node);
+          if (patch) patches.push(patch);
+        }
+        payload.nodes = fresh;
+        payload.patches = patches;
+      }
     }
-    if (node.kind === "bullet") {
-      return { kind: "bullet", id: node.id, x: node.x, y: node.y, radius: node.radius, flags: node.flags };
+
+    const strings = this.deltaStringsBySession.get(client.sessionId);
+    if (strings) {
+      client.sendBytes("world:delta", encodeWorldDelta(payload, strings));
+    } else {
+      client.send("world:delta", payload);
     }
-    if (node.kind === "pellet") {
-      return { kind: "pellet", id: node.id, x: node.x, y: node.y, radius: node.radius, mass: node.mass, flags: node.flags };
+  }
+
+  /**
+   * Send every client the room-wide ranking by total mass, plus their own rank.
+   */
+  private sendLeaderboard() {
+    if (this.clients.length === 0) return;
+    const ranking = rankPlayers(this.engine, (mass) => massToPayoutAmount(mass, this.massPerEth).toString());
+    for (const client of this.clients) {
+      const sessionId = this.spectatorsBySession.has(client.sessionId) ? null : client.sessionId;
+      client.send("leaderboard", buildLeaderboard(ranking, sessionId, this.tickCount));
     }
-    if (node.kind === "spill") {
-      return {
-        kind: "spill",
-        id: node.id,
-        x: node.x,
-        y: node.y,
-        radius: node.radius,
-        mass: node.mass,
-        attackerSessionId: node.attackerSessionId,
-        victimSessionId: node.victimSessionId,
-        unlockTick: node.unlockTick,
-        flags: node.flags,
-      };
+  }
+
+  /**
+   * Send every client the minimap; the obstacle layout goes only to connections that don't have it yet.
+   */
+  private sendMinimap() {
+    if (this.clients.length === 0) return;
+    const minimap = buildMinimap(this.engine, this.tickCount, false);
+    let withObstacles: MinimapDto | null = null;
+    for (const client of this.clients) {
+      if (this.minimapObstaclesSent.has(client.sessionId)) {
+        client.send("world:minimap", minimap);
+        continue;
+      }
+      withObstacles ??= buildMinimap(this.engine, this.tickCount, true);
+      client.send("world:minimap", withObstacles);
+      this.minimapObstaclesSent.add(client.sessionId);
     }
-    return { kind: "obstacle", id: node.id, x: node.x, y: node.y, radius: node.radius, flags: node.flags };
+  }
+
+  /**
+   * Broadcast a room-wide kill feed entry.
+   */
+  private broadcastKill(e: Extract<EngineEvent, { type: "kill" }>) {
+    const valueWei = massToPayoutAmount(e.mass, this.massPerEth);
+    const payload: KillFeedDto = {
+      tick: this.tickCount,
+      victimSessionId: e.victimSessionId,
+      victimName: e.victimDisplayName,
+      killerSessionId: e.killerSessionId,
+      killerName: e.killerDisplayName,
+      cause: e.cause,
+      mass: e.mass,
+      valueWei: valueWei.toString(),
+      assists: e.assists.map((a) => ({
+        sessionId: a.sessionId,
+        name: this.engine.getPlayer(a.sessionId)?.displayName,
+        damage: a.damage,
+      })),
+      spills: e.spills,
+      bounty: e.bounty > 0 ? e.bounty : undefined,
+    };
+    this.broadcast("killFeed", payload);
+    const bountyText = e.bounty > 0 ? `, ${massToPayoutAmount(e.bounty, this.massPerEth).toString()} wei bounty` : "";
+    console.log(
+      `[GameRoom] Kill: ${e.killerSessionId ?? "-"} -> ${e.victimSessionId} (${e.cause}, ${valueWei.toString()} wei${bountyText}, ${e.assists.length} assists)`,
+    );
+  }
+
+  /**
+   * Forward combat events the client can see (inside its view box) or is part of.
+   */
+  private sendWorldEvents(client: Client, worldEvents: WorldEventDto[]) {
+    const sessionId = client.sessionId;
+    const focus = this.resolveViewFocus(sessionId);
+    const box = focus ? buildViewBox(focus) : null;
+    const events = worldEvents.filter((e) => isEventVisibleTo(e, sessionId, box));
+    if (events.length === 0) return;
+
+    const payload: WorldEventsDto = { tick: this.tickCount, events };
+    client.send("world:events", payload);
   }
 
   private sendInit(client: Client) {
+    // The client clears its nodes and string table on init, so restart our view of it too
+    const strings = this.deltaStringsBySession.get(client.sessionId);
+    strings?.reset();
+    this.sentNodesBySession.get(client.sessionId)?.clear();
+    this.nextKeyframeTickBySession.delete(client.sessionId);
     const payload: WorldInitDto = {
-      protocolVersion: PROTOCOL_VERSION,
+      protocolVersion: this.protocolVersionBySession.get(client.sessionId) ?? MIN_PROTOCOL_VERSION,
       serverId: config.serverId,
       tickMs: SIM_CONFIG.tickMs,
       // Legacy rectangular bounds (derived from max border)
@@ -710,6 +1537,8 @@ export class GameRoom extends Room<GameState> {
       massPerEth: this.massPerEth,
       exitHoldMs: this.exitHoldMs,
       massScale: SIM_CONFIG.massScale,
+      deltaEncoding: strings ? "binary" : "json",
+      gameMode: this.engine.mode.id,
     };
     client.send("world:init", payload);
   }
@@ -741,6 +1570,12 @@ export class GameRoom extends Room<GameState> {
       region: config.region,
       worldContract: config.worldContractAddress,
       worldBalance: this.state.worldBalance,
+      botCount: this.bots.size,
+      spectatorCount: this.spectatorsBySession.size,
+      spawnsPaused: spawnsPaused(),
+      draining: this.drainEndsAt !== null,
+      shard: this.shard,
+      gameMode: this.engine.mode.id,
     });
   }
 }
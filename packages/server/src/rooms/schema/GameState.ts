@@ -152,4 +152,12 @@ export interface SpawnOptions {
   depositId: `0x${string}`;
   wallet: `0x${string}`;
   displayName?: string;
+  /** Highest protocol version the client understands (absent on pre-v5 clients). */
+  protocolVersion?: number;
+  /** Join as a spectator: no entity is spawned and nothing is charged. */
+  spectate?: boolean;
+  /** Spectators only: player to follow initially (free camera when absent). */
+  followSessionId?: string;
+  /** Lobby party code: in team modes, party members spawn on the same team. */
+  partyCode?: string;
 }
@@ -0,0 +1,64 @@
+/**
+ * Ledger journal export.
+ *
+ * Usage: npm run journal:export -- <serverId> [csv|jsonl] [--since <date>] [--until <date>] [--account <name>]
+ *
+ * Writes every journaled balance movement for the server to stdout (oldest first), so finance can
+ * reconstruct each account's balance. Only needs REDIS_URL (not the full server environment).
+ */
+
+import Redis from "ioredis";
+import { AccountManager } from "@goonverse/accounts";
+
+function parseDate(flag: string, value: string | undefined): number {
+  const ms = value ? Date.parse(value) : NaN;
+  if (!Number.isFinite(ms)) {
+    console.error(`[journal] ${flag} expects a date (e.g. 2026-01-31 or an ISO timestamp)`);
+    process.exit(2);
+  }
+  return ms;
+}
+
+async function main() {
+  const [serverId, ...rest] = process.argv.slice(2);
+  if (!serverId) {
+    console.error("Usage: npm run journal:export -- <serverId> [csv|jsonl] [--since <date>] [--until <date>] [--account <name>]");
+    process.exit(2);
+  }
+
+  let format: "csv" | "jsonl" = "csv";
+  let since: number | undefined;
+  let until: number | undefined;
+  let account: string | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === "csv" || arg === "jsonl") format = arg;
+    else if (arg === "--since") since = parseDate(arg, rest[++i]);
+    else if (arg === "--until") until = parseDate(arg, rest[++i]);
+    else if (arg === "--account") account = rest[++i];
+    else {
+      console.error(`[journal] Unknown argument: ${arg}`);
+      process.exit(2);
+    }
+  }
+
+  const redis = new Redis(process.env.REDIS_URL || process.env.REDIS_URI || "redis://localhost:6379", {
+    enableReadyCheck: false,
+    maxRetriesPerRequest: 3,
+  });
+  try {
+    const ledger = new AccountManager(redis);
+    for await (const line of ledger.exportJournal(serverId, format, { since, until, account })) {
+      if (!process.stdout.write(`${line}\n`)) {
+        await new Promise((resolve) => process.stdout.once("drain", resolve));
+      }
+    }
+  } finally {
+    redis.disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("[journal] export failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+/**
+ * Headless replay verifier.
+ *
+ * Usage: npm run replay -- <path/to/room.replay.json.gz>
+ * (for a segmented recording, any one segment: the rest are found next to it)
+ *
+ * Re-simulates the recorded match and checks every world hash checkpoint.
+ * Exits non-zero on the first divergence.
+ */
+
+import { loadReplay } from "../services/replays.js";
+import { playReplay } from "@goonverse/sim";
+
+async function main() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error("Usage: npm run replay -- <replay file>");
+    process.exit(2);
+  }
+
+  const replay = await loadReplay(file);
+  console.log(`[replay] ${file}: ${replay.endTick} ticks, meta=${JSON.stringify(replay.meta)}`);
+
+  const startedAt = Date.now();
+  const result = playReplay(replay);
+  const elapsedMs = Date.now() - startedAt;
+
+  if (!result.ok) {
+    console.error(`[replay] MISMATCH at tick ${result.tick}: expected ${result.expected}, got ${result.actual}`);
+    process.exit(1);
+  }
+
+  console.log(`[replay] OK: ${result.ticks} ticks verified in ${elapsedMs}ms (hash ${result.finalHash})`);
+}
+
+main().catch((error) => {
+  console.error("[replay] failed:", error);
+  process.exit(1);
+});
@@ -1,13 +1,7 @@
-import Redis from "ioredis";
 import { config } from "../config.js";
 import { AccountManager, type SigningConfig } from "@goonverse/accounts";
 import { serverIdToBytes32 } from "./ponder.js";
-
-const redis = new Redis(config.redisUri, {
-  enableReadyCheck: false,
-  maxRetriesPerRequest: 3,
-});
-redis.on("error", (err) => console.error("[ledger] Redis error:", err));
+import { redis } from "./redis.js";
 
 /** Global account ledger. All operations take serverId as first argument. */
 export const ledger = new AccountManager(redis);
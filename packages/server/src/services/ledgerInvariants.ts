@@ -0,0 +1,162 @@
+/**
+ * Ledger invariant checks.
+ *
+ * Every funded wei on a server is either in the contract's bankroll or on its way out, so
+ * periodically compare three views of the same number:
+ * - ledger: `server:world + server:budget + user:pending:* + server:house - LEDGER_HOUSE_FLOAT_WEI`
+ * - indexer: all-time deposits (spawn + world share) minus exit payouts
+ * - chain: `World.getServer(serverId).bankroll` (only when RPC_URL is set)
+ * plus the `server:total` mirror the indexer maintains.
+ *
+ * A divergence beyond LEDGER_TOLERANCE_WEI on DIVERGENCE_STRIKES consecutive checks raises an
+ * alert (log + optional webhook) and, with LEDGER_PAUSE_SPAWNS=true, pauses new spawns until the
+ * books balance again. Single checks can disagree briefly because the reads aren't atomic (e.g. an
+ * exit lands on-chain before the indexer burns it), hence the strikes.
+ */
+
+import { createPublicClient, http, parseAbi } from "viem";
+import { config } from "../config.js";
+import { ledger, serverId } from "./accounts.js";
+import { getServerFlowTotals } from "./ponder.js";
+
+const DIVERGENCE_STRIKES = 2;
+
+// Server accounts holding funded wei (server:total is the indexer's bankroll mirror, compared separately)
+const LEDGER_HELD_ACCOUNTS: ReadonlySet<string> = new Set(["server:world", "server:budget", "server:house"]);
+
+const worldAbi = parseAbi([
+  "function getServer(bytes32 serverId) view returns ((address controller, uint96 buyInAmount, uint32 massPerEth, uint16 rakeShareBps, uint16 worldShareBps, uint32 exitHoldMs) config, uint256 bankroll)",
+]);
+
+const publicClient = config.rpcUrl ? createPublicClient({ transport: http(config.rpcUrl) }) : null;
+
+export type LedgerCheck = {
+  checkedAt: number;
+  // Wei amounts as decimal strings (null when that source isn't available)
+  ledgerWei: string;
+  totalMirrorWei: string;
+  indexerBankrollWei: string;
+  chainBankrollWei: string | null;
+  divergences: string[];
+};
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let lastCheck: LedgerCheck | null = null;
+let strikes = 0;
+let alerting = false;
+
+/**
+ * Start checking on `config.ledgerCheckIntervalMs` (no-op if already started or the interval is 0).
+ */
+export function startLedgerInvariantChecks() {
+  if (timer || config.ledgerCheckIntervalMs <= 0) return;
+  timer = setInterval(() => void runCheck(), config.ledgerCheckIntervalMs);
+  void runCheck();
+}
+
+/** Latest completed check, for operator endpoints. */
+export function getLastLedgerCheck(): LedgerCheck | null {
+  return lastCheck;
+}
+
+/** Whether new spawns are refused because the ledger diverged (and pausing is enabled). */
+export function spawnsPaused(): boolean {
+  return alerting && config.ledgerPauseSpawns;
+}
+
+/**
+ * Read all three views and list the pairs that disagree by more than the tolerance.
+ * Throws if Redis, the indexer or the RPC can't be read.
+ */
+export async function checkLedgerInvariants(): Promise<LedgerCheck> {
+  const [balances, flows, chainBankroll] = await Promise.all([
+    ledger.getBalances(serverId),
+    getServerFlowTotals(serverId),
+    readChainBankroll(),
+  ]);
+
+  let ledgerWei = -BigInt(config.ledgerHouseFloatWei);
+  for (const [account, balance] of balances) {
+    if (LEDGER_HELD_ACCOUNTS.has(account) || account.startsWith("user:pending:")) ledgerWei += balance;
+  }
+  const totalMirrorWei = balances.get("server:total") ?? 0n;
+
+  const tolerance = BigInt(config.ledgerToleranceWei);
+  const divergences: string[] = [];
+  const compare = (label: string, a: bigint, b: bigint) => {
+    const diff = a - b;
+    if (diff > tolerance || -diff > tolerance) divergences.push(`${label} off by ${diff.toString()} wei`);
+  };
+
+  // The chain is the source of truth when we can read it; otherwise the indexer stands in for it
+  const reference = chainBankroll ?? flows.bankroll;
+  const referenceLabel = chainBankroll !== null ? "chain bankroll" : "indexer bankroll";
+  compare(`ledger vs ${referenceLabel}`, ledgerWei, reference);
+  compare(`server:total vs ${referenceLabel}`, totalMirrorWei, reference);
+  if (chainBankroll !== null) compare("indexer vs chain bankroll", flows.bankroll, chainBankroll);
+
+  return {
+    checkedAt: Date.now(),
+    ledgerWei: ledgerWei.toString(),
+    totalMirrorWei: totalMirrorWei.toString(),
+    indexerBankrollWei: flows.bankroll.toString(),
+    chainBankrollWei: chainBankroll?.toString() ?? null,
+    divergences,
+  };
+}
+
+async function readChainBankroll(): Promise<bigint | null> {
+  if (!publicClient) return null;
+  const [, bankroll] = await publicClient.readContract({
+    address: config.worldContractAddress,
+    abi: worldAbi,
+    functionName: "getServer",
+    args: [serverId as `0x${string}`],
+  });
+  return bankroll;
+}
+
+async function runCheck() {
+  let check: LedgerCheck;
+  try {
+    check = await checkLedgerInvariants();
+  } catch (error) {
+    // An unreadable source isn't a divergence; keep the current alert state until a check completes
+    console.warn("[ledger-check] Check failed:", error);
+    return;
+  }
+  lastCheck = check;
+
+  if (check.divergences.length === 0) {
+    strikes = 0;
+    if (alerting) {
+      alerting = false;
+      console.log(`[ledger-check] Ledger balances again${config.ledgerPauseSpawns ? "; spawns resumed" : ""}`);
+      void notify({ status: "resolved", check });
+    }
+    return;
+  }
+
+  strikes += 1;
+  if (strikes >= DIVERGENCE_STRIKES && !alerting) {
+    alerting = true;
+    console.error(
+      `[ledger-check] ALERT: ledger diverged for ${strikes} checks: ${check.divergences.join("; ")}` +
+        (config.ledgerPauseSpawns ? " (spawns paused)" : ""),
+    );
+    void notify({ status: "diverged", check });
+  }
+}
+
+async function notify(body: { status: "diverged" | "resolved"; check: LedgerCheck }) {
+  if (!config.ledgerAlertWebhookUrl) return;
+  try {
+    await fetch(config.ledgerAlertWebhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ serverId, spawnsPaused: spawnsPaused(), ...body }),
+    });
+  } catch (error) {
+    console.warn("[ledger-check] Alert webhook failed:", error);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Match history.
+ *
+ * One summary per finished run (exit, death or leaving the room), so the lobby can show a
+ * player's recent runs with PnL. Rooms write through the MatchHistoryStore interface; the
+ * server uses the Redis implementation.
+ *
+ * Key structure (Redis):
+ * - `match:{serverId}:{sessionId}` — run summary JSON (sessionId is the generateSessionId value), expiring
+ * - `match:{serverId}:deposit:{depositId}` — sessionId of the run that spent the deposit, expiring
+ * - `matches:{wallet}` — newest-first list of summaries across servers (capped)
+ */
+
+import type Redis from "ioredis";
+import { redis } from "./redis.js";
+
+/** Newest runs kept per wallet; older ones stay reachable by sessionId only, until that key expires. */
+export const MATCH_HISTORY_MAX_PER_WALLET = 100;
+/** Lifetime of the per-run lookup keys (by sessionId and by deposit). */
+export const MATCH_RECORD_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export type RunOutcome = "exited" | "died" | "left";
+
+export type MatchSummary = {
+  sessionId: `0x${string}`;
+  depositId?: `0x${string}`;
+  serverId: string;
+  roomId: string;
+  wallet: `0x${string}`;
+  displayName: string;
+  outcome: RunOutcome;
+  startedAt: number;
+  endedAt: number;
+  // Masses are engine units (scaled by SIM_CONFIG.massScale)
+  spawnMass: number;
+  peakMass: number;
+  finalMass: number;
+  kills: number;
+  damageDealt: number;
+  // Wei amounts as decimal strings; pnl = payout - buyIn (negative for deaths and leaves)
+  buyInWei: string;
+  payoutWei: string;
+  pnlWei: string;
+};
+
+export interface MatchHistoryStore {
+  record(summary: MatchSummary): Promise<void>;
+  /** Most recent runs for a wallet, newest first. */
+  listByWallet(wallet: `0x${string}`, limit: number): Promise<MatchSummary[]>;
+}
+
+export class RedisMatchHistoryStore implements MatchHistoryStore {
+  constructor(
+    private readonly redis: Redis,
+    private readonly maxPerWallet: number = MATCH_HISTORY_MAX_PER_WALLET,
+  ) {}
+
+  async record(summary: MatchSummary): Promise<void> {
+    const json = JSON.stringify(summary);
+    const walletKey = `matches:${summary.wallet.toLowerCase()}`;
+    const tx = this.redis.multi();
+    tx.set(`match:${summary.serverId}:${summary.sessionId}`, json, "EX", MATCH_RECORD_TTL_SECONDS);
+    if (summary.depositId) {
+      tx.set(
+        `match:${summary.serverId}:deposit:${summary.depositId.toLowerCase()}`,
+        summary.sessionId,
+        "EX",
+        MATCH_RECORD_TTL_SECONDS,
+      );
+    }
+    tx.lpush(walletKey, json);
+    tx.ltrim(walletKey, 0, this.maxPerWallet - 1);
+    await tx.exec();
+  }
+
+  async listByWallet(wallet: `0x${string}`, limit: number): Promise<MatchSummary[]> {
+    const count = Math.max(0, Math.min(limit, this.maxPerWallet));
+    if (count === 0) return [];
+    const raw = await this.redis.lrange(`matches:${wallet.toLowerCase()}`, 0, count - 1);
+    return raw.map((entry) => JSON.parse(entry) as MatchSummary);
+  }
+}
+
+/** Server-wide match history store. */
+export const matchHistory: MatchHistoryStore = new RedisMatchHistoryStore(redis);
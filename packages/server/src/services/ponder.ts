@@ -177,6 +177,162 @@ export async function getPlayerExits(
   }
 }
 
+/**
+ * Get exits on a server indexed at or after a block timestamp (oldest first)
+ *
+ * Throws when the indexer can't be queried, so reconciliation never mistakes an outage for "no exits".
+ */
+export async function getServerExitsSince(
+  serverId: string,
+  sinceTimestamp: bigint,
+  limit: number = 100
+): Promise<Exit[]> {
+  const query = `
+    query GetServerExitsSince($serverId: String!, $since: BigInt!, $limit: Int!) {
+      exitss(
+        where: { serverId: $serverId, timestamp_gte: $since }
+        orderBy: "timestamp"
+        orderDirection: "asc"
+        limit: $limit
+      ) {
+        items {
+          id
+          serverId
+          sessionId
+          player
+          payout
+          blockNumber
+          timestamp
+          txHash
+        }
+      }
+    }
+  `;
+
+  const data = await graphqlQuery<{ exitss: { items: Exit[] } }>(query, {
+    serverId: serverIdToBytes32(serverId),
+    since: sinceTimestamp.toString(),
+    limit,
+  });
+  return data.exitss.items.map(normalizeExit);
+}
+
+/**
+ * Get the exit that claimed a ticket sessionId on a server, if any
+ *
+ * Throws when the indexer can't be queried (see getServerExitsSince).
+ */
+export async function getExitBySession(
+  serverId: string,
+  sessionId: `0x${string}`
+): Promise<Exit | null> {
+  const query = `
+    query GetExitBySession($serverId: String!, $sessionId: String!) {
+      exitss(where: { serverId: $serverId, sessionId: $sessionId }, limit: 1) {
+        items {
+          id
+          serverId
+          sessionId
+          player
+          payout
+          blockNumber
+          timestamp
+          txHash
+        }
+      }
+    }
+  `;
+
+  const data = await graphqlQuery<{ exitss: { items: Exit[] } }>(query, {
+    serverId: serverIdToBytes32(serverId),
+    sessionId: sessionId.toLowerCase(),
+  });
+  const exit = data.exitss.items[0];
+  return exit ? normalizeExit(exit) : null;
+}
+
+/**
+ * Timestamp of the newest block the indexer has indexed (the lowest across its chains), or null
+ * before it has indexed any.
+ *
+ * Throws when the indexer can't be queried (see getServerExitsSince).
+ */
+export async function getIndexedBlockTimestamp(): Promise<bigint | null> {
+  const query = `
+    query GetIndexerStatus {
+      _meta {
+        status
+      }
+    }
+  `;
+
+  const data = await graphqlQuery<{
+    _meta: { status: Record<string, { block?: { timestamp: number | string } | null }> | null };
+  }>(query);
+  const chains = Object.values(data._meta.status ?? {});
+  if (chains.length === 0) return null;
+
+  let lowest: bigint | null = null;
+  for (const chain of chains) {
+    if (!chain.block) return null;
+    const timestamp = BigInt(chain.block.timestamp);
+    if (lowest === null || timestamp < lowest) lowest = timestamp;
+  }
+  return lowest;
+}
+
+/**
+ * All-time deposit and exit totals for a server, summed from the indexer (paged).
+ *
+ * `bankroll` is what the contract should hold for the server: spawn + world credits of every
+ * deposit minus every exit payout. Throws when the indexer can't be queried.
+ */
+export async function getServerFlowTotals(serverId: string): Promise<{
+  deposited: bigint;
+  exited: bigint;
+  bankroll: bigint;
+}> {
+  const serverIdHex = serverIdToBytes32(serverId);
+  type Page<T> = { items: T[]; pageInfo: { hasNextPage: boolean; endCursor: string | null } };
+
+  let deposited = 0n;
+  let after: string | null = null;
+  do {
+    const data: { depositss: Page<{ spawnAmount: string; worldAmount: string }> } = await graphqlQuery(
+      `
+        query GetServerDepositAmounts($serverId: String!, $after: String) {
+          depositss(where: { serverId: $serverId }, limit: 1000, after: $after) {
+            items { spawnAmount worldAmount }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      `,
+      { serverId: serverIdHex, after }
+    );
+    for (const d of data.depositss.items) deposited += BigInt(d.spawnAmount) + BigInt(d.worldAmount);
+    after = data.depositss.pageInfo.hasNextPage ? data.depositss.pageInfo.endCursor : null;
+  } while (after);
+
+  let exited = 0n;
+  do {
+    const data: { exitss: Page<{ payout: string }> } = await graphqlQuery(
+      `
+        query GetServerExitAmounts($serverId: String!, $after: String) {
+          exitss(where: { serverId: $serverId }, limit: 1000, after: $after) {
+            items { payout }
+            pageInfo { hasNextPage endCursor }
+          }
+        }
+      `,
+      { serverId: serverIdHex, after }
+    );
+    for (const e of data.exitss.items) exited += BigInt(e.payout);
+    after = data.exitss.pageInfo.hasNextPage ? data.exitss.pageInfo.endCursor : null;
+  } while (after);
+
+  return { deposited, exited, bankroll: deposited - exited };
+}
+
 /**
  * Verify a deposit exists and is valid for joining
  * 
@@ -296,3 +452,11 @@ function normalizeDeposit(raw: Deposit): Deposit {
   };
 }
 
+function normalizeExit(raw: Exit): Exit {
+  return {
+    ...raw,
+    payout: BigInt(raw.payout ?? 0n),
+    blockNumber: BigInt(raw.blockNumber ?? 0n),
+    timestamp: BigInt(raw.timestamp ?? 0n),
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Exit reconciliation worker.
+ *
+ * Keeps the hot ledger's pending-exit balances in line with the chain:
+ * - Claimed tickets: every indexed `Exit` for this server burns `user:pending:exit:<wallet>` and
+ *   `server:total` and drops the stored ticket. Burns use the indexer's idempotency keys, so exits the
+ *   indexer already applied are no-ops; this only catches ledger writes the indexer missed. Those keys
+ *   expire, so a fresh (or lost) cursor starts a day inside their window, never at the first exit.
+ * - Expired tickets: once a ticket's deadline is `exitRefundGraceSeconds` in the past and the indexer
+ *   has no `Exit` for its sessionId, the payout moves back to `user:pending:spawn:<wallet>` so the
+ *   player can spend it again. The contract rejects tickets past their deadline, so it can't be claimed
+ *   after the refund. A missing `Exit` only counts once the indexer has indexed a block past the
+ *   deadline (a lagging indexer would refund a claimed ticket); indexer errors end the pass unrefunded.
+ */
+
+import { DEFAULT_IDEMPOTENCY_TTL_SECONDS } from "@goonverse/accounts";
+import { config } from "../config.js";
+import { ledger, serverId } from "./accounts.js";
+import { getExitBySession, getIndexedBlockTimestamp, getServerExitsSince, type Exit } from "./ponder.js";
+import { redis } from "./redis.js";
+
+// Block timestamp of the newest exit already reconciled (exits at the same timestamp are re-read, harmlessly)
+const EXIT_CURSOR_KEY = `recon:${serverId}:exits`;
+const EXIT_PAGE_SIZE = 100;
+// Exits older than this may have lost their idempotency keys and would be burned twice
+const EXIT_CURSOR_LOOKBACK_SECONDS = DEFAULT_IDEMPOTENCY_TTL_SECONDS - 24 * 60 * 60;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Start reconciling on `config.reconcileIntervalMs` (no-op if already started or the interval is 0).
+ */
+export function startExitReconciliation() {
+  if (timer || config.reconcileIntervalMs <= 0) return;
+  timer = setInterval(() => void reconcileOnce(), config.reconcileIntervalMs);
+  void reconcileOnce();
+}
+
+/**
+ * One reconciliation pass: apply indexed exits, then refund expired tickets.
+ * Passes never overlap; indexer or Redis errors end the pass and the next one retries.
+ */
+export async function reconcileOnce() {
+  if (running) return;
+  running = true;
+  try {
+    await reconcileClaimedExits();
+    await refundExpiredTickets();
+  } catch (error) {
+    console.error("[reconcile] Pass failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+async function reconcileClaimedExits() {
+  const stored = await redis.get(EXIT_CURSOR_KEY);
+  let cursor = stored !== null ? BigInt(stored) : BigInt(Math.floor(Date.now() / 1000) - EXIT_CURSOR_LOOKBACK_SECONDS);
+
+  for (;;) {
+    const previous = cursor;
+    const exits = await getServerExitsSince(serverId, cursor, EXIT_PAGE_SIZE);
+    for (const exit of exits) {
+      await applyExit(exit);
+      if (exit.timestamp > cursor) cursor = exit.timestamp;
+    }
+    await redis.set(EXIT_CURSOR_KEY, cursor.toString());
+    // Stop on a short page, or a full page that didn't move the cursor (all one block timestamp)
+    if (exits.length < EXIT_PAGE_SIZE || cursor === previous) break;
+  }
+}
+
+/**
+ * Apply an indexed exit to the ledger (same idempotency keys as the indexer's Exit handler).
+ */
+async function applyExit(exit: Exit) {
+  const wallet = exit.player.toLowerCase() as `0x${string}`;
+  const sid = exit.sessionId.toLowerCase() as `0x${string}`;
+  await ledger.burn(serverId, `user:pending:exit:${wallet}`, exit.payout, `exit:pending:${sid}`);
+  await ledger.burn(serverId, "server:total", exit.payout, `exit:total:${sid}`);
+  await ledger.clearExitTicket(serverId, wallet, sid);
+}
+
+async function refundExpiredTickets() {
+  // Claims land in blocks at or before the deadline, so only deadlines before the indexed head are settled
+  const indexedAt = await getIndexedBlockTimestamp();
+  if (indexedAt === null) return;
+  const graceCutoff = BigInt(Math.floor(Date.now() / 1000) - config.exitRefundGraceSeconds);
+  const cutoff = graceCutoff < indexedAt - 1n ? graceCutoff : indexedAt - 1n;
+  const expired = await ledger.getExpiredExitTickets(serverId, cutoff);
+
+  for (const ticket of expired) {
+    const wallet = ticket.player as `0x${string}`;
+    const sessionId = ticket.sessionId as `0x${string}`;
+
+    // Claimed but not yet reconciled (e.g. indexed after our cursor read): burn instead of refunding
+    const exit = await getExitBySession(serverId, sessionId);
+    if (exit) {
+      await applyExit(exit);
+      continue;
+    }
+
+    if (await ledger.refundExitTicket(serverId, wallet, sessionId, cutoff)) {
+      console.log(`[reconcile] Refunded expired ticket ${sessionId} (${ticket.payout} wei) to ${wallet}`);
+    }
+  }
+}
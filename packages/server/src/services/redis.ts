@@ -0,0 +1,9 @@
+import Redis from "ioredis";
+import { config } from "../config.js";
+
+/** Shared Redis connection for the ledger and other server-side stores. */
+export const redis = new Redis(config.redisUri, {
+  enableReadyCheck: false,
+  maxRetriesPerRequest: 3,
+});
+redis.on("error", (err) => console.error("[redis] Redis error:", err));
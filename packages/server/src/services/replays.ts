@@ -0,0 +1,57 @@
+/**
+ * Replay persistence.
+ *
+ * Replays are written as gzipped JSON so a match survives room disposal and can be
+ * re-simulated later (see @goonverse/sim replay.ts and scripts/replay.ts). A room
+ * writes its recording as numbered segments (`{roomId}-{startedAt}.{segment}.replay.json.gz`),
+ * each holding only the frames since the previous flush.
+ *
+ * This module deliberately doesn't import config so the offline replay CLI can use
+ * it without a full server environment.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import { joinReplaySegments, type ReplayFile, type ReplaySegment } from "@goonverse/sim";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const SEGMENT_FILE = /^(.*)\.(\d+)\.replay\.json(\.gz)?$/;
+
+/**
+ * Write the next segment of a room's recording. Returns the file path.
+ */
+export async function saveReplaySegment(dir: string, roomId: string, segment: ReplaySegment): Promise<string> {
+  await fs.mkdir(dir, { recursive: true });
+  const safeRoomId = roomId.replace(/[^A-Za-z0-9_-]/g, "_");
+  const index = String(segment.segment).padStart(5, "0");
+  const target = path.join(dir, `${safeRoomId}-${segment.startedAt}.${index}.replay.json.gz`);
+  const tmp = `${target}.tmp`;
+  await fs.writeFile(tmp, await gzipAsync(JSON.stringify(segment)));
+  // Rename so a crash mid-write never leaves a truncated replay behind.
+  await fs.rename(tmp, target);
+  return target;
+}
+
+/**
+ * Load a replay. Given any segment file, every segment of that recording is loaded and joined;
+ * single-file replays (and plain .json files) are read as they are.
+ */
+export async function loadReplay(file: string): Promise<ReplayFile> {
+  const match = SEGMENT_FILE.exec(path.basename(file));
+  if (!match) return readJson<ReplayFile>(file);
+
+  const dir = path.dirname(file);
+  const siblings = (await fs.readdir(dir)).filter((name) => SEGMENT_FILE.exec(name)?.[1] === match[1]);
+  const segments = await Promise.all(siblings.map((name) => readJson<ReplaySegment>(path.join(dir, name))));
+  return joinReplaySegments(segments);
+}
+
+async function readJson<T>(file: string): Promise<T> {
+  const raw = await fs.readFile(file);
+  const json = file.endsWith(".gz") ? await gunzipAsync(raw) : raw;
+  return JSON.parse(json.toString("utf-8")) as T;
+}
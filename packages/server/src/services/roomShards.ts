@@ -0,0 +1,120 @@
+/**
+ * Room sharding.
+ *
+ * A serverId can run several `game` rooms (across processes, through the Redis driver). They all
+ * use the serverId's ledger accounts (server:world, server:budget, ...), so sharding doesn't split
+ * the economy: each room only nets its own recycle/pellet flows before settling them (worldFlows.ts).
+ *
+ * - New spawns are routed to the least-loaded open room (clients / maxClients).
+ * - When every open room is at `roomScaleUpRatio` of its cap, another room is created, on demand
+ *   from /join-eligibility and periodically by the autoscaler.
+ * - Party members (same lobby party code) are sent to the room their party is in, while it has space.
+ * - A crashed room's snapshot gets a room of its own, which restores it (roomSnapshots.ts). Finding
+ *   those scans every snapshot, so only the autoscaler does it, never the join path.
+ * - Rooms created here dispose themselves once nobody has been in them for a while (see GameRoom);
+ *   the bootstrap room stays up.
+ */
+
+import { matchMaker, type IRoomCache } from "colyseus";
+import { config } from "../config.js";
+import { serverId } from "./accounts.js";
+import { serverIdToBytes32 } from "./ponder.js";
+import { redis } from "./redis.js";
+import { countOrphanedSnapshots } from "./roomSnapshots.js";
+
+// Only one process creates a room at a time (rooms take a moment to show up in queries)
+const SCALE_LOCK_KEY = `rooms:${serverId}:scaling`;
+const SCALE_LOCK_MS = 10_000;
+
+// party:{serverId}:{code} -> roomId the party plays in
+const PARTY_TTL_MS = 60 * 60 * 1000;
+
+function partyKey(code: string) {
+  return `party:${serverId}:${code}`;
+}
+
+/** Canonical party code (4-12 letters/digits, upper-cased), or null if it isn't one. */
+export function normalizePartyCode(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toUpperCase();
+  return /^[A-Z0-9]{4,12}$/.test(code) ? code : null;
+}
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Check capacity on `config.roomScaleCheckMs` (no-op if already started or the interval is 0).
+ */
+export function startRoomAutoscaler() {
+  if (timer || config.roomScaleCheckMs <= 0) return;
+  timer = setInterval(() => {
+    ensureCapacity().catch((error) => console.error("[shards] Capacity check failed:", error));
+  }, config.roomScaleCheckMs);
+}
+
+/** Every `game` room for this serverId, on any process. */
+export async function listServerRooms(): Promise<IRoomCache[]> {
+  const target = serverIdToBytes32(config.serverId).toLowerCase();
+  const rooms = await matchMaker.query({ name: "game" });
+  return rooms.filter((room) => {
+    const sid = room.metadata?.serverId;
+    return typeof sid === "string" && sid.length > 0 && serverIdToBytes32(sid).toLowerCase() === target;
+  });
+}
+
+/**
+ * Room a new player should spawn in: their party's room if it can still take them, otherwise the
+ * least-loaded open room, after creating one if all of them are nearly full. Returns null if no
+ * room can take the player right now.
+ */
+export async function pickRoomForSpawn(partyCode?: string | null): Promise<string | null> {
+  let rooms = openRooms(await listServerRooms());
+  if (atCapacity(rooms)) {
+    await createRoom(`${rooms.length} open rooms at capacity`);
+    rooms = openRooms(await listServerRooms());
+  }
+  const open = rooms.filter((room) => room.clients < room.maxClients);
+  const partyRoomId = partyCode ? await redis.get(partyKey(partyCode)) : null;
+  open.sort((a, b) => load(a) - load(b));
+  const room = open.find((r) => r.roomId === partyRoomId) ?? open[0];
+  if (room && partyCode) await redis.set(partyKey(partyCode), room.roomId, "PX", PARTY_TTL_MS);
+  return room?.roomId ?? null;
+}
+
+/**
+ * Create a room when every open room is at the scale-up ratio, or when a crashed room's snapshot
+ * is waiting to be resumed. At most one room per call.
+ */
+export async function ensureCapacity(): Promise<void> {
+  const open = openRooms(await listServerRooms());
+  if (atCapacity(open)) {
+    await createRoom(`${open.length} open rooms at capacity`);
+    return;
+  }
+  const orphaned = await countOrphanedSnapshots();
+  if (orphaned > 0) await createRoom(`${orphaned} crashed rooms to resume`);
+}
+
+async function createRoom(reason: string) {
+  const locked = await redis.set(SCALE_LOCK_KEY, "1", "PX", SCALE_LOCK_MS, "NX");
+  if (locked !== "OK") return;
+  try {
+    const room = await matchMaker.createRoom("game", { serverId: config.serverId, shard: true });
+    console.log(`[shards] Created room ${room.roomId} for ${config.serverId} (${reason})`);
+  } catch (error) {
+    console.error("[shards] Failed to create room:", error);
+    await redis.del(SCALE_LOCK_KEY);
+  }
+}
+
+function openRooms(rooms: IRoomCache[]): IRoomCache[] {
+  return rooms.filter((room) => !room.locked && room.metadata?.draining !== true);
+}
+
+function atCapacity(open: IRoomCache[]): boolean {
+  return open.length === 0 || open.every((room) => load(room) >= config.roomScaleUpRatio);
+}
+
+function load(room: IRoomCache): number {
+  return room.maxClients > 0 && Number.isFinite(room.maxClients) ? room.clients / room.maxClients : 0;
+}
@@ -0,0 +1,119 @@
+/**
+ * Room snapshots for crash recovery.
+ *
+ * A room periodically stores its full engine state plus the room-side bookkeeping needed to resume
+ * (tick counter, live run stats, payouts in progress). After a crash or restart, a new room for the
+ * serverId claims it and restores it, so players keep their blobs and reconnect into them by wallet.
+ * A snapshot is orphaned once its room is gone from the matchmaker or hasn't saved for a while
+ * (a crashed process's rooms can linger in the shared room cache).
+ *
+ * Payouts are the one place a stale snapshot could pay twice: a player who exited after the last
+ * snapshot would come back alive. So an exit is snapshotted (player out of the world, payout listed
+ * under `pendingPayouts`) before its ledger withdraw; a restore retries those payouts under the same
+ * idempotency key instead of restoring the player. World flows (pellets, recycling) recorded after the
+ * snapshot are reversed on restore, see worldFlows.ts.
+ *
+ * Key structure (Redis):
+ * - `snapshot:{serverId}:{roomId}` — latest RoomSnapshot JSON of a room (deleted when it disposes
+ *   cleanly, renamed to the claiming room's key when orphaned)
+ */
+
+import { matchMaker } from "colyseus";
+import { SIM_CONFIG, type EngineSnapshot } from "@goonverse/sim";
+import { config } from "../config.js";
+import { serverId } from "./accounts.js";
+import { redis } from "./redis.js";
+
+const KEY_PREFIX = `snapshot:${serverId}:`;
+
+// A live room saves at least every snapshot interval; one this far behind is considered dead
+const STALE_MS = Math.max(30_000, config.snapshotIntervalTicks * SIM_CONFIG.tickMs * 3);
+
+/** An exit whose ledger withdraw may not have completed yet. */
+export type PendingPayout = {
+  sessionId: string;
+  wallet: `0x${string}`;
+  totalMass: number;
+  exitAttemptId: number;
+};
+
+export type RoomSnapshot<Run = unknown> = {
+  roomId: string;
+  savedAt: number;
+  tickCount: number;
+  engine: EngineSnapshot;
+  runs: Array<[sessionId: string, run: Run]>;
+  pendingPayouts: PendingPayout[];
+  // The room's WorldFlowBuffer.recordedWei at save time (absent in older snapshots)
+  flowsRecordedWei?: string;
+};
+
+export async function saveRoomSnapshot(snapshot: RoomSnapshot): Promise<void> {
+  await redis.set(`${KEY_PREFIX}${snapshot.roomId}`, JSON.stringify(snapshot));
+}
+
+/**
+ * Take over the oldest orphaned snapshot for `roomId` and return it, or null if there is none.
+ * The claim is a RENAME to the caller's key, so two rooms can't resume the same world.
+ */
+export async function claimOrphanedSnapshot<Run>(roomId: string): Promise<RoomSnapshot<Run> | null> {
+  const orphans = await findOrphanedSnapshots();
+  const ownKey = `${KEY_PREFIX}${roomId}`;
+  for (const key of orphans) {
+    try {
+      await redis.rename(key, ownKey);
+    } catch {
+      continue; // Claimed by another room first
+    }
+    const snapshot = await readSnapshot<Run>(ownKey);
+    if (snapshot) return snapshot;
+    await redis.del(ownKey);
+  }
+  return null;
+}
+
+/** Number of snapshots waiting for a room to resume them. */
+export async function countOrphanedSnapshots(): Promise<number> {
+  return (await findOrphanedSnapshots()).length;
+}
+
+/**
+ * Forget a room's stored snapshot (it disposed cleanly, so there's nothing to resume).
+ */
+export async function clearRoomSnapshot(roomId: string): Promise<void> {
+  await redis.del(`${KEY_PREFIX}${roomId}`);
+}
+
+/** Keys of orphaned snapshots, oldest first. */
+async function findOrphanedSnapshots(): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor = "0";
+  do {
+    const [next, batch] = await redis.scan(cursor, "MATCH", `${KEY_PREFIX}*`, "COUNT", 100);
+    cursor = next;
+    keys.push(...batch);
+  } while (cursor !== "0");
+  if (keys.length === 0) return [];
+
+  const liveRoomIds = new Set((await matchMaker.query({ name: "game" })).map((room) => room.roomId));
+  const orphans: Array<{ key: string; savedAt: number }> = [];
+  for (const key of keys) {
+    const snapshot = await readSnapshot(key);
+    if (!snapshot) continue;
+    const live = liveRoomIds.has(key.slice(KEY_PREFIX.length)) && Date.now() - snapshot.savedAt < STALE_MS;
+    if (!live) orphans.push({ key, savedAt: snapshot.savedAt });
+  }
+  return orphans.sort((a, b) => a.savedAt - b.savedAt).map((orphan) => orphan.key);
+}
+
+/** Stored snapshot, or null if there is none (or it can't be parsed). */
+async function readSnapshot<Run>(key: string): Promise<RoomSnapshot<Run> | null> {
+  const raw = await redis.get(key);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as RoomSnapshot<Run>;
+  } catch (error) {
+    console.error(`[snapshot] Ignoring unreadable room snapshot ${key}:`, error);
+    return null;
+  }
+}
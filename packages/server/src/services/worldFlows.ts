@@ -0,0 +1,263 @@
+/**
+ * Room-local world accounting.
+ *
+ * The engine recycles mass (server:world -> server:budget) and spawns pellets (server:budget ->
+ * server:world) on most ticks. Instead of one ledger transfer per flow per tick, a room records them
+ * in a WorldFlowBuffer, which nets them and settles the net to the ledger once per second (and before
+ * exits and on dispose).
+ *
+ * Crash safety: every recorded flow is also added to a Redis hash (a plain HINCRBY, no contention),
+ * and each settlement is written there before it hits the ledger, under an idempotency key derived
+ * from its sequence number. If the process dies, the hash still holds everything unsettled; rooms on
+ * the server look for such buffers at create and every 30s, and settle each once its lease has expired.
+ * The lease is only renewed by its owner: a room that stalled long enough to lose it stops settling
+ * and, once it can take the lease back, reloads the buffer from the hash (the recoverer may have
+ * settled it meanwhile) instead of settling its own stale amount.
+ *
+ * Snapshots: `recorded` (every flow ever recorded) is stored with each room snapshot. A room restoring
+ * a crashed room's snapshot reverses what that room recorded after it (`recordedSince`), since the
+ * restored world doesn't have those pellets or recycled mass. Closed buffers keep `recorded` for a day
+ * so the number is still there when the snapshot is claimed.
+ *
+ * Key structure (Redis):
+ * - `worldflow:{serverId}:{roomId}` — hash: `net` (unsettled wei, positive = owed world -> budget),
+ *   `seq` (last settlement number), `settling` (amount of the settlement in flight, if any),
+ *   `recorded` (net of every flow ever recorded; kept with `seq` once the buffer is closed)
+ * - `worldflow:{serverId}:{roomId}:lease` — owner of the buffer, refreshed on every settlement
+ */
+
+import { ledger, serverId } from "./accounts.js";
+import { redis } from "./redis.js";
+
+// A buffer whose owner hasn't settled for this long is considered orphaned
+const LEASE_MS = 30_000;
+
+// How long a closed buffer's `recorded` total is kept for a snapshot restore
+const CLOSED_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Refresh the lease only if it is still ours
+const RENEW_LEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+// Release our lease and drop the unsettled fields, unless flows were journaled that we haven't settled
+const CLOSE_SCRIPT = `
+if redis.call("GET", KEYS[2]) ~= ARGV[1] then return 0 end
+redis.call("DEL", KEYS[2])
+local net = redis.call("HGET", KEYS[1], "net")
+if net and net ~= "0" then return 0 end
+redis.call("HDEL", KEYS[1], "net", "settling")
+redis.call("PEXPIRE", KEYS[1], ARGV[2])
+return 1
+`;
+
+type Settlement = { seq: number; amountWei: bigint };
+
+export class WorldFlowBuffer {
+  private readonly key: string;
+  private readonly leaseKey: string;
+  private readonly owner: string;
+  private pending = 0n;
+  private recorded = 0n;
+  private seq = 0;
+  private inFlight: Settlement | null = null;
+  private settling: Promise<void> | null = null;
+  private leased = false;
+
+  constructor(private readonly roomId: string, owner: string = roomId) {
+    this.key = `worldflow:${serverId}:${roomId}`;
+    this.leaseKey = `${this.key}:lease`;
+    this.owner = owner;
+  }
+
+  /**
+   * Unsettled net wei owed from server:world to server:budget (negative when pellets outweigh
+   * recycling), including a settlement that hasn't landed yet.
+   */
+  get pendingWei(): bigint {
+    return this.pending + (this.inFlight?.amountWei ?? 0n);
+  }
+
+  /** Net of every flow recorded into this buffer (stored with room snapshots). */
+  get recordedWei(): bigint {
+    return this.recorded;
+  }
+
+  /**
+   * Take the lease and load any unsettled state. Returns false if another owner holds the lease.
+   */
+  async open(): Promise<boolean> {
+    if (!(await this.claimLease())) return false;
+
+    // A closed buffer is set to expire; it's live again
+    await redis.persist(this.key);
+    const state = await redis.hgetall(this.key);
+    this.pending = BigInt(state.net ?? "0");
+    this.recorded = BigInt(state.recorded ?? "0");
+    this.seq = Number(state.seq ?? "0");
+    this.inFlight = state.settling ? { seq: this.seq, amountWei: BigInt(state.settling) } : null;
+    return true;
+  }
+
+  /** Mass recycled out of the world this tick (wei). */
+  recordRecycle(wei: bigint) {
+    this.record(wei);
+  }
+
+  /** Pellets spawned into the world this tick (wei). */
+  recordPellets(wei: bigint) {
+    this.record(-wei);
+  }
+
+  /**
+   * Undo flows a crashed room recorded after the snapshot this room restored (see `recordedSince`).
+   * Not counted in `recorded`: it belongs to the restored world's past, not this room's flows.
+   */
+  revertFlows(wei: bigint) {
+    this.record(-wei, false);
+  }
+
+  /**
+   * Settle everything recorded so far. Concurrent calls share one settlement; failures keep the
+   * amount buffered for the next call.
+   */
+  settle(): Promise<void> {
+    if (!this.settling) {
+      this.settling = this.settleOnce().finally(() => {
+        this.settling = null;
+      });
+    }
+    return this.settling;
+  }
+
+  /**
+   * Settle and, if nothing is left, drop the buffer and release the lease. A buffer whose lease was
+   * lost is left to its new owner.
+   */
+  async close() {
+    await this.settle();
+    if (this.pendingWei !== 0n) {
+      console.warn(`[worldflow] ${this.roomId} closed with ${this.pendingWei.toString()} wei unsettled (kept for recovery)`);
+      return;
+    }
+    if (!this.leased) return;
+    const closed = await redis.eval(CLOSE_SCRIPT, 2, this.key, this.leaseKey, this.owner, CLOSED_TTL_MS);
+    this.leased = false;
+    if (closed !== 1) console.warn(`[worldflow] ${this.roomId} closed with flows it didn't settle (kept for recovery)`);
+  }
+
+  private record(wei: bigint, counted = true) {
+    if (wei === 0n) return;
+    this.pending += wei;
+    const tx = redis.multi().hincrby(this.key, "net", wei.toString());
+    if (counted) {
+      this.recorded += wei;
+      tx.hincrby(this.key, "recorded", wei.toString());
+    }
+    tx.exec().catch((error) => {
+      console.error(`[worldflow] Failed to journal flow for ${this.roomId}:`, error);
+    });
+  }
+
+  private async settleOnce() {
+    try {
+      if (!(await this.holdLease())) return;
+
+      // A settlement whose outcome is unknown (Redis error or crash) is retried under the same key first
+      if (this.inFlight && !(await this.apply(this.inFlight))) return;
+
+      const amountWei = this.pending;
+      if (amountWei === 0n) return;
+      const settlement = { seq: this.seq + 1, amountWei };
+      this.seq = settlement.seq;
+      this.pending -= amountWei;
+      this.inFlight = settlement;
+      await redis
+        .multi()
+        .hincrby(this.key, "net", (-amountWei).toString())
+        .hset(this.key, "seq", settlement.seq, "settling", amountWei.toString())
+        .exec();
+      await this.apply(settlement);
+    } catch (error) {
+      console.error(`[worldflow] Settlement failed for ${this.roomId}:`, error);
+    }
+  }
+
+  private async claimLease(): Promise<boolean> {
+    const claimed = await redis.set(this.leaseKey, this.owner, "PX", LEASE_MS, "NX");
+    this.leased = claimed === "OK";
+    return this.leased;
+  }
+
+  /**
+   * Renew the lease; returns false while another owner holds it. A lease that was lost (the room
+   * stalled past LEASE_MS) is taken back only with a reload from Redis, since another room may have
+   * settled the buffer meanwhile. One never taken (`open` failed) is just claimed.
+   */
+  private async holdLease(): Promise<boolean> {
+    const renewed = await redis.eval(RENEW_LEASE_SCRIPT, 1, this.leaseKey, this.owner, LEASE_MS);
+    if (renewed === 1) return true;
+    if (!this.leased) return this.claimLease();
+    console.warn(`[worldflow] ${this.roomId} lost its lease; reloading before it settles again`);
+    this.leased = false;
+    return this.open();
+  }
+
+  /**
+   * Move a settlement through the ledger. Returns false if it couldn't be applied (it is then
+   * either still in flight or back in the pending amount).
+   */
+  private async apply(settlement: Settlement): Promise<boolean> {
+    const { seq, amountWei } = settlement;
+    const [from, to] = amountWei > 0n ? ["server:world", "server:budget"] : ["server:budget", "server:world"];
+    const abs = amountWei > 0n ? amountWei : -amountWei;
+    const ok = await ledger.transfer(serverId, from, to, abs, `worldflow:${this.roomId}:${seq}`);
+
+    this.inFlight = null;
+    if (ok) {
+      await redis.hdel(this.key, "settling");
+      return true;
+    }
+
+    // Not enough on the paying side right now (e.g. the budget is shared with other rooms); owe it again
+    console.warn(`[worldflow] ${this.roomId} settlement ${seq} short of funds (${from} -> ${to} ${abs.toString()} wei)`);
+    this.pending += amountWei;
+    await redis.multi().hincrby(this.key, "net", amountWei.toString()).hdel(this.key, "settling").exec();
+    return false;
+  }
+}
+
+/**
+ * Settle buffers left behind by rooms that stopped without closing them (crash, kill), once their
+ * lease has expired. Safe to run from several rooms at once: each buffer is claimed through its lease.
+ */
+export async function recoverWorldFlows(recoveredBy: string) {
+  const prefix = `worldflow:${serverId}:`;
+  let cursor = "0";
+  do {
+    const [next, keys] = await redis.scan(cursor, "MATCH", `${prefix}*`, "COUNT", 100);
+    cursor = next;
+    for (const key of keys) {
+      if (key.endsWith(":lease")) continue;
+      // Closed buffer (only its `recorded` total is left)
+      if (!(await redis.hexists(key, "net"))) continue;
+      const roomId = key.slice(prefix.length);
+      const orphan = new WorldFlowBuffer(roomId, recoveredBy);
+      if (!(await orphan.open())) continue;
+      console.log(`[worldflow] Recovering unsettled flows of room ${roomId} (${orphan.pendingWei.toString()} wei)`);
+      await orphan.close();
+    }
+  } while (cursor !== "0");
+}
+
+/**
+ * Net flows `roomId` recorded after it had recorded `sinceWei` (e.g. since its last snapshot), or 0
+ * if its buffer is gone.
+ */
+export async function recordedSince(roomId: string, sinceWei: bigint): Promise<bigint> {
+  const recorded = await redis.hget(`worldflow:${serverId}:${roomId}`, "recorded");
+  return recorded === null ? 0n : BigInt(recorded) - sinceWei;
+}
@@ -0,0 +1,85 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { GameEngine } from "../engine.js";
+import { BotController } from "../bots.js";
+import { GAME_MODES } from "../modes.js";
+import { hashWorld } from "../replay.js";
+
+function runBots(ticks: number) {
+  const engine = new GameEngine();
+  engine.seedRng(7);
+  engine.initializeObstacles(20);
+  const bots = new BotController(3);
+  for (const [i, difficulty] of (["easy", "normal", "hard"] as const).entries()) {
+    const sessionId = `bot:${i}`;
+    engine.addPlayer({
+      sessionId,
+      wallet: "0x0000000000000000000000000000000000000000",
+      displayName: sessionId,
+      spawnMass: 100_000,
+      isBot: true,
+    });
+    bots.add(sessionId, difficulty);
+  }
+
+  let maxBullets = 0;
+  for (let i = 0; i < ticks; i++) {
+    bots.update(engine);
+    for (const e of engine.step().events) {
+      if (e.type === "playerDied") bots.remove(e.sessionId);
+    }
+    maxBullets = Math.max(maxBullets, engine.bullets.size);
+  }
+  return { engine, maxBullets };
+}
+
+test("bots move and shoot through the engine input path", () => {
+  const { engine, maxBullets } = runBots(600);
+  assert.ok(maxBullets > 0);
+  for (const p of engine.players.values()) {
+    assert.equal(p.isBot, true);
+  }
+});
+
+test("bots are deterministic for a given seed", () => {
+  assert.equal(hashWorld(runBots(300).engine), hashWorld(runBots(300).engine));
+});
+
+test("team bots don't target their teammates", () => {
+  const shotsAt = (team: number) => {
+    const engine = new GameEngine(GAME_MODES.teams);
+    engine.seedRng(7);
+    const bot = engine.addPlayer({
+      sessionId: "bot:0",
+      wallet: "0x0000000000000000000000000000000000000000",
+      displayName: "bot:0",
+      spawnMass: 100_000,
+      isBot: true,
+      team: 1,
+    });
+    const other = engine.addPlayer({
+      sessionId: "b",
+      wallet: "0x000000000000000000000000000000000000000b",
+      displayName: "b",
+      spawnMass: 100_000,
+      team,
+    });
+    bot.x = -150;
+    bot.y = 0;
+    other.x = 150;
+    other.y = 0;
+    const bots = new BotController(3);
+    bots.add(bot.sessionId, "hard");
+
+    let shots = 0;
+    for (let i = 0; i < 60; i++) {
+      bots.update(engine);
+      engine.step();
+      for (const b of engine.bullets.values()) if (b.ownerSessionId === bot.sessionId) shots++;
+    }
+    return shots;
+  };
+
+  assert.ok(shotsAt(2) > 0);
+  assert.equal(shotsAt(1), 0);
+});
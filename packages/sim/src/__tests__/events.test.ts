@@ -0,0 +1,168 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { SIM_CONFIG } from "../config.js";
+import type { EngineEvent } from "../events.js";
+import { NODE_FLAG_BOUNTY } from "../protocol.js";
+import { duel, runTicks } from "./helpers.js";
+
+test("shooting emits bulletFired and bulletHit with the attacker", () => {
+  const { engine, b } = duel();
+  const events = runTicks(engine, 40, (i) => {
+    engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+  });
+
+  const fired = events.find((e) => e.type === "bulletFired");
+  assert.ok(fired && fired.type === "bulletFired");
+  assert.equal(fired.ownerSessionId, "a");
+
+  const hit = events.find((e) => e.type === "bulletHit");
+  assert.ok(hit && hit.type === "bulletHit");
+  assert.equal(hit.targetSessionId, "b");
+  assert.equal(hit.attackerSessionId, "a");
+  assert.ok(hit.damage > 0);
+  assert.equal(hit.damage, hit.spilledMass + hit.burnedMass);
+  assert.ok(events.some((e) => e.type === "spillSpawned" && e.victimSessionId === "b"));
+});
+
+test("exit start and release emit exitStarted/exitInterrupted", () => {
+  const { engine } = duel();
+  const events = runTicks(engine, 20, (i) => {
+    engine.setInput("a", { exit: i < 10 });
+  });
+  assert.equal(events.filter((e) => e.type === "exitStarted").length, 1);
+  const interrupted = events.find((e) => e.type === "exitInterrupted");
+  assert.ok(interrupted && interrupted.type === "exitInterrupted");
+  assert.equal(interrupted.reason, "released");
+});
+
+test("dash overheat emits overheat and stunApplied", () => {
+  const { engine } = duel();
+  const events = runTicks(engine, 60, () => {
+    engine.setInput("a", { dash: true });
+  });
+  assert.ok(events.some((e) => e.type === "overheat" && e.sessionId === "a"));
+  assert.ok(events.some((e) => e.type === "stunApplied" && e.sessionId === "a" && e.cause === "overheat"));
+});
+
+test("lethal hit emits a kill record crediting the attacker", () => {
+  const { engine, b } = duel();
+  b.mass = 3_000;
+  b.damageTakenBy.c = 500;
+  const events = runTicks(engine, 40, (i) => {
+    engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+  });
+
+  const kill = events.find((e) => e.type === "kill");
+  assert.ok(kill && kill.type === "kill");
+  assert.equal(kill.victimSessionId, "b");
+  assert.equal(kill.killerSessionId, "a");
+  assert.equal(kill.killerDisplayName, "a");
+  assert.equal(kill.cause, "bullet");
+  assert.deepEqual(kill.assists, [{ sessionId: "c", damage: 500 }]);
+  assert.ok(kill.spills.length > 0);
+  assert.ok(kill.spills.every((s) => s.lockedToSessionId === "a"));
+  assert.equal(kill.mass, kill.spills.reduce((sum, s) => sum + s.mass, 0));
+  assert.ok(events.some((e) => e.type === "playerDied" && e.sessionId === "b"));
+});
+
+test("two attackers hitting in the same tick are each credited their own damage", () => {
+  const { engine, a, b } = duel();
+  const c = engine.addPlayer({ sessionId: "c", wallet: "0x000000000000000000000000000000000000000c", displayName: "c", spawnMass: 100_000 });
+  // a and c shoot b from either side, so their bullets land on the same tick
+  b.x = 0;
+  b.y = 0;
+  a.x = -300;
+  a.y = 0;
+  c.x = 300;
+  c.y = 0;
+  let hits: EngineEvent[] = [];
+  for (let i = 0; i < 40 && hits.length === 0; i++) {
+    engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+    engine.setInput("c", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+    hits = engine.step().events.filter((e) => e.type === "bulletHit");
+  }
+
+  assert.deepEqual(
+    hits.map((e) => e.type === "bulletHit" && e.attackerSessionId),
+    ["a", "c"],
+  );
+  const [hitA, hitC] = hits;
+  assert.ok(hitA?.type === "bulletHit" && hitC?.type === "bulletHit");
+  assert.equal(b.damageTakenBy.a, hitA.damage);
+  assert.equal(b.damageTakenBy.c, hitC.damage);
+  assert.equal(b.lastDamagerSessionId, "c");
+});
+
+test("players above the wealth threshold grow a budget-funded bounty", () => {
+  const { engine, a } = duel();
+  // Headroom for the passive tax
+  a.mass = a.spawnMass * (SIM_CONFIG.bounty.thresholdMult + 0.5);
+  const events = runTicks(engine, 40);
+
+  const growth = Math.floor(a.spawnMass * SIM_CONFIG.bounty.growthPctOfSpawnPerSec);
+  const funded = events.filter((e) => e.type === "bountyFunded");
+  assert.equal(funded.length, 2);
+  assert.ok(funded.every((e) => e.type === "bountyFunded" && e.sessionId === "a" && e.mass === growth));
+  assert.equal(a.bounty, growth * 2);
+
+  const node = engine.getWorldNodes().find((n) => n.kind === "player" && n.id === a.id);
+  assert.ok(node && node.flags & NODE_FLAG_BOUNTY);
+
+  // Unfunded growth is taken back
+  engine.revokeBounty("a", growth);
+  assert.equal(a.bounty, growth);
+});
+
+test("a player whose grace expires gets no bounty growth the room can't take back", () => {
+  const { engine, a } = duel();
+  a.mass = a.spawnMass * (SIM_CONFIG.bounty.thresholdMult + 0.5);
+  // Grace runs out on a bounty tick
+  engine.markDisconnected("a", 0);
+
+  // The budget is short, so the room revokes every bountyFunded right after the step
+  let funded = 0;
+  let died = false;
+  for (let i = 0; i <= SIM_CONFIG.reconnectGraceTicks; i++) {
+    for (const e of engine.step().events) {
+      if (e.type === "playerDied" && e.sessionId === "a") died = true;
+      if (e.type !== "bountyFunded") continue;
+      funded += e.mass;
+      const before = engine.getPlayer(e.sessionId)?.bounty;
+      engine.revokeBounty(e.sessionId, e.mass);
+      assert.equal(engine.getPlayer(e.sessionId)?.bounty, (before ?? 0) - e.mass);
+    }
+  }
+
+  assert.ok(died);
+  assert.ok(funded > 0);
+  assert.equal(engine.getPlayer("a"), undefined);
+});
+
+test("a killed player's bounty spills to the killer", () => {
+  const { engine, b } = duel();
+  b.mass = 3_000;
+  b.bounty = 5_000;
+  const events = runTicks(engine, 40, (i) => {
+    engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+  });
+
+  const kill = events.find((e) => e.type === "kill");
+  assert.ok(kill && kill.type === "kill");
+  assert.equal(kill.killerSessionId, "a");
+  assert.equal(kill.bounty, 5_000);
+  assert.ok(kill.spills.every((s) => s.lockedToSessionId === "a"));
+  assert.equal(kill.mass + kill.bounty, kill.spills.reduce((sum, s) => sum + s.mass, 0));
+});
+
+test("an exiting player's bounty goes back to the budget", () => {
+  const { engine, a } = duel();
+  a.bounty = 5_000;
+  const events = runTicks(engine, SIM_CONFIG.exit.durationTicks + 20, () => {
+    engine.setInput("a", { exit: true });
+  });
+
+  assert.ok(events.some((e) => e.type === "playerExited" && e.sessionId === "a"));
+  assert.equal(a.bounty, 0);
+  const recycled = events.reduce((sum, e) => sum + (e.type === "recycleMass" ? e.mass : 0), 0);
+  assert.ok(recycled >= 5_000);
+});
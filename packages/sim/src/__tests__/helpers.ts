@@ -0,0 +1,26 @@
+import { GameEngine } from "../engine.js";
+import type { EngineEvent } from "../events.js";
+import type { GameMode } from "../modes.js";
+
+/** Two 100k players 300 units apart on the x axis: `a` on the left, `b` on the right. */
+export function duel(mode?: GameMode) {
+  const engine = new GameEngine(mode);
+  engine.seedRng(1);
+  const a = engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 100_000 });
+  const b = engine.addPlayer({ sessionId: "b", wallet: "0x000000000000000000000000000000000000000b", displayName: "b", spawnMass: 100_000 });
+  a.x = -150;
+  a.y = 0;
+  b.x = 150;
+  b.y = 0;
+  return { engine, a, b };
+}
+
+/** Step `ticks` times (calling `each` before every step) and collect the events. */
+export function runTicks(engine: GameEngine, ticks: number, each?: (tick: number) => void): EngineEvent[] {
+  const events: EngineEvent[] = [];
+  for (let i = 0; i < ticks; i++) {
+    each?.(i);
+    events.push(...engine.step().events);
+  }
+  return events;
+}
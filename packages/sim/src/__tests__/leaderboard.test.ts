@@ -0,0 +1,64 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { GameEngine } from "../engine.js";
+import { GAME_MODES } from "../modes.js";
+import { buildLeaderboard, LEADERBOARD_SIZE, rankPlayers } from "../view.js";
+
+function wallet(i: number): `0x${string}` {
+  return `0x${i.toString(16).padStart(40, "0")}`;
+}
+
+test("players are ranked by total mass, ties in join order", () => {
+  const engine = new GameEngine();
+  engine.seedRng(7);
+  const masses = [50_000, 200_000, 50_000, 120_000];
+  masses.forEach((spawnMass, i) => {
+    engine.addPlayer({ sessionId: `p${i}`, wallet: wallet(i + 1), displayName: `P${i}`, spawnMass });
+  });
+
+  const ranking = rankPlayers(engine, (mass) => String(mass * 10));
+  assert.deepEqual(
+    ranking.map((e) => [e.rank, e.sessionId]),
+    [
+      [1, "p1"],
+      [2, "p3"],
+      [3, "p0"],
+      [4, "p2"],
+    ],
+  );
+  assert.equal(ranking[0]?.valueWei, String(ranking[0]!.mass * 10));
+});
+
+test("leaderboard message carries the top entries and the receiver's own rank", () => {
+  const engine = new GameEngine();
+  engine.seedRng(7);
+  const count = LEADERBOARD_SIZE + 3;
+  for (let i = 0; i < count; i++) {
+    engine.addPlayer({ sessionId: `p${i}`, wallet: wallet(i + 1), displayName: `P${i}`, spawnMass: 100_000 - i * 1_000 });
+  }
+
+  const ranking = rankPlayers(engine, String);
+  const last = buildLeaderboard(ranking, `p${count - 1}`, 40);
+  assert.equal(last.totalPlayers, count);
+  assert.equal(last.top.length, LEADERBOARD_SIZE);
+  assert.equal(last.you?.rank, count);
+
+  const spectator = buildLeaderboard(ranking, null, 40);
+  assert.equal(spectator.you, undefined);
+  assert.equal(spectator.teams, undefined);
+});
+
+test("team modes add combined team standings", () => {
+  const engine = new GameEngine(GAME_MODES.teams);
+  engine.seedRng(7);
+  [100_000, 40_000, 30_000, 20_000].forEach((spawnMass, i) => {
+    engine.addPlayer({ sessionId: `p${i}`, wallet: wallet(i + 1), displayName: `P${i}`, spawnMass });
+  });
+
+  const leaderboard = buildLeaderboard(rankPlayers(engine, String), "p0", 20);
+  assert.equal(leaderboard.top[0]?.team, 1);
+  assert.deepEqual(leaderboard.teams, [
+    { team: 1, players: 2, mass: 130_000, valueWei: "130000" },
+    { team: 2, players: 2, mass: 60_000, valueWei: "60000" },
+  ]);
+});
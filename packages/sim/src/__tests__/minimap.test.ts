@@ -0,0 +1,31 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { SIM_CONFIG } from "../config.js";
+import { GameEngine } from "../engine.js";
+import { buildMinimap, MINIMAP_GRID_SIZE } from "../view.js";
+
+test("minimap counts players per grid cell and only lists obstacles on request", () => {
+  const engine = new GameEngine();
+  engine.seedRng(11);
+  engine.initializeObstacles(12);
+  engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 100_000 });
+  engine.addPlayer({ sessionId: "b", wallet: "0x000000000000000000000000000000000000000b", displayName: "b", spawnMass: 100_000 });
+
+  const first = buildMinimap(engine, 0, true);
+  assert.equal(first.grid.size, MINIMAP_GRID_SIZE);
+  assert.equal(first.grid.players.length, MINIMAP_GRID_SIZE * MINIMAP_GRID_SIZE);
+  assert.equal(first.grid.players.reduce((sum, n) => sum + n, 0), 2);
+  assert.equal(first.obstacles?.length, engine.obstacles.size);
+  assert.equal(first.worldRadius, SIM_CONFIG.border.worldRadiusMax);
+
+  // Player "a" is counted in the cell containing its position
+  const a = engine.getPlayer("a")!;
+  const cellSize = (first.worldRadius * 2) / MINIMAP_GRID_SIZE;
+  const cell =
+    Math.floor((a.y + first.worldRadius) / cellSize) * MINIMAP_GRID_SIZE + Math.floor((a.x + first.worldRadius) / cellSize);
+  assert.ok((first.grid.players[cell] ?? 0) >= 1);
+
+  const later = buildMinimap(engine, 40, false);
+  assert.equal(later.obstacles, undefined);
+  assert.equal(later.border.radius, engine.world.borderRadius);
+});
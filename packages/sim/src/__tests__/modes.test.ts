@@ -0,0 +1,222 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { SIM_CONFIG } from "../config.js";
+import { GameEngine } from "../engine.js";
+import { GAME_MODES, type GameMode } from "../modes.js";
+import { ReplayRecorder, playReplay, type ReplayFile } from "../replay.js";
+import { duel, runTicks } from "./helpers.js";
+
+function firstShot(mode?: GameMode) {
+  const { engine, b } = duel(mode);
+  const events = runTicks(engine, 40, (i) => {
+    engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+  });
+  const fired = events.find((e) => e.type === "bulletFired");
+  const hit = events.find((e) => e.type === "bulletHit");
+  assert.ok(fired && fired.type === "bulletFired");
+  assert.ok(hit && hit.type === "bulletHit");
+  return { fired, hit };
+}
+
+test("sudden death keeps players from exiting while anyone else is alive", () => {
+  const { engine } = duel(GAME_MODES.suddenDeath);
+  const events = runTicks(engine, 20, () => engine.setInput("a", { exit: true }));
+  assert.ok(!events.some((e) => e.type === "exitStarted"));
+
+  engine.removePlayer("b");
+  const after = runTicks(engine, 5, () => engine.setInput("a", { exit: true }));
+  assert.ok(after.some((e) => e.type === "exitStarted" && e.sessionId === "a"));
+});
+
+test("sudden death spawns no pellets", () => {
+  const { engine } = duel(GAME_MODES.suddenDeath);
+  const events = runTicks(engine, 100);
+  assert.ok(!events.some((e) => e.type === "pelletSpawned"));
+});
+
+test("high stakes scales shot cost and damage", () => {
+  const classic = firstShot();
+  const highStakes = firstShot(GAME_MODES.highStakes);
+  assert.equal(highStakes.fired.costMass, classic.fired.costMass * 2);
+  assert.equal(highStakes.hit.damage, Math.floor(classic.hit.damage * 1.5));
+});
+
+test("a custom mode's damage hook can cancel hits", () => {
+  const { engine, b } = duel({ id: "classic", onDamage: () => 0 });
+  const events = runTicks(engine, 40, (i) => {
+    engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+  });
+  assert.ok(events.some((e) => e.type === "bulletFired"));
+  assert.ok(!events.some((e) => e.type === "bulletHit"));
+  assert.ok(!events.some((e) => e.type === "spillSpawned"));
+});
+
+test("the damage hook runs for each bullet with its own shooter", () => {
+  const seen: string[] = [];
+  const { engine, a, b } = duel({
+    id: "classic",
+    onDamage: (_engine, _target, damage, attacker) => {
+      if (attacker) seen.push(attacker.sessionId);
+      return attacker?.sessionId === "c" ? 0 : damage;
+    },
+  });
+  const c = engine.addPlayer({ sessionId: "c", wallet: "0x000000000000000000000000000000000000000c", displayName: "c", spawnMass: 100_000 });
+  b.x = 0;
+  a.x = -300;
+  c.x = 300;
+  a.y = b.y = c.y = 0;
+  const events = runTicks(engine, 40, (i) => {
+    engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+    engine.setInput("c", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+  });
+  assert.deepEqual(seen, ["a", "c"]);
+  const hits = events.filter((e) => e.type === "bulletHit");
+  assert.deepEqual(
+    hits.map((e) => e.type === "bulletHit" && e.attackerSessionId),
+    ["a"],
+  );
+});
+
+test("replays play back under the mode they were recorded with", () => {
+  const engine = new GameEngine(GAME_MODES.highStakes);
+  const recorder = new ReplayRecorder({ roomId: "test" });
+  engine.setRecorder(recorder);
+  engine.seedRng(7);
+  engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 100_000 });
+  engine.addPlayer({ sessionId: "b", wallet: "0x000000000000000000000000000000000000000b", displayName: "b", spawnMass: 100_000 });
+  runTicks(engine, 120, (i) => {
+    const b = engine.getPlayer("b");
+    if (b) engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i % 12 < 8 });
+  });
+
+  const replay = JSON.parse(JSON.stringify(recorder.toFile(engine))) as ReplayFile;
+  assert.equal(replay.meta.mode, "highStakes");
+  assert.deepEqual(playReplay(replay), { ok: true, ticks: 120, finalHash: replay.finalHash });
+});
+
+test("team replays catch a player replayed onto another team", () => {
+  const engine = new GameEngine(GAME_MODES.teams);
+  const recorder = new ReplayRecorder({ roomId: "test" });
+  engine.setRecorder(recorder);
+  engine.seedRng(7);
+  engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 100_000 });
+  engine.addPlayer({ sessionId: "b", wallet: "0x000000000000000000000000000000000000000b", displayName: "b", spawnMass: 100_000 });
+  runTicks(engine, 40);
+
+  const replay = JSON.parse(JSON.stringify(recorder.toFile(engine))) as ReplayFile;
+  assert.deepEqual(playReplay(replay), { ok: true, ticks: 40, finalHash: replay.finalHash });
+
+  const add = replay.frames[0]?.commands?.find((c) => c.op === "addPlayer" && c.sessionId === "b");
+  assert.ok(add && add.op === "addPlayer");
+  add.team = 1;
+  assert.equal(playReplay(replay).ok, false);
+});
+
+test("teams balance new players and honor a requested team", () => {
+  const engine = new GameEngine(GAME_MODES.teams);
+  const wallet = "0x000000000000000000000000000000000000000a" as const;
+  const a = engine.addPlayer({ sessionId: "a", wallet, displayName: "a", spawnMass: 100_000 });
+  const b = engine.addPlayer({ sessionId: "b", wallet, displayName: "b", spawnMass: 100_000 });
+  const c = engine.addPlayer({ sessionId: "c", wallet, displayName: "c", spawnMass: 100_000, team: a.team });
+  assert.equal(a.team, 1);
+  assert.equal(b.team, 2);
+  assert.equal(c.team, 1);
+  assert.equal(engine.addPlayer({ sessionId: "d", wallet, displayName: "d", spawnMass: 100_000 }).team, 2);
+  assert.equal(duel().a.team, undefined);
+});
+
+test("teammates' bullets don't damage each other", () => {
+  const engine = new GameEngine(GAME_MODES.teams);
+  engine.seedRng(1);
+  const a = engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 100_000 });
+  const b = engine.addPlayer({ sessionId: "b", wallet: "0x000000000000000000000000000000000000000b", displayName: "b", spawnMass: 100_000, team: a.team });
+  a.x = -150;
+  b.x = 150;
+  const events = runTicks(engine, 40, (i) => engine.setInput("a", { aimX: b.x, aimY: b.y, shoot: i < 10 }));
+  assert.ok(events.some((e) => e.type === "bulletFired"));
+  assert.ok(!events.some((e) => e.type === "bulletHit"));
+});
+
+test("an enemy's hit lands when a teammate hits the same target in the same tick", () => {
+  const engine = new GameEngine(GAME_MODES.teams);
+  engine.seedRng(1);
+  const b = engine.addPlayer({ sessionId: "b", wallet: "0x000000000000000000000000000000000000000b", displayName: "b", spawnMass: 100_000, team: 1 });
+  const mate = engine.addPlayer({ sessionId: "mate", wallet: "0x000000000000000000000000000000000000000a", displayName: "mate", spawnMass: 100_000, team: 1 });
+  const enemy = engine.addPlayer({ sessionId: "enemy", wallet: "0x000000000000000000000000000000000000000c", displayName: "enemy", spawnMass: 100_000, team: 2 });
+  b.x = 0;
+  mate.x = -300;
+  enemy.x = 300;
+  b.y = mate.y = enemy.y = 0;
+  const events = runTicks(engine, 40, (i) => {
+    engine.setInput("mate", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+    engine.setInput("enemy", { aimX: b.x, aimY: b.y, shoot: i < 10 });
+  });
+
+  const hits = events.filter((e) => e.type === "bulletHit");
+  assert.deepEqual(
+    hits.map((e) => e.type === "bulletHit" && e.attackerSessionId),
+    ["enemy"],
+  );
+  assert.equal(b.damageTakenBy.mate, undefined);
+  assert.ok((b.damageTakenBy.enemy ?? 0) > 0);
+});
+
+test("teammates exiting together charge their exits faster, and enemies nearby don't block them", () => {
+  const exitTicks = (withMate: boolean) => {
+    const engine = new GameEngine(GAME_MODES.teams);
+    engine.seedRng(1);
+    const a = engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 100_000, team: 1 });
+    const enemy = engine.addPlayer({ sessionId: "enemy", wallet: "0x000000000000000000000000000000000000000c", displayName: "enemy", spawnMass: 100_000, team: 2 });
+    a.x = 0;
+    a.y = 0;
+    enemy.x = 200;
+    enemy.y = 0;
+    if (withMate) {
+      const mate = engine.addPlayer({ sessionId: "mate", wallet: "0x000000000000000000000000000000000000000b", displayName: "mate", spawnMass: 100_000, team: 1 });
+      mate.x = 0;
+      mate.y = 200;
+    }
+    for (let tick = 1; tick <= 100; tick++) {
+      engine.setInput("a", { exit: true });
+      if (withMate) engine.setInput("mate", { exit: true });
+      if (engine.step().events.some((e) => e.type === "playerExited" && e.sessionId === "a")) return tick;
+    }
+    return Infinity;
+  };
+
+  const alone = exitTicks(false);
+  assert.equal(alone, SIM_CONFIG.exit.durationTicks);
+  assert.ok(exitTicks(true) < alone);
+});
+
+test("a fallen player's spills are open to their team right away", () => {
+  const engine = new GameEngine(GAME_MODES.teams);
+  engine.seedRng(1);
+  const wallet = "0x000000000000000000000000000000000000000a" as const;
+  const victim = engine.addPlayer({ sessionId: "victim", wallet, displayName: "victim", spawnMass: 100_000 });
+  const enemy = engine.addPlayer({ sessionId: "enemy", wallet, displayName: "enemy", spawnMass: 100_000 });
+  const mate = engine.addPlayer({ sessionId: "mate", wallet, displayName: "mate", spawnMass: 100_000, team: victim.team });
+  victim.x = 0;
+  victim.y = 0;
+  enemy.x = 2000;
+  mate.x = 0;
+  mate.y = 400;
+  victim.mass = 1;
+
+  const died = runTicks(engine, 1);
+  const kill = died.find((e) => e.type === "kill");
+  assert.ok(kill && kill.type === "kill");
+  assert.ok(kill.spills.length > 0);
+  const spill = engine.pickups.get(kill.spills[0]?.id ?? -1);
+  assert.ok(spill);
+  assert.equal(spill.lockTeam, victim.team);
+
+  // Still locked to the victim, but the teammate standing on it may collect it
+  spill.x = mate.x;
+  spill.y = mate.y;
+  spill.vx = 0;
+  spill.vy = 0;
+  const collected = runTicks(engine, 20);
+  assert.ok(collected.some((e) => e.type === "pickupCollected" && e.sessionId === "mate" && e.pickupId === spill.id));
+  assert.ok(engine.world.tick < (spill.unlockTick ?? 0));
+});
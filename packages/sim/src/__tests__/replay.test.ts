@@ -0,0 +1,105 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { GameEngine } from "../engine.js";
+import { joinReplaySegments, ReplayRecorder, playReplay, type ReplayFile, type ReplaySegment } from "../replay.js";
+
+function recordMatch(ticks: number): ReplayFile {
+  const engine = new GameEngine();
+  const recorder = new ReplayRecorder({ roomId: "test" });
+  engine.setRecorder(recorder);
+
+  engine.seedRng(12345);
+  engine.initializeObstacles(20);
+  engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 100_000 });
+  engine.addPlayer({ sessionId: "b", wallet: "0x000000000000000000000000000000000000000b", displayName: "b", spawnMass: 100_000 });
+
+  for (let i = 0; i < ticks; i++) {
+    const a = engine.getPlayer("a");
+    const b = engine.getPlayer("b");
+    if (a && b) {
+      engine.setInput("a", { d: i % 40 < 20, w: i % 30 < 10, aimX: b.x, aimY: b.y, shoot: i % 12 < 8 });
+      engine.setInput("b", { a: i % 50 < 25, aimX: a.x, aimY: a.y, dash: i % 60 < 15 });
+    }
+    if (i === 70) engine.markDisconnected("b", engine.world.tick);
+    if (i === 90) engine.markReconnected("b");
+    engine.step();
+  }
+
+  // JSON round trip, as if loaded from disk
+  return JSON.parse(JSON.stringify(recorder.toFile(engine))) as ReplayFile;
+}
+
+test("replay reproduces the recorded world hash", () => {
+  const replay = recordMatch(200);
+  assert.equal(replay.endTick, 200);
+  assert.ok(replay.frames.some((f) => f.hash));
+
+  const result = playReplay(replay);
+  assert.deepEqual(result, { ok: true, ticks: 200, finalHash: replay.finalHash });
+});
+
+test("replay detects a tampered input", () => {
+  const replay = recordMatch(200);
+  const frame = replay.frames.find((f) => f.tick > 0 && f.commands?.some((c) => c.op === "setInput"));
+  assert.ok(frame?.commands);
+  const cmd = frame.commands.find((c) => c.op === "setInput");
+  assert.ok(cmd && cmd.op === "setInput");
+  cmd.input = { ...cmd.input, s: true };
+
+  const result = playReplay(replay);
+  assert.equal(result.ok, false);
+});
+
+test("a recording flushed in segments plays back once joined", () => {
+  const engine = new GameEngine();
+  const recorder = new ReplayRecorder({ roomId: "test" });
+  engine.setRecorder(recorder);
+  engine.seedRng(12345);
+  engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 100_000 });
+
+  const segments: ReplaySegment[] = [];
+  for (let i = 0; i < 150; i++) {
+    engine.step();
+    if (i % 50 === 49) segments.push(recorder.flush(engine));
+    // Lands at the tick just flushed, so it belongs to the next segment
+    engine.setInput("a", { d: i % 40 < 20, w: i % 30 < 10 });
+  }
+  segments.push(recorder.flush(engine));
+  assert.throws(() => recorder.toFile(engine));
+
+  const replay = joinReplaySegments(JSON.parse(JSON.stringify([...segments].reverse())) as ReplaySegment[]);
+  assert.equal(replay.endTick, 150);
+  assert.deepEqual(playReplay(replay), { ok: true, ticks: 150, finalHash: replay.finalHash });
+  assert.throws(() => joinReplaySegments(segments.filter((s) => s.segment !== 1)));
+});
+
+test("replay covers bounties and catches a dropped bounty revoke", () => {
+  const engine = new GameEngine();
+  const recorder = new ReplayRecorder({ roomId: "test" });
+  engine.setRecorder(recorder);
+  engine.seedRng(5);
+  const hunter = engine.addPlayer({ sessionId: "a", wallet: "0x000000000000000000000000000000000000000a", displayName: "a", spawnMass: 20_000 });
+  const prey = engine.addPlayer({ sessionId: "b", wallet: "0x000000000000000000000000000000000000000b", displayName: "b", spawnMass: 400_000 });
+
+  // The hunter farms the prey past the bounty threshold
+  for (let i = 0; i < 500; i++) {
+    engine.setInput("a", {
+      aimX: prey.x,
+      aimY: prey.y,
+      shoot: i % 12 < 8,
+      d: hunter.x < prey.x - 60,
+      a: hunter.x > prey.x + 60,
+      s: hunter.y < prey.y - 60,
+      w: hunter.y > prey.y + 60,
+    });
+    engine.step();
+    if (i === 450) engine.revokeBounty("a", 400);
+  }
+  assert.ok(hunter.bounty > 0);
+
+  const replay = JSON.parse(JSON.stringify(recorder.toFile(engine))) as ReplayFile;
+  assert.deepEqual(playReplay(replay), { ok: true, ticks: 500, finalHash: replay.finalHash });
+
+  for (const frame of replay.frames) frame.commands = frame.commands?.filter((c) => c.op !== "revokeBounty");
+  assert.equal(playReplay(replay).ok, false);
+});
@@ -0,0 +1,155 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { decodeWorldDelta, diffNode, encodeWorldDelta, POSITION_QUANT, StringInterner } from "../wire.js";
+import type { NodeDto, WorldDeltaDto } from "../protocol.js";
+
+const player: NodeDto = {
+  kind: "player",
+  id: 7,
+  ownerSessionId: "sess-a",
+  displayName: "Alice ✦",
+  x: -1234.5,
+  y: 987.25,
+  radius: 42.125,
+  mass: 123_456,
+  spawnMass: 100_000,
+  color: { r: 10, g: 200, b: 255 },
+  flags: 3,
+  exitProgress: 0.5,
+  vx: -3.21,
+  vy: 4.5,
+  aimX: 100.5,
+  aimY: -200.25,
+  dashChargeRatio: 1,
+  shootChargeRatio: 0,
+  dashCooldownTicks: 12,
+  dashActiveTicks: 0,
+  stunTicks: 3,
+  slowTicks: 0,
+  shootRecoveryTicks: 5,
+  exitCombatTagTicks: 0,
+  hitFlashTicks: 2,
+  bounty: 150,
+  team: 2,
+};
+
+function delta(nodes: NodeDto[], tick = 1): WorldDeltaDto {
+  return {
+    tick,
+    nodes,
+    removedIds: [1, 300, 1_000_000_123],
+    ownedIds: [7],
+    border: { radius: 700, targetRadius: 650, velocity: -0.5 },
+  };
+}
+
+test("binary delta round-trips every node kind", () => {
+  const nodes: NodeDto[] = [
+    player,
+    { kind: "bullet", id: 8, x: 1, y: 2, radius: 6, flags: 0 },
+    { kind: "pellet", id: 9, x: 3, y: 4, radius: 5, mass: 250, flags: 0 },
+    { kind: "spill", id: 10, x: 5, y: 6, radius: 7, mass: 900, attackerSessionId: "sess-b", victimSessionId: "sess-a", unlockTick: 4000, flags: 0 },
+    { kind: "spill", id: 11, x: 5, y: 6, radius: 7, mass: 900, flags: 0 },
+    { kind: "spillCluster", id: 1_000_000_001, x: -7, y: -8, radius: 30, mass: 5000, count: 12, flags: 0 },
+    { kind: "obstacle", id: 12, x: 400, y: -400, radius: 120, flags: 0 },
+  ];
+  const decoded = decodeWorldDelta(encodeWorldDelta(delta(nodes), new StringInterner()), new Map());
+
+  assert.equal(decoded.tick, 1);
+  assert.deepEqual(decoded.removedIds, [1, 300, 1_000_000_123]);
+  assert.deepEqual(decoded.ownedIds, [7]);
+  assert.deepEqual(decoded.border, { radius: 700, targetRadius: 650, velocity: -0.5 });
+  // Inputs above sit on the quantization grid, so they decode to what the JSON path would send
+  assert.deepEqual(JSON.parse(JSON.stringify(decoded.nodes.slice(1))), nodes.slice(1));
+
+  const p = decoded.nodes[0];
+  assert.ok(p && p.kind === "player");
+  assert.equal(p.displayName, "Alice ✦");
+  assert.equal(p.ownerSessionId, "sess-a");
+  assert.equal(p.x, -1234.5);
+  assert.equal(p.radius, 42.125);
+  assert.equal(p.vx, -3.21);
+  assert.ok(Math.abs((p.exitProgress ?? 0) - 0.5) <= 1 / 255);
+  assert.equal(p.dashChargeRatio, 1);
+  assert.equal(p.hitFlashTicks, 2);
+  assert.equal(p.bounty, 150);
+  assert.equal(p.team, 2);
+});
+
+test("positions are quantized to the wire grid", () => {
+  const decoded = decodeWorldDelta(
+    encodeWorldDelta(delta([{ kind: "bullet", id: 1, x: 10.06, y: -10.06, radius: 3.3, flags: 0 }]), new StringInterner()),
+    new Map(),
+  );
+  const b = decoded.nodes[0];
+  assert.ok(b);
+  assert.ok(Math.abs(b.x - 10.06) <= 0.5 / POSITION_QUANT);
+  assert.ok(Math.abs(b.y + 10.06) <= 0.5 / POSITION_QUANT);
+});
+
+test("strings are sent once per client until the table resets", () => {
+  const strings = new StringInterner();
+  const received = new Map<number, string>();
+
+  const first = encodeWorldDelta(delta([player], 1), strings);
+  const second = encodeWorldDelta(delta([player], 2), strings);
+  assert.ok(second.length < first.length);
+
+  decodeWorldDelta(first, received);
+  const decoded = decodeWorldDelta(second, received);
+  const p = decoded.nodes[0];
+  assert.ok(p && p.kind === "player");
+  assert.equal(p.displayName, "Alice ✦");
+
+  strings.reset();
+  assert.equal(encodeWorldDelta(delta([player], 3), strings).length, first.length);
+});
+
+test("binary delta is much smaller than JSON", () => {
+  const nodes: NodeDto[] = [];
+  for (let i = 0; i < 200; i++) {
+    nodes.push({ kind: "pellet", id: 100 + i, x: i * 13.37, y: -i * 7.1, radius: 8, mass: 250, flags: 0 });
+  }
+  const bytes = encodeWorldDelta(delta(nodes), new StringInterner());
+  assert.ok(bytes.length * 4 < JSON.stringify(delta(nodes)).length);
+});
+
+test("diffNode keeps only fields that changed at wire precision", () => {
+  const pellet: NodeDto = { kind: "pellet", id: 9, x: 3, y: 4, radius: 5, mass: 250, flags: 0 };
+  assert.equal(diffNode(pellet, { ...pellet, x: 3.01 }), null);
+
+  const moved = { ...player, x: player.x + 2, vx: 1.5, stunTicks: 0 };
+  assert.deepEqual(diffNode(player, moved), { kind: "player", id: 7, x: moved.x, vx: 1.5, stunTicks: 0 });
+});
+
+test("patches round-trip with their field masks", () => {
+  const strings = new StringInterner();
+  const received = new Map<number, string>();
+  decodeWorldDelta(encodeWorldDelta({ ...delta([player]), keyframe: true }, strings), received);
+
+  const renamed = { ...player, displayName: "Bob", hitFlashTicks: 0 };
+  const patch = diffNode(player, renamed);
+  assert.ok(patch);
+  const decoded = decodeWorldDelta(encodeWorldDelta({ ...delta([], 2), patches: [patch] }, strings), received);
+
+  assert.equal(decoded.keyframe, false);
+  assert.deepEqual(decoded.nodes, []);
+  assert.deepEqual(decoded.patches, [{ kind: "player", id: 7, displayName: "Bob", hitFlashTicks: 0 }]);
+});
+
+test("input ack survives the round trip and is omitted when absent", () => {
+  const acked = decodeWorldDelta(encodeWorldDelta({ ...delta([]), ackClientTick: 4242 }, new StringInterner()), new Map());
+  assert.equal(acked.ackClientTick, 4242);
+  const plain = decodeWorldDelta(encodeWorldDelta(delta([]), new StringInterner()), new Map());
+  assert.equal(plain.ackClientTick, undefined);
+});
+
+test("spectator view survives the round trip with and without a followed player", () => {
+  const following = { x: 120.5, y: -64.25, followId: 7 };
+  const decoded = decodeWorldDelta(encodeWorldDelta({ ...delta([]), spectator: following }, new StringInterner()), new Map());
+  assert.deepEqual(decoded.spectator, following);
+
+  const free = decodeWorldDelta(encodeWorldDelta({ ...delta([]), spectator: { x: -10, y: 3 } }, new StringInterner()), new Map());
+  assert.deepEqual(free.spectator, { x: -10, y: 3 });
+  assert.equal(decodeWorldDelta(encodeWorldDelta(delta([]), new StringInterner()), new Map()).spectator, undefined);
+});
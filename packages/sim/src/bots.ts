@@ -0,0 +1,321 @@
+import { SIM_CONFIG } from "./config.js";
+import { clamp, distanceSq } from "./math.js";
+import { createRng, nextFloat, nextRange, type RngState } from "./rng.js";
+import type { GameEngine } from "./engine.js";
+import type { PlayerInput, PlayerState } from "./state.js";
+
+/**
+ * Server-side bots.
+ *
+ * Bots play through the exact same path as humans: every tick they read the
+ * engine's world state and call `engine.setInput()` with a PlayerInput. They own
+ * a private RNG so adding bots never perturbs the engine's own RNG stream.
+ */
+
+export type BotDifficulty = "easy" | "normal" | "hard";
+
+export type BotProfile = {
+  /** Ticks between re-evaluating targets (lower = snappier). */
+  reactionTicks: number;
+  /** Max aim error in world units at the target. */
+  aimJitter: number;
+  /** Fraction of target velocity used to lead shots (0 = aim at current position). */
+  aimLead: number;
+  /** Enemies closer than this are engaged. */
+  aggroRange: number;
+  /** Shot charge hold range (ticks), rolled per shot. */
+  shootHoldTicks: [number, number];
+  /** Chance per decision to start a dash when an enemy is in range. */
+  dashChance: number;
+  /** Dash charge hold (ticks). Kept below the overheat threshold. */
+  dashHoldTicks: number;
+  /** Start exiting once mass reaches spawnMass * this multiple. */
+  exitMassMultiple: number;
+  /** Back off when below spawnMass * this ratio. */
+  fleeMassRatio: number;
+};
+
+export const BOT_PROFILES: Record<BotDifficulty, BotProfile> = {
+  easy: {
+    reactionTicks: 12,
+    aimJitter: 140,
+    aimLead: 0,
+    aggroRange: 500,
+    shootHoldTicks: [4, 10],
+    dashChance: 0.02,
+    dashHoldTicks: 6,
+    exitMassMultiple: 1.5,
+    fleeMassRatio: 0,
+  },
+  normal: {
+    reactionTicks: 6,
+    aimJitter: 60,
+    aimLead: 0.5,
+    aggroRange: 700,
+    shootHoldTicks: [8, 18],
+    dashChance: 0.08,
+    dashHoldTicks: 12,
+    exitMassMultiple: 2,
+    fleeMassRatio: 0.6,
+  },
+  hard: {
+    reactionTicks: 2,
+    aimJitter: 15,
+    aimLead: 1,
+    aggroRange: 900,
+    shootHoldTicks: [12, 24],
+    dashChance: 0.15,
+    dashHoldTicks: 18,
+    exitMassMultiple: 3,
+    fleeMassRatio: 0.75,
+  },
+};
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return value === "easy" || value === "normal" || value === "hard";
+}
+
+type BotBrain = {
+  sessionId: string;
+  profile: BotProfile;
+  nextDecisionTick: number;
+  targetSessionId: string | null;
+  moveX: number;
+  moveY: number;
+  aimX: number;
+  aimY: number;
+  aimErrX: number;
+  aimErrY: number;
+  shootHold: number;
+  shootHoldGoal: number;
+  dashHold: number;
+  exiting: boolean;
+};
+
+export class BotController {
+  private readonly rng: RngState;
+  private readonly brains = new Map<string, BotBrain>();
+
+  constructor(seed: number) {
+    this.rng = createRng(seed);
+  }
+
+  get size(): number {
+    return this.brains.size;
+  }
+
+  has(sessionId: string): boolean {
+    return this.brains.has(sessionId);
+  }
+
+  sessionIds(): string[] {
+    return [...this.brains.keys()];
+  }
+
+  add(sessionId: string, difficulty: BotDifficulty) {
+    this.brains.set(sessionId, {
+      sessionId,
+      profile: BOT_PROFILES[difficulty],
+      nextDecisionTick: 0,
+      targetSessionId: null,
+      moveX: 0,
+      moveY: 0,
+      aimX: 0,
+      aimY: 0,
+      aimErrX: 0,
+      aimErrY: 0,
+      shootHold: 0,
+      shootHoldGoal: 0,
+      dashHold: 0,
+      exiting: false,
+    });
+  }
+
+  remove(sessionId: string) {
+    this.brains.delete(sessionId);
+  }
+
+  /**
+   * Drive every bot for the upcoming tick. Call right before `engine.step()`.
+   */
+  update(engine: GameEngine) {
+    for (const brain of this.brains.values()) {
+      const self = engine.getPlayer(brain.sessionId);
+      if (!self || !self.alive) continue;
+      engine.setInput(brain.sessionId, this.think(engine, brain, self));
+    }
+  }
+
+  private think(engine: GameEngine, brain: BotBrain, self: PlayerState): PlayerInput {
+    const tick = engine.world.tick;
+    const profile = brain.profile;
+
+    if (tick >= brain.nextDecisionTick) {
+      brain.nextDecisionTick = tick + profile.reactionTicks;
+      this.decide(engine, brain, self);
+    }
+
+    const target = brain.targetSessionId ? engine.getPlayer(brain.targetSessionId) : undefined;
+    const engaged = !!target && target.alive && !brain.exiting;
+
+    // Keep tracking the target between decisions (aim error is re-rolled on decide)
+    if (engaged && target) {
+      brain.aimX = target.x + target.vx * profile.aimLead * brain.shootHoldGoal + brain.aimErrX;
+      brain.aimY = target.y + target.vy * profile.aimLead * brain.shootHoldGoal + brain.aimErrY;
+    }
+
+    // Shooting: hold for the rolled charge, then release for one tick
+    let shoot = false;
+    if (engaged && self.stunTicks <= 0) {
+      if (brain.shootHold < brain.shootHoldGoal) {
+        brain.shootHold += 1;
+        shoot = true;
+      } else {
+        brain.shootHold = 0;
+        brain.shootHoldGoal = this.rollShootHold(profile);
+      }
+    } else {
+      brain.shootHold = 0;
+    }
+
+    // Dashing: hold up to the profile's charge (never into overheat), then release
+    let dash = false;
+    if (brain.dashHold > 0) {
+      if (brain.dashHold < profile.dashHoldTicks) {
+        brain.dashHold += 1;
+        dash = true;
+      } else {
+        brain.dashHold = 0;
+      }
+    }
+
+    // Border avoidance: steer back towards the centre when near the edge
+    let moveX = brain.moveX;
+    let moveY = brain.moveY;
+    const distFromCenter = Math.hypot(self.x, self.y);
+    if (distFromCenter > engine.world.borderRadius * 0.85 && distFromCenter > 0.0001) {
+      moveX = -self.x / distFromCenter;
+      moveY = -self.y / distFromCenter;
+    }
+
+    return {
+      w: moveY < -0.3,
+      s: moveY > 0.3,
+      a: moveX < -0.3,
+      d: moveX > 0.3,
+      aimX: brain.aimX,
+      aimY: brain.aimY,
+      shoot,
+      dash,
+      exit: brain.exiting,
+    };
+  }
+
+  private decide(engine: GameEngine, brain: BotBrain, self: PlayerState) {
+    const profile = brain.profile;
+
+    // Cash out once the bot is comfortably ahead. Stop fighting while the beacon charges.
+    brain.exiting = self.mass >= self.spawnMass * profile.exitMassMultiple;
+    if (brain.exiting) {
+      brain.targetSessionId = null;
+      brain.moveX = 0;
+      brain.moveY = 0;
+      return;
+    }
+
+    // Nearest enemy within aggro range (teammates aren't enemies in team modes)
+    const teams = (engine.mode.teamCount ?? 0) > 0;
+    let target: PlayerState | null = null;
+    let bestSq = profile.aggroRange * profile.aggroRange;
+    for (const p of engine.players.values()) {
+      if (p === self || !p.alive) continue;
+      if (teams && p.team === self.team) continue;
+      const dSq = distanceSq(self.x, self.y, p.x, p.y);
+      if (dSq < bestSq) {
+        bestSq = dSq;
+        target = p;
+      }
+    }
+
+    if (target) {
+      if (brain.targetSessionId !== target.sessionId) {
+        brain.shootHold = 0;
+        brain.shootHoldGoal = this.rollShootHold(profile);
+      }
+      brain.targetSessionId = target.sessionId;
+      brain.aimErrX = this.jitter(profile.aimJitter);
+      brain.aimErrY = this.jitter(profile.aimJitter);
+      const dist = Math.sqrt(bestSq) || 1;
+      const dx = (target.x - self.x) / dist;
+      const dy = (target.y - self.y) / dist;
+      const weak = self.mass < self.spawnMass * profile.fleeMassRatio;
+      const preferred = weak ? profile.aggroRange : profile.aggroRange * 0.45;
+      if (dist > preferred * 1.15) {
+        brain.moveX = dx;
+        brain.moveY = dy;
+      } else if (dist < preferred * 0.85) {
+        brain.moveX = -dx;
+        brain.moveY = -dy;
+      } else {
+        // Strafe around the target
+        const dir = nextFloat(this.rng) < 0.5 ? 1 : -1;
+        brain.moveX = -dy * dir;
+        brain.moveY = dx * dir;
+      }
+
+      const canDash = self.dashCooldownTicks <= 0 && self.stunTicks <= 0 && brain.dashHold === 0;
+      if (canDash && !weak && nextFloat(this.rng) < profile.dashChance) {
+        brain.dashHold = 1;
+        brain.moveX = dx;
+        brain.moveY = dy;
+      }
+      return;
+    }
+
+    brain.targetSessionId = null;
+    this.seekPickup(engine, brain, self);
+  }
+
+  private seekPickup(engine: GameEngine, brain: BotBrain, self: PlayerState) {
+    let best: { x: number; y: number } | null = null;
+    let bestScore = -Infinity;
+    const searchSq = SIM_CONFIG.viewBaseRadius * SIM_CONFIG.viewBaseRadius;
+    for (const pickup of engine.pickups.values()) {
+      const dSq = distanceSq(self.x, self.y, pickup.x, pickup.y);
+      if (dSq > searchSq) continue;
+      const score = pickup.mass / Math.max(1, Math.sqrt(dSq));
+      if (score > bestScore) {
+        bestScore = score;
+        best = pickup;
+      }
+    }
+
+    if (best) {
+      const dx = best.x - self.x;
+      const dy = best.y - self.y;
+      const dist = Math.hypot(dx, dy) || 1;
+      brain.moveX = dx / dist;
+      brain.moveY = dy / dist;
+      brain.aimX = best.x;
+      brain.aimY = best.y;
+      return;
+    }
+
+    // Wander
+    const angle = nextRange(this.rng, 0, Math.PI * 2);
+    brain.moveX = Math.cos(angle);
+    brain.moveY = Math.sin(angle);
+    brain.aimX = self.x + brain.moveX * 200;
+    brain.aimY = self.y + brain.moveY * 200;
+  }
+
+  private rollShootHold(profile: BotProfile): number {
+    const [min, max] = profile.shootHoldTicks;
+    const chargeMaxTicks = Math.round(SIM_CONFIG.shooting.chargeTimeMs / SIM_CONFIG.tickMs);
+    return clamp(Math.round(nextRange(this.rng, min, max)), 1, chargeMaxTicks);
+  }
+
+  private jitter(amount: number): number {
+    return amount > 0 ? nextRange(this.rng, -amount, amount) : 0;
+  }
+}
@@ -36,6 +36,9 @@ export const SIM_CONFIG = {
   inputStaleTicks: 4,
   reconnectGraceTicks: 200,
 
+  // Kill attribution: a death within this many ticks of the last hit credits the last damager
+  killCreditTicks: 100,
+
   // Interest management
   viewBaseRadius: 900,
   viewMinRadius: 700,
@@ -175,6 +178,26 @@ export const SIM_CONFIG = {
     hitFlashTicks: 3,
   },
 
+  // Bounties: rich players carry extra value, funded from the budget, that spills to whoever kills them
+  bounty: {
+    thresholdMult: 3,            // Wanted at >= 3x spawn mass
+    growthPctOfSpawnPerSec: 0.02,
+    maxPctOfSpawn: 0.5,
+  },
+
+  // Rule variants (see modes.ts); the classic mode uses none of these
+  modes: {
+    teams: {
+      count: 2,
+    },
+    highStakes: {
+      damageMult: 1.5,
+      actionCostMult: 2,
+      roundTicks: 20 * 60 * 5,     // The arena shrinks over a 5 min round, then reopens
+      minRadiusFrac: 0.35,         // ...down to this fraction of the usual border target
+    },
+  },
+
   spill: {
     ejectDistMin: 60,
     ejectDistMax: 100,
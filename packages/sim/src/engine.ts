@@ -1,12 +1,18 @@
 import { SIM_CONFIG, getTargetBorderRadius } from "./config.js";
-import { EngineTickResult, type EngineEvent } from "./events.js";
+import {
+  EngineTickResult,
+  type EngineEvent,
+  type ExitInterruptReason,
+  type KillAssist,
+  type KillCause,
+  type KillSpill,
+} from "./events.js";
 import { createRng, nextRange } from "./rng.js";
 import {
   clamp,
   distanceSq,
   lerp,
   massToRadius,
-  mobilityMultiplier,
   randomAngleRad,
   segmentCircleIntersects,
 } from "./math.js";
@@ -19,6 +25,20 @@ import type {
   WorldState,
 } from "./state.js";
 import { SpatialGrid } from "./spatial/grid.js";
+import type { ReplayRecorder } from "./replay.js";
+import { GAME_MODES, pickTeam, type GameMode, type PlayerAction } from "./modes.js";
+import { SNAPSHOT_VERSION, type EngineSnapshot } from "./snapshot.js";
+import { NODE_FLAG_BOUNTY, NODE_FLAG_DASHING, NODE_FLAG_EXITING, NODE_FLAG_STUNNED } from "./protocol.js";
+import {
+  accelerate,
+  applyFriction,
+  bounceOffBorder,
+  clampToBorder,
+  dampForExit,
+  integratePosition,
+  movementSpeedMod,
+  resolveObstacleCollision,
+} from "./movement.js";
 
 export type WorldNode =
   | {
@@ -47,6 +67,8 @@ export type WorldNode =
       shootRecoveryTicks?: number;
       exitCombatTagTicks?: number;
       hitFlashTicks?: number;
+      bounty?: number;
+      team?: number;
     }
   | { kind: "bullet"; id: number; x: number; y: number; radius: number; flags: number }
   | { kind: "pellet"; id: number; x: number; y: number; radius: number; mass: number; flags: number }
@@ -64,14 +86,14 @@ export type WorldNode =
     }
   | { kind: "obstacle"; id: number; x: number; y: number; radius: number; flags: number };
 
-const FLAG_DASHING = 1 << 0;
-const FLAG_STUNNED = 1 << 1;
-const FLAG_EXITING = 1 << 2;
-
 export class GameEngine {
   private nextId = 1;
   private readonly grid = new SpatialGrid(SIM_CONFIG.gridCellSize);
   private spillSpawnedThisTick = 0;
+  private tickEvents: EngineEvent[] = [];
+  // The mode's exit verdict per player this tick (exitAllowed is asked once per player per step)
+  private exitAllowedThisTick = new Map<string, boolean>();
+  private recorder: ReplayRecorder | null = null;
 
   readonly players = new Map<string, PlayerState>();
   private readonly playersById = new Map<number, PlayerState>();
@@ -95,15 +117,39 @@ export class GameEngine {
     borderTargetRadius: SIM_CONFIG.border.worldRadiusMin,
     borderVelocity: 0,
     playersInWorld: 0,
+    unclaimedBountyMass: 0,
   };
 
+  /**
+   * @param mode Rule variant to run (see modes.ts). Fixed for the engine's lifetime; a replay or
+   *   snapshot must be played back under the mode it was recorded with.
+   */
+  constructor(readonly mode: GameMode = GAME_MODES.classic) {}
+
   private newId(): number {
     return this.nextId++;
   }
 
-  addPlayer(params: { sessionId: string; wallet: `0x${string}`; displayName: string; spawnMass: number }): PlayerState {
+  /**
+   * Attach a replay recorder. Every external mutation below is forwarded to it
+   * so the match can be re-simulated headlessly (see replay.ts).
+   */
+  setRecorder(recorder: ReplayRecorder | null) {
+    this.recorder = recorder;
+  }
+
+  addPlayer(params: {
+    sessionId: string;
+    wallet: `0x${string}`;
+    displayName: string;
+    spawnMass: number;
+    isBot?: boolean;
+    /** Team modes: the team to join (e.g. a party's); otherwise the smallest team. */
+    team?: number;
+  }): PlayerState {
     const existing = this.players.get(params.sessionId);
     if (existing) return existing;
+    this.recorder?.record(this.world.tick, { op: "addPlayer", ...params });
 
     if (!this.world.baselineSpawnMass) this.world.baselineSpawnMass = Math.max(1, Math.floor(params.spawnMass));
 
@@ -126,6 +172,7 @@ export class GameEngine {
       radius: spawnRadius,
       color,
       alive: true,
+      isBot: params.isBot || undefined,
       input: this.defaultInput(),
       prevInput: this.defaultInput(),
       edges: {
@@ -152,6 +199,8 @@ export class GameEngine {
       exitCombatTagTicks: 0,
       hitFlashTicks: 0,
       baseTaxCarry: 0,
+      bounty: 0,
+      damageTakenBy: {},
       exitHoldTicks: 0,
       exitProgress: 0,
       exitSafeHoldTicks: 0,
@@ -160,8 +209,13 @@ export class GameEngine {
 
     player.prevX = player.x;
     player.prevY = player.y;
+    const teamCount = this.mode.teamCount ?? 0;
+    if (teamCount > 0) {
+      player.team = params.team != null && params.team >= 1 && params.team <= teamCount ? params.team : pickTeam(this);
+    }
     this.players.set(player.sessionId, player);
     this.playersById.set(player.id, player);
+    this.mode.onSpawn?.(this, player);
     return player;
   }
 
@@ -181,6 +235,7 @@ export class GameEngine {
     const p = this.players.get(oldSessionId);
     if (!p) return false;
     if (oldSessionId === newSessionId) return true;
+    this.recorder?.record(this.world.tick, { op: "rekeyPlayerSession", oldSessionId, newSessionId });
     this.players.delete(oldSessionId);
     p.sessionId = newSessionId;
     this.players.set(newSessionId, p);
@@ -189,10 +244,36 @@ export class GameEngine {
 
   removePlayer(sessionId: string): void {
     const p = this.players.get(sessionId);
-    if (p) this.playersById.delete(p.id);
+    if (!p) return;
+    this.recorder?.record(this.world.tick, { op: "removePlayer", sessionId });
+    this.dropPlayer(sessionId);
+  }
+
+  private dropPlayer(sessionId: string): void {
+    const p = this.players.get(sessionId);
+    if (p) {
+      this.playersById.delete(p.id);
+      this.world.unclaimedBountyMass += p.bounty;
+    }
     this.players.delete(sessionId);
   }
 
+  removePickup(id: number): void {
+    if (!this.pickups.has(id)) return;
+    this.recorder?.record(this.world.tick, { op: "removePickup", id });
+    this.pickups.delete(id);
+  }
+
+  /**
+   * Take back bounty growth the room couldn't fund (the budget ran dry).
+   */
+  revokeBounty(sessionId: string, mass: number) {
+    const p = this.players.get(sessionId);
+    if (!p || mass <= 0) return;
+    this.recorder?.record(this.world.tick, { op: "revokeBounty", sessionId, mass });
+    p.bounty = Math.max(0, p.bounty - mass);
+  }
+
   getPlayerTotalMass(sessionId: string): number {
     const p = this.players.get(sessionId);
     return p?.mass ?? 0;
@@ -201,22 +282,94 @@ export class GameEngine {
   setInput(sessionId: string, input: Partial<PlayerInput>) {
     const p = this.players.get(sessionId);
     if (!p) return;
+    if (this.recorder) {
+      // Only record fields that actually change (stale-input clears repeat every tick).
+      const changed: Partial<PlayerInput> = {};
+      let any = false;
+      for (const key of Object.keys(input) as (keyof PlayerInput)[]) {
+        const value = input[key];
+        if (value === undefined || p.input[key] === value) continue;
+        (changed as Record<string, unknown>)[key] = value;
+        any = true;
+      }
+      if (any) this.recorder.record(this.world.tick, { op: "setInput", sessionId, input: changed });
+    }
     p.input = { ...p.input, ...input };
   }
 
   markDisconnected(sessionId: string, tick: number) {
     const p = this.players.get(sessionId);
     if (!p) return;
+    this.recorder?.record(this.world.tick, { op: "markDisconnected", sessionId, tick });
     p.disconnectedAtTick = tick;
   }
 
+  markReconnected(sessionId: string) {
+    const p = this.players.get(sessionId);
+    if (!p) return;
+    this.recorder?.record(this.world.tick, { op: "markReconnected", sessionId });
+    p.disconnectedAtTick = undefined;
+  }
+
+  /**
+   * Copy of the full engine state (see snapshot.ts).
+   */
+  toSnapshot(): EngineSnapshot {
+    const snapshot: EngineSnapshot = {
+      version: SNAPSHOT_VERSION,
+      nextId: this.nextId,
+      world: this.world,
+      players: [...this.players.values()],
+      bullets: [...this.bullets.values()],
+      pickups: [...this.pickups.values()],
+      obstacles: [...this.obstacles.values()],
+    };
+    // JSON round trip: a detached copy, and exactly what a stored snapshot restores to
+    return JSON.parse(JSON.stringify(snapshot)) as EngineSnapshot;
+  }
+
+  /**
+   * Replace the whole engine state with a snapshot. Not allowed while recording a replay,
+   * since replays must start from a fresh engine.
+   */
+  restoreSnapshot(snapshot: EngineSnapshot) {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`);
+    }
+    if (this.recorder) {
+      throw new Error("Cannot restore a snapshot while recording a replay");
+    }
+    const data = JSON.parse(JSON.stringify(snapshot)) as EngineSnapshot;
+
+    this.nextId = data.nextId;
+    Object.assign(this.world, data.world);
+    // Snapshots taken before bounties existed
+    this.world.unclaimedBountyMass ??= 0;
+    this.players.clear();
+    this.playersById.clear();
+    for (const p of data.players) {
+      p.bounty ??= 0;
+      this.players.set(p.sessionId, p);
+      this.playersById.set(p.id, p);
+    }
+    this.bullets.clear();
+    for (const b of data.bullets) this.bullets.set(b.id, b);
+    this.pickups.clear();
+    for (const k of data.pickups) this.pickups.set(k.id, k);
+    this.obstacles.clear();
+    for (const o of data.obstacles) this.obstacles.set(o.id, o);
+    this.rebuildGrid(this.getPlayersSorted());
+  }
+
   seedRng(seed: number) {
+    this.recorder?.record(this.world.tick, { op: "seedRng", seed });
     this.world.rng = createRng(seed);
   }
 
   initializeObstacles(count: number) {
     const target = Math.max(0, Math.floor(count));
     if (target <= 0) return;
+    this.recorder?.record(this.world.tick, { op: "initializeObstacles", count: target });
     const minR = SIM_CONFIG.obstacles.minRadius;
     const maxR = SIM_CONFIG.obstacles.maxRadius;
     const padding = SIM_CONFIG.obstacles.spawnPadding;
@@ -316,7 +469,8 @@ export class GameEngine {
     this.world.playersInWorld = count;
 
     // Calculate target radius
-    const target = getTargetBorderRadius(count);
+    const classicTarget = getTargetBorderRadius(count);
+    const target = this.mode.borderTarget?.(this, classicTarget) ?? classicTarget;
     this.world.borderTargetRadius = target;
 
     // Move border towards target at capped speed
@@ -335,41 +489,10 @@ export class GameEngine {
     const br = this.world.borderRadius;
     if (br <= 0) return;
 
-    const retention = SIM_CONFIG.border.bounceRetention;
-    // POC parity: entity velocities are ~units per 1/60s.
-    // Convert border velocity (units/sec) into the same units.
-    const borderVelEntityUnits = this.world.borderVelocity / 60;
-
     // Apply to players
     for (const p of players) {
       if (!p.alive) continue;
-      const r = Math.max(0, br - p.radius);
-      const d = Math.hypot(p.x, p.y);
-      if (d <= r) continue;
-
-      // Normal from center outward
-      let nx = 1, ny = 0;
-      if (d > 0.0001) {
-        nx = p.x / d;
-        ny = p.y / d;
-      }
-
-      // Snap to border
-      p.x = nx * r;
-      p.y = ny * r;
-
-      // Bounce velocity off border
-      const dot = p.vx * nx + p.vy * ny;
-      if (dot > 0) {
-        p.vx = p.vx - (1 + retention) * dot * nx;
-        p.vy = p.vy - (1 + retention) * dot * ny;
-      }
-
-      // If border is shrinking, add gentle inward bias
-      if (borderVelEntityUnits < 0) {
-        p.vx += nx * borderVelEntityUnits;
-        p.vy += ny * borderVelEntityUnits;
-      }
+      bounceOffBorder(p, br, this.world.borderVelocity);
     }
 
     // Apply to pickups
@@ -422,43 +545,9 @@ export class GameEngine {
       for (const oid of nearby) {
         const o = this.obstacles.get(oid);
         if (!o) continue;
-        // POC parity: slightly forgiving obstacle collision radius.
-        const rr = p.radius + o.radius * 0.9;
-        const dx = p.x - o.x;
-        const dy = p.y - o.y;
-        const distSq = dx * dx + dy * dy;
-        const intersects = segmentCircleIntersects(p.prevX, p.prevY, p.x, p.y, o.x, o.y, rr);
-        if (!intersects && distSq >= rr * rr) continue;
-        const dist = Math.max(1e-4, Math.sqrt(distSq));
-        const nx = dx / dist;
-        const ny = dy / dist;
-        const overlap = rr - dist;
-        if (overlap > 0) {
-          p.x += nx * overlap;
-          p.y += ny * overlap;
-        } else {
-          p.x = o.x + nx * rr;
-          p.y = o.y + ny * rr;
-        }
-
-        // POC parity:
-        // - Dash impacts bounce elastically (retained momentum)
-        // - Non-dash impacts slide along the obstacle (reduces jitter / sticky walls)
-        const dot = p.vx * nx + p.vy * ny;
-        if (dot < 0) {
-          if (this.isDashing(p)) {
-            const retention = SIM_CONFIG.dash.bounceRetention;
-            p.vx = (p.vx - 2 * dot * nx) * retention;
-            p.vy = (p.vy - 2 * dot * ny) * retention;
-          } else {
-            p.vx = p.vx - dot * nx;
-            p.vy = p.vy - dot * ny;
-            p.vx *= 0.98;
-            p.vy *= 0.98;
-          }
-        }
+        resolveObstacleCollision(p, o, this.isDashing(p));
       }
-      this.clampToBounds(p);
+      clampToBorder(p, this.world.borderRadius);
     }
   }
 
@@ -487,10 +576,7 @@ export class GameEngine {
         if (!p || !p.alive) continue;
 
         // POC parity: spill ownership lock blocks non-owners for a short window.
-        if (pickup.kind === "spill") {
-          const unlock = pickup.unlockTick ?? 0;
-          if (pickup.attackerSessionId && pickup.attackerSessionId !== p.sessionId && this.world.tick < unlock) continue;
-        }
+        if (this.spillLockedFor(p, pickup)) continue;
 
         const hasBoost = p.magnetBoostTicks > 0;
         const range = baseRange + (hasBoost ? boostRange : 0);
@@ -535,6 +621,8 @@ export class GameEngine {
 
   step(): EngineTickResult {
     const events: EngineEvent[] = [];
+    this.tickEvents = events;
+    this.exitAllowedThisTick.clear();
     this.world.tick += 1;
 
     // 0. Update dynamic border (POC parity)
@@ -556,7 +644,7 @@ export class GameEngine {
     for (const p of players) {
       if (!p.alive) continue;
       this.updateInputEdges(p);
-      const exitIntent = p.input.exit && p.exitCombatTagTicks <= 0;
+      const exitIntent = this.exitIntent(p);
       if (p.stunTicks > 0 || exitIntent) {
         p.shootHoldTicks = 0;
         p.dashHoldTicks = 0;
@@ -584,67 +672,39 @@ export class GameEngine {
       }
     }
 
-    // Movement acceleration (POC parity).
     // NOTE: In the PoC, entity velocities are tuned in "units per 1/60s" even though the sim runs at 20Hz.
     // We replicate that by integrating positions with `tickSec * 60`.
     const tickSec = SIM_CONFIG.tickMs / 1000;
     const entityStep = tickSec * 60;
+
+    // Movement acceleration (POC parity; shared with client prediction via movement.ts)
     for (const p of players) {
       if (!p.alive) continue;
       if (p.stunTicks > 0) continue;
-      const exitIntent = p.input.exit && p.exitCombatTagTicks <= 0;
+      const exitIntent = this.exitIntent(p);
       if (exitIntent || p.exitHoldTicks > 0) {
-        // No movement input while exiting; just strong damping.
-        p.vx *= SIM_CONFIG.movement.exitDampMult;
-        p.vy *= SIM_CONFIG.movement.exitDampMult;
+        dampForExit(p);
         continue;
       }
-
-      const dirX = (p.input.d ? 1 : 0) - (p.input.a ? 1 : 0);
-      const dirY = (p.input.s ? 1 : 0) - (p.input.w ? 1 : 0);
-      if (dirX === 0 && dirY === 0) continue;
-
-      const mag = Math.hypot(dirX, dirY) || 1;
-      const nX = dirX / mag;
-      const nY = dirY / mag;
-
-      // POC parity: movement commitment affects acceleration, not max speed.
-      let speedMod = 1;
-      if (p.dashHoldTicks > 0) speedMod *= SIM_CONFIG.dash.chargeMoveMult;
-      if (p.slowTicks > 0) speedMod *= SIM_CONFIG.movement.damageSlowMult;
-      if (p.shootHoldTicks > 0) speedMod *= SIM_CONFIG.shooting.chargeMoveMult;
-      else if (p.shootRecoveryTicks > 0) speedMod *= SIM_CONFIG.shooting.recoveryMoveMult;
-
-      const mobility = mobilityMultiplier(p.radius);
-      const accel = SIM_CONFIG.movement.accelPerSec * tickSec * mobility * speedMod;
-      p.vx += nX * accel;
-      p.vy += nY * accel;
+      const speedMod = movementSpeedMod({
+        dashCharging: p.dashHoldTicks > 0,
+        slowed: p.slowTicks > 0,
+        shootCharging: p.shootHoldTicks > 0,
+        shootRecovering: p.shootRecoveryTicks > 0,
+      });
+      accelerate(p, p.input, speedMod);
     }
 
     // Integrate player positions (POC parity: vx/vy are ~units per 1/60s)
     for (const p of players) {
       if (!p.alive) continue;
-      p.x += p.vx * entityStep;
-      p.y += p.vy * entityStep;
-      this.clampToBounds(p);
+      integratePosition(p, this.world.borderRadius);
     }
 
-    // Friction + overspeed drag (POC parity: exponential friction, strong drag when above max speed)
-    const frictionFactor = Math.pow(SIM_CONFIG.movement.frictionPerSec, tickSec);
-    const overspeedDragFactor = Math.pow(0.1, tickSec);
+    // Friction + overspeed drag
     for (const p of players) {
       if (!p.alive) continue;
-      p.vx *= frictionFactor;
-      p.vy *= frictionFactor;
-      // POC: do not apply overspeed drag while dashing
-      if (p.dashActiveTicks > 0) continue;
-      const mobility = mobilityMultiplier(p.radius);
-      const maxSpeed = SIM_CONFIG.movement.maxSpeedBase * mobility;
-      const speed = Math.hypot(p.vx, p.vy);
-      if (speed > maxSpeed) {
-        p.vx *= overspeedDragFactor;
-        p.vy *= overspeedDragFactor;
-      }
+      applyFriction(p, p.dashActiveTicks > 0);
     }
 
     // Dash (charge, release, overheat)
@@ -655,7 +715,7 @@ export class GameEngine {
       if (p.dashCooldownTicks > 0) p.dashCooldownTicks -= 1;
       if (p.dashActiveTicks > 0) p.dashActiveTicks -= 1;
 
-      const exitIntent = p.input.exit && p.exitCombatTagTicks <= 0;
+      const exitIntent = this.exitIntent(p);
       if (p.stunTicks > 0 || exitIntent || p.exitHoldTicks > 0) {
         p.dashHoldTicks = 0;
         continue;
@@ -668,16 +728,16 @@ export class GameEngine {
         p.invulnTicks = 0;
         // POC parity: overheat stun cancels other commitments.
         p.shootHoldTicks = 0;
-        p.exitHoldTicks = 0;
-        p.exitProgress = 0;
-        p.exitSafeHoldTicks = 0;
+        this.cancelExit(p, "overheat");
+        events.push({ type: "overheat", sessionId: p.sessionId, stunTicks: p.stunTicks, x: p.x, y: p.y });
+        events.push({ type: "stunApplied", sessionId: p.sessionId, cause: "overheat", ticks: p.stunTicks, x: p.x, y: p.y });
       }
 
       if (p.edges.dashReleased && p.dashHoldTicks > 0 && p.dashCooldownTicks <= 0) {
         const t = clamp(p.dashHoldTicks / dashChargeMaxTicks, 0, 1);
         const costPct = lerp(SIM_CONFIG.dash.minCostPct, SIM_CONFIG.dash.maxCostPct, t);
         // POC parity: costs are stake-based (spawnMass), not a % of current balance.
-        const costMass = Math.max(1, Math.floor(p.spawnMass * costPct));
+        const costMass = this.actionCost(p, "dash", Math.max(1, Math.floor(p.spawnMass * costPct)));
         if (p.mass - costMass <= this.minBalanceMass(p)) {
           // Not enough funds to dash; do nothing (PoC plays an error sound + text).
         } else {
@@ -703,6 +763,7 @@ export class GameEngine {
           p.invulnTicks = Math.max(p.invulnTicks, SIM_CONFIG.dash.invulnTicks);
           p.mass = Math.max(0, p.mass - costMass);
           recycleMassTotal += costMass;
+          events.push({ type: "dashStarted", sessionId: p.sessionId, x: p.x, y: p.y, dx, dy, chargeRatio: t, costMass });
         }
       }
 
@@ -713,7 +774,7 @@ export class GameEngine {
 
     // Shooting
     for (const p of players) {
-      const exitIntent = p.input.exit && p.exitCombatTagTicks <= 0;
+      const exitIntent = this.exitIntent(p);
       if (!p.alive || p.stunTicks > 0 || exitIntent || p.exitHoldTicks > 0 || p.fireCooldownTicks > 0) {
         if (p.edges.shootReleased) p.shootHoldTicks = 0;
         continue;
@@ -729,7 +790,7 @@ export class GameEngine {
         );
         const costPct = lerp(SIM_CONFIG.shooting.minCostPct, SIM_CONFIG.shooting.maxCostPct, tRaw);
         // POC parity: costs are stake-based (spawnMass), not a % of current balance.
-        const costMass = Math.max(1, Math.floor(p.spawnMass * costPct));
+        const costMass = this.actionCost(p, "shoot", Math.max(1, Math.floor(p.spawnMass * costPct)));
         if (p.mass - costMass <= this.minBalanceMass(p)) {
           // Not enough funds to shoot; do nothing (PoC plays an error sound + status text).
           // Still clear hold state below on release.
@@ -765,6 +826,19 @@ export class GameEngine {
           ttlTicks: SIM_CONFIG.shooting.bulletTtlTicks,
         };
         this.bullets.set(bullet.id, bullet);
+        events.push({
+          type: "bulletFired",
+          bulletId: bullet.id,
+          ownerSessionId: p.sessionId,
+          x: bulletX,
+          y: bulletY,
+          vx,
+          vy,
+          radius,
+          damageMass,
+          costMass,
+          chargeRatio: tRaw,
+        });
 
         // Recoil
         const recoil = SIM_CONFIG.shooting.recoilBase + SIM_CONFIG.shooting.recoilChargeScale * tRaw;
@@ -803,7 +877,8 @@ export class GameEngine {
       // POC parity: Cull bullets beyond circular border (handled in applyBorderPhysics)
     }
 
-    // Pickup movement (spills with initial velocity)
+    // Pickup movement (spills with initial velocity; same exponential friction as players)
+    const frictionFactor = Math.pow(SIM_CONFIG.movement.frictionPerSec, tickSec);
     for (const pickup of this.pickups.values()) {
       if (!pickup.vx && !pickup.vy) continue;
       // POC parity: pickup vx/vy are in the same "entity" units (~units per 1/60s).
@@ -891,11 +966,18 @@ export class GameEngine {
           // Dash impact stun (POC parity: fixed duration)
           stunTarget.stunGraceTicks = 0;
           stunTarget.stunTicks = Math.max(stunTarget.stunTicks, 50);
+          events.push({
+            type: "stunApplied",
+            sessionId: stunTarget.sessionId,
+            sourceSessionId: attacker.sessionId,
+            cause: "dashImpact",
+            ticks: stunTarget.stunTicks,
+            x: stunTarget.x,
+            y: stunTarget.y,
+          });
 
           // Cancel cashout progress on stun (POC parity)
-          stunTarget.exitHoldTicks = 0;
-          stunTarget.exitProgress = 0;
-          stunTarget.exitSafeHoldTicks = 0;
+          this.cancelExit(stunTarget, "stun");
 
           // Cancel dash charging on the stunned target (defensive clarity)
           stunTarget.dashHoldTicks = 0;
@@ -935,7 +1017,8 @@ export class GameEngine {
 
     // Collisions: bullets -> obstacles/players (swept)
     const bulletsToRemove = new Set<number>();
-    const damageByPlayer = new Map<number, { damage: number; attackerSessionId?: string }>();
+    // Target id -> attacker sessionId -> damage, in hit order
+    const damageByPlayer = new Map<number, Map<string, number>>();
     const bullets = this.getBulletsSorted();
     const maxObstacleRadius = SIM_CONFIG.obstacles.maxRadius;
 
@@ -982,70 +1065,92 @@ export class GameEngine {
           break;
         }
         bulletsToRemove.add(b.id);
-        const current = damageByPlayer.get(target.id) ?? {
-          damage: 0,
-          attackerSessionId: b.ownerSessionId,
-        };
-        current.damage += b.damageMass;
-        if (!current.attackerSessionId) current.attackerSessionId = b.ownerSessionId;
-        damageByPlayer.set(target.id, current);
+        const damage = this.mode.onDamage
+          ? Math.max(0, this.mode.onDamage(this, target, b.damageMass, this.players.get(b.ownerSessionId)))
+          : b.damageMass;
+        if (damage <= 0) break;
+        const byAttacker = damageByPlayer.get(target.id) ?? new Map<string, number>();
+        byAttacker.set(b.ownerSessionId, (byAttacker.get(b.ownerSessionId) ?? 0) + damage);
+        damageByPlayer.set(target.id, byAttacker);
         break;
       }
     }
 
     // Apply bullet damage (POC parity: cancels exit + applies slow/combat tag)
+    const deathRecords = new Map<string, { cause: KillCause; killerSessionId?: string; mass: number; spills: KillSpill[] }>();
+    // Each attacker's share is its own hit, so attribution (and the killing blow) follows who dealt it
     const damageEntries = [...damageByPlayer.entries()].sort((a, b) => a[0] - b[0]);
-    for (const [pid, dmg] of damageEntries) {
+    for (const [pid, byAttacker] of damageEntries) {
       const target = playerById.get(pid);
       if (!target || !target.alive) continue;
-      const rawDamage = Math.max(0, Math.floor(dmg.damage));
-      const damage = Math.min(rawDamage, Math.max(0, Math.floor(target.mass)));
-      if (damage <= 0) continue;
-
-      // POC parity: reward landing hits with a brief magnetism boost.
-      const attacker = dmg.attackerSessionId ? this.players.get(dmg.attackerSessionId) : undefined;
-      if (attacker && attacker.alive) {
-        attacker.magnetBoostTicks = Math.max(attacker.magnetBoostTicks, 20);
-      }
+      for (const [attackerSessionId, attackerDamage] of byAttacker) {
+        // The killing blow already spilled everything
+        if (deathRecords.has(target.sessionId)) break;
+        const attacker = this.players.get(attackerSessionId);
+        const damage = Math.min(Math.max(0, Math.floor(attackerDamage)), Math.max(0, Math.floor(target.mass)));
+        if (damage <= 0) continue;
+
+        // POC parity: reward landing hits with a brief magnetism boost.
+        if (attacker && attacker.alive) {
+          attacker.magnetBoostTicks = Math.max(attacker.magnetBoostTicks, 20);
+        }
 
-      // POC parity: lethal hits spill 100% (no burn); otherwise 80% spill / 20% burn.
-      const minBalance = this.minBalanceMass(target);
-      const isLethal = target.mass - damage <= minBalance;
-      const spillMass = isLethal ? damage : Math.floor(damage * 0.8);
-      const burnMass = damage - spillMass;
+        // POC parity: lethal hits spill 100% (no burn); otherwise 80% spill / 20% burn.
+        const minBalance = this.minBalanceMass(target);
+        const isLethal = target.mass - damage <= minBalance;
+        const spillMass = isLethal ? damage : Math.floor(damage * 0.8);
+        const burnMass = damage - spillMass;
 
-      target.mass = Math.max(0, target.mass - damage);
-      if (isLethal) {
-        // Prevent extra "death spill" later; lethal hit already spilled everything.
-        target.mass = 0;
-      }
+        target.mass = Math.max(0, target.mass - damage);
+        if (isLethal) {
+          // Prevent extra "death spill" later; lethal hit already spilled everything.
+          target.mass = 0;
+        }
 
-      // Economy: burned portion is recycled into the server budget (funds future pellets).
-      if (burnMass > 0) recycleMassTotal += burnMass;
+        // Economy: burned portion is recycled into the server budget (funds future pellets).
+        if (burnMass > 0) recycleMassTotal += burnMass;
 
-      // POC parity: knockback on hit (direction away from attacker).
-      if (attacker && attacker.alive) {
-        const angle = Math.atan2(target.y - attacker.y, target.x - attacker.x);
-        const damagePct = damage / Math.max(1, target.spawnMass);
-        const kb = (damagePct * 8) / Math.sqrt(Math.max(1, target.radius));
-        target.vx += Math.cos(angle) * kb;
-        target.vy += Math.sin(angle) * kb;
-      }
+        // POC parity: knockback on hit (direction away from attacker).
+        if (attacker && attacker.alive) {
+          const angle = Math.atan2(target.y - attacker.y, target.x - attacker.x);
+          const damagePct = damage / Math.max(1, target.spawnMass);
+          const kb = (damagePct * 8) / Math.sqrt(Math.max(1, target.radius));
+          target.vx += Math.cos(angle) * kb;
+          target.vy += Math.sin(angle) * kb;
+        }
 
-      target.slowTicks = Math.max(target.slowTicks, SIM_CONFIG.movement.slowDurationTicks);
-      target.exitCombatTagTicks = Math.max(target.exitCombatTagTicks, SIM_CONFIG.exit.combatTagTicks);
-      target.hitFlashTicks = SIM_CONFIG.pellets.hitFlashTicks;
+        target.slowTicks = Math.max(target.slowTicks, SIM_CONFIG.movement.slowDurationTicks);
+        target.exitCombatTagTicks = Math.max(target.exitCombatTagTicks, SIM_CONFIG.exit.combatTagTicks);
+        target.hitFlashTicks = SIM_CONFIG.pellets.hitFlashTicks;
 
-      // POC parity: taking damage cancels cashout progress immediately.
-      if (this.isExiting(target)) {
-        target.exitHoldTicks = 0;
-        target.exitProgress = 0;
-        target.exitSafeHoldTicks = 0;
-      }
+        // POC parity: taking damage cancels cashout progress immediately.
+        if (this.isExiting(target)) {
+          this.cancelExit(target, "damage");
+        }
+
+        events.push({
+          type: "bulletHit",
+          targetSessionId: target.sessionId,
+          attackerSessionId,
+          x: target.x,
+          y: target.y,
+          damage,
+          spilledMass: spillMass,
+          burnedMass: burnMass,
+          lethal: isLethal,
+        });
+        // Kill attribution: last damager + lifetime contributions
+        if (attackerSessionId !== target.sessionId) {
+          target.lastDamagerSessionId = attackerSessionId;
+          target.lastDamagedTick = this.world.tick;
+          target.damageTakenBy[attackerSessionId] = (target.damageTakenBy[attackerSessionId] ?? 0) + damage;
+        }
 
-      // Spawn spill pickups (spilled portion only)
-      if (spillMass > 0) {
-        this.spawnSpillFromDamage(target, spillMass, dmg.attackerSessionId);
+        // Spawn spill pickups (spilled portion only)
+        const spills = spillMass > 0 ? this.spawnSpillFromDamage(target, spillMass, attackerSessionId) : [];
+        if (isLethal) {
+          deathRecords.set(target.sessionId, { cause: "bullet", killerSessionId: attackerSessionId, mass: damage, spills });
+        }
       }
     }
 
@@ -1063,10 +1168,7 @@ export class GameEngine {
         if (!pickup) continue;
 
         // POC parity: spill ownership lock blocks non-owners until unlock.
-        if (pickup.kind === "spill") {
-          const unlock = pickup.unlockTick ?? 0;
-          if (pickup.attackerSessionId && pickup.attackerSessionId !== p.sessionId && this.world.tick < unlock) continue;
-        }
+        if (this.spillLockedFor(p, pickup)) continue;
 
         // Collect on touch (no magnet range for collection).
         const rr = p.radius + pickup.radius;
@@ -1077,37 +1179,51 @@ export class GameEngine {
 
         p.mass += pickup.mass;
         pickupsToRemove.push(pickup.id);
+        events.push({
+          type: "pickupCollected",
+          sessionId: p.sessionId,
+          pickupId: pickup.id,
+          kind: pickup.kind,
+          mass: pickup.mass,
+          x: pickup.x,
+          y: pickup.y,
+          victimSessionId: pickup.victimSessionId,
+        });
       }
     }
     for (const id of pickupsToRemove) this.pickups.delete(id);
 
     // Exit progress update + completion (POC parity: fixed-tick hold-to-exit)
     const exitDurationTicks = SIM_CONFIG.exit.durationTicks;
+    // Mode exit rates are read before any progress moves, so they don't depend on player order
+    const exitRates = new Map<string, number>();
+    if (this.mode.exitRate) {
+      for (const p of players) {
+        if (p.alive && p.input.exit) exitRates.set(p.sessionId, Math.max(1, Math.floor(this.mode.exitRate(this, p))));
+      }
+    }
     for (const p of players) {
       if (!p.alive) continue;
 
       // POC parity: stun cancels cashout progress.
       if (p.stunTicks > 0) {
-        if (p.exitHoldTicks > 0) {
-          p.exitHoldTicks = 0;
-          p.exitProgress = 0;
-          p.exitSafeHoldTicks = 0;
-        }
+        if (p.exitHoldTicks > 0) this.cancelExit(p, "stun");
         continue;
       }
 
       if (p.input.exit) {
         if (p.exitCombatTagTicks > 0) {
           // Combat-tagged: do not allow exit progress (and cancel any existing attempt).
-          if (p.exitHoldTicks > 0) {
-            p.exitHoldTicks = 0;
-            p.exitProgress = 0;
-            p.exitSafeHoldTicks = 0;
-          }
+          if (p.exitHoldTicks > 0) this.cancelExit(p, "combatTag");
+          continue;
+        }
+        if (!this.modeAllowsExit(p)) {
+          if (p.exitHoldTicks > 0) this.cancelExit(p, "mode");
           continue;
         }
 
-        p.exitHoldTicks += 1;
+        if (p.exitHoldTicks === 0) events.push({ type: "exitStarted", sessionId: p.sessionId, x: p.x, y: p.y });
+        p.exitHoldTicks += exitRates.get(p.sessionId) ?? 1;
         p.dashActiveTicks = 0;
         p.dashHoldTicks = 0;
         p.shootHoldTicks = 0;
@@ -1115,14 +1231,15 @@ export class GameEngine {
         p.exitProgress = clamp(p.exitHoldTicks / exitDurationTicks, 0, 1);
         if (p.exitHoldTicks >= exitDurationTicks) {
           p.exitAttemptId += 1;
+          // A bounty isn't cashed out; it goes back to the budget
+          recycleMassTotal += p.bounty;
+          p.bounty = 0;
           events.push({ type: "playerExited", sessionId: p.sessionId });
           p.alive = false;
         }
       } else if (p.exitHoldTicks > 0) {
         // Released Q: cancel exit.
-        p.exitHoldTicks = 0;
-        p.exitProgress = 0;
-        p.exitSafeHoldTicks = 0;
+        this.cancelExit(p, "released");
       }
     }
 
@@ -1142,7 +1259,9 @@ export class GameEngine {
         const profit = Math.max(0, p.mass - p.spawnMass);
         const wealthTax = Math.floor(profit * SIM_CONFIG.economy.wealthTaxRate);
 
-        const totalTax = baseTax + wealthTax;
+        const totalTax = this.mode.tax
+          ? Math.max(0, Math.floor(this.mode.tax(this, p, { base: baseTax, wealth: wealthTax })))
+          : baseTax + wealthTax;
         const taxPaid = Math.min(totalTax, p.mass);
         if (taxPaid > 0) {
           p.mass = Math.max(0, p.mass - taxPaid);
@@ -1152,13 +1271,18 @@ export class GameEngine {
         // Liquidation: if you're below the floor, remaining balance is forfeit (burned), no spill.
         if (p.mass <= this.minBalanceMass(p)) {
           if (p.mass > 0) recycleMassTotal += p.mass;
+          if (!deathRecords.has(p.sessionId)) {
+            deathRecords.set(p.sessionId, { cause: "liquidation", killerSessionId: this.recentDamager(p), mass: p.mass, spills: [] });
+          }
           p.mass = 0;
         }
       }
+
+      this.updateBounties(players, events);
     }
 
     // Spawns: pellets (budget-gated at room level)
-    if (this.world.tick % SIM_CONFIG.pellets.spawnIntervalTicks === 0) {
+    if (this.mode.pellets !== false && this.world.tick % SIM_CONFIG.pellets.spawnIntervalTicks === 0) {
       const spawned = this.spawnPellets();
       spawnedPellets.push(...spawned);
     }
@@ -1174,27 +1298,54 @@ export class GameEngine {
     for (const p of players) {
       if (!p.alive) continue;
       if (p.mass <= this.minBalanceMass(p)) {
-        this.spawnSpillFromDeath(p);
+        const record = deathRecords.get(p.sessionId) ?? {
+          cause: "liquidation" as const,
+          killerSessionId: this.recentDamager(p),
+          mass: p.mass,
+          spills: [],
+        };
+        this.mode.onDeath?.(this, p, record.killerSessionId);
+        const deathSpills = this.spawnSpillFromDeath(p);
+        const bounty = this.payBounty(p, record.killerSessionId);
+        recycleMassTotal += p.bounty - bounty.paid;
+        p.bounty = 0;
         p.alive = false;
+        events.push({
+          type: "kill",
+          victimSessionId: p.sessionId,
+          victimDisplayName: p.displayName,
+          victimSpawnMass: p.spawnMass,
+          killerSessionId: record.killerSessionId,
+          killerDisplayName: record.killerSessionId ? this.players.get(record.killerSessionId)?.displayName : undefined,
+          cause: record.cause,
+          x: p.x,
+          y: p.y,
+          mass: record.mass,
+          assists: this.killAssists(p, record.killerSessionId),
+          bounty: bounty.paid,
+          spills: [...record.spills, ...deathSpills, ...bounty.spills],
+        });
         events.push({ type: "playerDied", sessionId: p.sessionId });
         deadToRemove.push(p.sessionId);
       }
     }
-    for (const id of deadToRemove) this.removePlayer(id);
+    for (const id of deadToRemove) this.dropPlayer(id);
 
     // Disconnect grace expiry
     const toRemove: string[] = [];
     for (const p of players) {
       if (!p.alive) continue;
-      if (p.disconnectedAtTick == null) continue;
-      if (this.world.tick - p.disconnectedAtTick >= SIM_CONFIG.reconnectGraceTicks) {
+      if (this.graceExpired(p)) {
+        this.mode.onDeath?.(this, p);
         this.spawnSpillFromDeath(p);
+        recycleMassTotal += p.bounty;
+        p.bounty = 0;
         p.alive = false;
         events.push({ type: "playerDied", sessionId: p.sessionId });
         toRemove.push(p.sessionId);
       }
     }
-    for (const id of toRemove) this.removePlayer(id);
+    for (const id of toRemove) this.dropPlayer(id);
 
     // Update radii for next tick after mass changes
     for (const p of players) {
@@ -1202,6 +1353,8 @@ export class GameEngine {
       p.radius = massToRadius(p.mass, p.spawnMass);
     }
 
+    recycleMassTotal += this.world.unclaimedBountyMass;
+    this.world.unclaimedBountyMass = 0;
     if (recycleMassTotal > 0) events.push({ type: "recycleMass", mass: recycleMassTotal });
     for (const id of spawnedPellets) {
       const pellet = this.pickups.get(id);
@@ -1231,6 +1384,8 @@ export class GameEngine {
       }
     }
 
+    this.mode.onTick?.(this, events);
+    this.recorder?.afterStep(this);
     return { events };
   }
 
@@ -1240,7 +1395,7 @@ export class GameEngine {
     const players = this.getPlayersSorted();
     for (const p of players) {
       if (!p.alive) continue;
-      const flags = (this.isDashing(p) ? FLAG_DASHING : 0) | (p.stunTicks > 0 ? FLAG_STUNNED : 0) | (this.isExiting(p) ? FLAG_EXITING : 0);
+      const flags = this.playerFlags(p);
       const dashChargeRatio = p.dashHoldTicks > 0 ? clamp(p.dashHoldTicks / dashChargeMaxTicks, 0, 1) : 0;
       const shootChargeRatio = p.shootHoldTicks > 0 || p.shootChargeVisualTicks > 0 ? p.shootChargeRatio : 0;
       nodes.push({
@@ -1269,6 +1424,8 @@ export class GameEngine {
         shootRecoveryTicks: p.shootRecoveryTicks,
         exitCombatTagTicks: p.exitCombatTagTicks,
         hitFlashTicks: p.hitFlashTicks,
+        bounty: p.bounty,
+        team: p.team,
       });
     }
     for (const b of this.bullets.values()) {
@@ -1317,10 +1474,7 @@ export class GameEngine {
           ownerSessionId: player.sessionId,
           displayName: player.displayName,
           color: player.color,
-          flags:
-            (this.isDashing(player) ? FLAG_DASHING : 0) |
-            (player.stunTicks > 0 ? FLAG_STUNNED : 0) |
-            (this.isExiting(player) ? FLAG_EXITING : 0),
+          flags: this.playerFlags(player),
           exitProgress: player.exitProgress,
           vx: player.vx,
           vy: player.vy,
@@ -1342,6 +1496,8 @@ export class GameEngine {
           shootRecoveryTicks: player.shootRecoveryTicks,
           exitCombatTagTicks: player.exitCombatTagTicks,
           hitFlashTicks: player.hitFlashTicks,
+          bounty: player.bounty,
+          team: player.team,
         });
         continue;
       }
@@ -1398,14 +1554,7 @@ export class GameEngine {
 
   private clampToBounds(p: PlayerState) {
     // Use circular border (POC parity)
-    const br = this.world.borderRadius;
-    const r = Math.max(0, br - p.radius);
-    const d = Math.hypot(p.x, p.y);
-    if (d > r && d > 0.0001) {
-      const scale = r / d;
-      p.x *= scale;
-      p.y *= scale;
-    }
+    clampToBorder(p, this.world.borderRadius);
   }
 
   private minBalanceMass(p: PlayerState): number {
@@ -1413,6 +1562,29 @@ export class GameEngine {
     return Math.max(SIM_CONFIG.deathFloorMass, Math.max(1, scaled));
   }
 
+  /**
+   * Holding exit and allowed to (no combat tag, and the mode permits it).
+   */
+  private exitIntent(p: PlayerState): boolean {
+    if (!p.input.exit || p.exitCombatTagTicks > 0) return false;
+    return this.modeAllowsExit(p);
+  }
+
+  private modeAllowsExit(p: PlayerState): boolean {
+    if (!this.mode.exitAllowed) return true;
+    let allowed = this.exitAllowedThisTick.get(p.sessionId);
+    if (allowed === undefined) {
+      allowed = this.mode.exitAllowed(this, p);
+      this.exitAllowedThisTick.set(p.sessionId, allowed);
+    }
+    return allowed;
+  }
+
+  private actionCost(p: PlayerState, action: PlayerAction, classic: number): number {
+    if (!this.mode.actionCost) return classic;
+    return Math.max(1, Math.floor(this.mode.actionCost(this, p, action, classic)));
+  }
+
   private isDashing(p: PlayerState): boolean {
     return p.dashActiveTicks > 0;
   }
@@ -1421,6 +1593,25 @@ export class GameEngine {
     return p.exitHoldTicks > 0;
   }
 
+  /**
+   * Reset hold-to-exit state, emitting exitInterrupted if an attempt was in progress.
+   */
+  private cancelExit(p: PlayerState, reason: ExitInterruptReason) {
+    if (p.exitHoldTicks > 0) {
+      this.tickEvents.push({
+        type: "exitInterrupted",
+        sessionId: p.sessionId,
+        reason,
+        progress: p.exitProgress,
+        x: p.x,
+        y: p.y,
+      });
+    }
+    p.exitHoldTicks = 0;
+    p.exitProgress = 0;
+    p.exitSafeHoldTicks = 0;
+  }
+
   private applyStun(p: PlayerState, ticks: number) {
     if (p.stunGraceTicks > 0) return;
     p.stunTicks = Math.max(p.stunTicks, ticks);
@@ -1495,10 +1686,11 @@ export class GameEngine {
     return spawned;
   }
 
-  private spawnSpillFromDamage(target: PlayerState, damageMass: number, attackerSessionId?: string) {
-    if (damageMass <= 0) return;
+  private spawnSpillFromDamage(target: PlayerState, damageMass: number, attackerSessionId?: string): KillSpill[] {
+    const spills: KillSpill[] = [];
+    if (damageMass <= 0) return spills;
     const remaining = SIM_CONFIG.pellets.spillMaxPickupsPerTick - this.spillSpawnedThisTick;
-    if (remaining <= 0) return;
+    if (remaining <= 0) return spills;
     const count = Math.min(this.spillDropCount(damageMass), remaining);
     const per = Math.floor(damageMass / count);
     let remainder = damageMass - per * count;
@@ -1508,12 +1700,75 @@ export class GameEngine {
     for (let i = 0; i < count; i++) {
       const mass = per + (remainder > 0 ? 1 : 0);
       if (remainder > 0) remainder -= 1;
-      this.spawnSpill(target.x, target.y, mass, attackerSessionId, target.sessionId, directionAngle);
+      const id = this.spawnSpill(target.x, target.y, mass, attackerSessionId, target.sessionId, directionAngle);
+      spills.push({ id, mass, lockedToSessionId: attackerSessionId });
     }
+    return spills;
+  }
+
+  private spawnSpillFromDeath(target: PlayerState): KillSpill[] {
+    return this.spawnSpillFromDamage(target, target.mass, target.sessionId);
   }
 
-  private spawnSpillFromDeath(target: PlayerState) {
-    this.spawnSpillFromDamage(target, target.mass, target.sessionId);
+  /**
+   * Grow the bounty of every player at or above the wealth threshold (once per second), capped at
+   * a share of their spawn mass. A player who falls back below the threshold loses it to the budget.
+   */
+  private updateBounties(players: PlayerState[], events: EngineEvent[]) {
+    const cfg = SIM_CONFIG.bounty;
+    for (const p of players) {
+      // Players dying this tick keep their bounty for the killer; players whose grace runs out get
+      // no growth, since they're gone before the room can fund (or revoke) it
+      if (!p.alive || p.mass <= this.minBalanceMass(p) || this.graceExpired(p)) continue;
+      if (p.mass < p.spawnMass * cfg.thresholdMult) {
+        if (p.bounty > 0) {
+          this.world.unclaimedBountyMass += p.bounty;
+          p.bounty = 0;
+        }
+        continue;
+      }
+      const cap = Math.floor(p.spawnMass * cfg.maxPctOfSpawn);
+      const growth = Math.min(Math.floor(p.spawnMass * cfg.growthPctOfSpawnPerSec), cap - p.bounty);
+      if (growth <= 0) continue;
+      p.bounty += growth;
+      events.push({ type: "bountyFunded", sessionId: p.sessionId, mass: growth });
+    }
+  }
+
+  /**
+   * Whether a disconnected player's reconnect grace runs out this tick.
+   */
+  private graceExpired(p: PlayerState): boolean {
+    return p.disconnectedAtTick != null && this.world.tick - p.disconnectedAtTick >= SIM_CONFIG.reconnectGraceTicks;
+  }
+
+  /**
+   * Spill a dead player's bounty toward their killer, locked to them. Nothing is paid without a
+   * (living, other) killer, or past the per-tick spill cap; the caller recycles what's left.
+   */
+  private payBounty(victim: PlayerState, killerSessionId?: string): { paid: number; spills: KillSpill[] } {
+    const killer = killerSessionId ? this.players.get(killerSessionId) : undefined;
+    if (victim.bounty <= 0 || !killer || !killer.alive || killer.sessionId === victim.sessionId) {
+      return { paid: 0, spills: [] };
+    }
+    const spills = this.spawnSpillFromDamage(victim, victim.bounty, killer.sessionId);
+    return { paid: spills.reduce((sum, s) => sum + s.mass, 0), spills };
+  }
+
+  /**
+   * Last damager, if they hit the player recently enough to be credited with the kill.
+   */
+  private recentDamager(p: PlayerState): string | undefined {
+    if (!p.lastDamagerSessionId || p.lastDamagedTick == null) return undefined;
+    if (this.world.tick - p.lastDamagedTick > SIM_CONFIG.killCreditTicks) return undefined;
+    return p.lastDamagerSessionId;
+  }
+
+  private killAssists(victim: PlayerState, killerSessionId?: string): KillAssist[] {
+    return Object.entries(victim.damageTakenBy)
+      .filter(([sessionId]) => sessionId !== killerSessionId)
+      .map(([sessionId, damage]) => ({ sessionId, damage }))
+      .sort((a, b) => b.damage - a.damage || a.sessionId.localeCompare(b.sessionId));
   }
 
   private spillDropCount(totalMass: number): number {
@@ -1531,7 +1786,7 @@ export class GameEngine {
     attackerSessionId?: string,
     victimSessionId?: string,
     directionAngle: number | null = null,
-  ) {
+  ): number {
     const id = this.newId();
     // POC parity: if we know the attacker direction, spray spills in a cone toward them.
     let angle = randomAngleRad(this.world.rng);
@@ -1571,8 +1826,30 @@ export class GameEngine {
       unlockTick: this.world.tick + SIM_CONFIG.pellets.spillUnlockTicks,
       spawnTick: this.world.tick,
     };
+    const lockTeam = attackerSessionId ? this.players.get(attackerSessionId)?.team : undefined;
+    if (lockTeam != null) pickup.lockTeam = lockTeam;
     this.pickups.set(id, pickup);
     this.spillSpawnedThisTick += 1;
+    this.tickEvents.push({ type: "spillSpawned", id, x: spawnX, y: spawnY, mass, attackerSessionId, victimSessionId });
+    return id;
+  }
+
+  /**
+   * Spill still locked to someone else: its attacker, or in team modes anyone off their team.
+   */
+  private spillLockedFor(p: PlayerState, pickup: PickupState): boolean {
+    if (pickup.kind !== "spill" || !pickup.attackerSessionId || pickup.attackerSessionId === p.sessionId) return false;
+    if (this.world.tick >= (pickup.unlockTick ?? 0)) return false;
+    return pickup.lockTeam == null || pickup.lockTeam !== p.team;
+  }
+
+  private playerFlags(p: PlayerState): number {
+    return (
+      (this.isDashing(p) ? NODE_FLAG_DASHING : 0) |
+      (p.stunTicks > 0 ? NODE_FLAG_STUNNED : 0) |
+      (this.isExiting(p) ? NODE_FLAG_EXITING : 0) |
+      (p.bounty > 0 ? NODE_FLAG_BOUNTY : 0)
+    );
   }
 
   private enemyInExitRange(p: PlayerState): boolean {
@@ -0,0 +1,115 @@
+export type ExitInterruptReason = "released" | "damage" | "stun" | "overheat" | "combatTag" | "mode";
+
+export type StunCause = "dashImpact" | "overheat";
+
+export type KillCause = "bullet" | "liquidation";
+
+/**
+ * Combat/gameplay events emitted by `GameEngine.step()`.
+ *
+ * Positional events carry the world position they happened at so the room can
+ * forward them only to clients whose view covers that point.
+ */
+export type EngineEvent =
+  // Economy / lifecycle
+  | { type: "recycleMass"; mass: number }
+  | { type: "pelletSpawned"; id: number; mass: number }
+  /** A bounty grew by `mass`, which the room funds from the budget (or revokes). */
+  | { type: "bountyFunded"; sessionId: string; mass: number }
+  | { type: "playerExited"; sessionId: string }
+  | { type: "playerDied"; sessionId: string }
+  // Combat
+  | {
+      type: "bulletFired";
+      bulletId: number;
+      ownerSessionId: string;
+      x: number;
+      y: number;
+      vx: number;
+      vy: number;
+      radius: number;
+      damageMass: number;
+      costMass: number;
+      chargeRatio: number;
+    }
+  | {
+      type: "bulletHit";
+      targetSessionId: string;
+      attackerSessionId?: string;
+      x: number;
+      y: number;
+      /** Mass removed from the target this tick (all bullets combined). */
+      damage: number;
+      spilledMass: number;
+      burnedMass: number;
+      lethal: boolean;
+    }
+  | {
+      type: "dashStarted";
+      sessionId: string;
+      x: number;
+      y: number;
+      dx: number;
+      dy: number;
+      chargeRatio: number;
+      costMass: number;
+    }
+  | {
+      type: "stunApplied";
+      sessionId: string;
+      sourceSessionId?: string;
+      cause: StunCause;
+      ticks: number;
+      x: number;
+      y: number;
+    }
+  | { type: "overheat"; sessionId: string; stunTicks: number; x: number; y: number }
+  | {
+      type: "spillSpawned";
+      id: number;
+      x: number;
+      y: number;
+      mass: number;
+      attackerSessionId?: string;
+      victimSessionId?: string;
+    }
+  | {
+      type: "pickupCollected";
+      sessionId: string;
+      pickupId: number;
+      kind: "pellet" | "spill";
+      mass: number;
+      x: number;
+      y: number;
+      victimSessionId?: string;
+    }
+  | { type: "exitStarted"; sessionId: string; x: number; y: number }
+  | { type: "exitInterrupted"; sessionId: string; reason: ExitInterruptReason; progress: number; x: number; y: number }
+  | {
+      type: "kill";
+      victimSessionId: string;
+      victimDisplayName: string;
+      victimSpawnMass: number;
+      /** Final blow (bullet kills) or last damager within SIM_CONFIG.killCreditTicks (liquidation). */
+      killerSessionId?: string;
+      killerDisplayName?: string;
+      cause: KillCause;
+      x: number;
+      y: number;
+      /** Victim mass released on death (spilled for bullet kills, burned for liquidation). */
+      mass: number;
+      /** Other damage contributors over the victim's life, highest first. */
+      assists: KillAssist[];
+      /** Victim's bounty paid to the killer (part of `spills`); 0 if none or nobody to pay. */
+      bounty: number;
+      /** Spills produced by the killing blow + death, and who they're locked to. */
+      spills: KillSpill[];
+    };
+
+export type KillAssist = { sessionId: string; damage: number };
+
+export type KillSpill = { id: number; mass: number; lockedToSessionId?: string };
+
+export type EngineTickResult = {
+  events: EngineEvent[];
+};
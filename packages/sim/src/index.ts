@@ -0,0 +1,22 @@
+/**
+ * @goonverse/sim — the deterministic shooter simulation and its wire contract.
+ *
+ * One source of truth for the authoritative server, client-side prediction,
+ * offline practice and tooling (replays, bots).
+ */
+
+export * from "./config.js";
+export * from "./math.js";
+export * from "./rng.js";
+export * from "./state.js";
+export * from "./events.js";
+export * from "./movement.js";
+export * from "./engine.js";
+export * from "./modes.js";
+export * from "./bots.js";
+export * from "./replay.js";
+export * from "./snapshot.js";
+export * from "./protocol.js";
+export * from "./wire.js";
+export * from "./view.js";
+export * from "./spatial/grid.js";
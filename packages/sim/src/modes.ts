@@ -0,0 +1,137 @@
+import { SIM_CONFIG } from "./config.js";
+import { lerp } from "./math.js";
+import type { GameEngine } from "./engine.js";
+import type { EngineEvent } from "./events.js";
+import type { PlayerState } from "./state.js";
+
+/**
+ * Game modes: rule variants layered over the engine without forking `step()`.
+ *
+ * Every hook is optional and receives the engine, so a mode can read the world but keeps no
+ * state of its own (anything it needs must live in engine state, or snapshots and replays
+ * would drift). Hooks run inside the tick, so they must be deterministic: no wall clock, and
+ * randomness only from `engine.world.rng`. They adjust amounts the engine then accounts for
+ * (damage spills, costs and tax recycle), so a mode can't create or destroy mass.
+ */
+
+export type GameModeId = "classic" | "suddenDeath" | "highStakes" | "teams";
+
+export type PlayerAction = "dash" | "shoot";
+
+export type GameMode = {
+  readonly id: GameModeId;
+  /**
+   * Team modes: players get a team id (1..teamCount) on spawn if the room didn't pick one, and
+   * spill locks are shared by the lock holder's team.
+   */
+  readonly teamCount?: number;
+  /** After a player is created (position, mass and color already set). */
+  onSpawn?(engine: GameEngine, player: PlayerState): void;
+  /** A bullet from `attacker` is hitting `target`; returns the damage it deals instead (0 = none). */
+  onDamage?(engine: GameEngine, target: PlayerState, damage: number, attacker?: PlayerState): number;
+  /** A player is dying this tick (before their death spill). */
+  onDeath?(engine: GameEngine, victim: PlayerState, killerSessionId?: string): void;
+  /** End of every tick, before its events are returned. */
+  onTick?(engine: GameEngine, events: EngineEvent[]): void;
+  /** Whether the player may hold to exit right now (on top of the combat tag). */
+  exitAllowed?(engine: GameEngine, player: PlayerState): boolean;
+  /** Exit progress (ticks, at least 1) a player holding exit gains this tick; classic is 1. */
+  exitRate?(engine: GameEngine, player: PlayerState): number;
+  /** Passive tax for this second, given the classic base and wealth tax (mass). */
+  tax?(engine: GameEngine, player: PlayerState, classic: { base: number; wealth: number }): number;
+  /** Mass cost of a dash or shot, given the classic stake-based cost. */
+  actionCost?(engine: GameEngine, player: PlayerState, action: PlayerAction, classic: number): number;
+  /** Border target radius, given the classic one (sized by players in world). */
+  borderTarget?(engine: GameEngine, classic: number): number;
+  /** Set to false to stop pellet spawns. */
+  pellets?: boolean;
+};
+
+/** Team colors and names, by team id - 1. */
+export const TEAM_COLORS: ReadonlyArray<{ r: number; g: number; b: number }> = [
+  { r: 59, g: 130, b: 246 },
+  { r: 239, g: 68, b: 68 },
+  { r: 34, g: 197, b: 94 },
+  { r: 234, g: 179, b: 8 },
+];
+export const TEAM_NAMES: readonly string[] = ["Blue", "Red", "Green", "Gold"];
+
+/**
+ * The team with the fewest live players under the engine's mode (lowest id on ties), or
+ * undefined if the mode has no teams.
+ */
+export function pickTeam(engine: GameEngine): number | undefined {
+  const count = engine.mode.teamCount ?? 0;
+  if (count <= 0) return undefined;
+  const sizes = new Array<number>(count + 1).fill(0);
+  for (const p of engine.players.values()) {
+    if (p.alive && p.team != null && p.team <= count) sizes[p.team] = (sizes[p.team] ?? 0) + 1;
+  }
+  let best = 1;
+  for (let team = 2; team <= count; team++) {
+    if ((sizes[team] ?? 0) < (sizes[best] ?? 0)) best = team;
+  }
+  return best;
+}
+
+function sameTeam(a: PlayerState, b: PlayerState): boolean {
+  return a.team != null && a.team === b.team;
+}
+
+// One tick, plus one per teammate within the exit beacon's range who is already charging an exit
+function sharedExitRate(engine: GameEngine, player: PlayerState): number {
+  const range = SIM_CONFIG.exit.beaconBaseRange + player.radius * SIM_CONFIG.exit.beaconRangePerRadius;
+  let rate = 1;
+  for (const other of engine.players.values()) {
+    if (!other.alive || other === player || other.exitHoldTicks <= 0 || !sameTeam(player, other)) continue;
+    const dx = other.x - player.x;
+    const dy = other.y - player.y;
+    if (dx * dx + dy * dy <= range * range) rate += 1;
+  }
+  return rate;
+}
+
+function alivePlayers(engine: GameEngine): number {
+  let count = 0;
+  for (const p of engine.players.values()) {
+    if (p.alive) count += 1;
+  }
+  return count;
+}
+
+export const GAME_MODES: Record<GameModeId, GameMode> = {
+  classic: { id: "classic" },
+
+  // Nobody cashes out until they're the last one standing; no pellets, and no wealth tax on the pot
+  suddenDeath: {
+    id: "suddenDeath",
+    exitAllowed: (engine) => alivePlayers(engine) <= 1,
+    tax: (_engine, _player, classic) => classic.base,
+    pellets: false,
+  },
+
+  // Harder hits, pricier actions, and an arena that closes in over each round
+  highStakes: {
+    id: "highStakes",
+    onDamage: (_engine, _target, damage) => Math.floor(damage * SIM_CONFIG.modes.highStakes.damageMult),
+    actionCost: (_engine, _player, _action, classic) => Math.floor(classic * SIM_CONFIG.modes.highStakes.actionCostMult),
+    borderTarget: (engine, classic) => {
+      const cfg = SIM_CONFIG.modes.highStakes;
+      const t = (engine.world.tick % cfg.roundTicks) / cfg.roundTicks;
+      return lerp(classic, classic * cfg.minRadiusFrac, t);
+    },
+  },
+
+  // No friendly fire, team-shared spill locks, and teammates exiting together charge faster
+  teams: {
+    id: "teams",
+    teamCount: SIM_CONFIG.modes.teams.count,
+    onDamage: (_engine, target, damage, attacker) =>
+      attacker && attacker !== target && sameTeam(target, attacker) ? 0 : damage,
+    exitRate: sharedExitRate,
+  },
+};
+
+export function isGameModeId(value: unknown): value is GameModeId {
+  return value === "classic" || value === "suddenDeath" || value === "highStakes" || value === "teams";
+}
@@ -0,0 +1,178 @@
+import { SIM_CONFIG } from "./config.js";
+import { mobilityMultiplier, segmentCircleIntersects } from "./math.js";
+
+/**
+ * Player movement integration (acceleration, friction, border, obstacles).
+ *
+ * Pure functions over a plain body so the exact same math can drive both the
+ * authoritative engine and client-side prediction of the local player
+ * (packages/client/src/world/prediction.ts imports these directly).
+ */
+
+export type MovementBody = {
+  x: number;
+  y: number;
+  prevX: number;
+  prevY: number;
+  vx: number;
+  vy: number;
+  radius: number;
+};
+
+export type MovementKeys = { w: boolean; a: boolean; s: boolean; d: boolean };
+
+export type MovementModifiers = {
+  dashCharging: boolean;
+  slowed: boolean;
+  shootCharging: boolean;
+  shootRecovering: boolean;
+};
+
+export type CircleObstacle = { x: number; y: number; radius: number };
+
+const TICK_SEC = SIM_CONFIG.tickMs / 1000;
+// POC parity: velocities are tuned in "units per 1/60s" even though the sim runs at 20Hz.
+const ENTITY_STEP = TICK_SEC * 60;
+
+/** POC parity: movement commitment affects acceleration, not max speed. */
+export function movementSpeedMod(mods: MovementModifiers): number {
+  let speedMod = 1;
+  if (mods.dashCharging) speedMod *= SIM_CONFIG.dash.chargeMoveMult;
+  if (mods.slowed) speedMod *= SIM_CONFIG.movement.damageSlowMult;
+  if (mods.shootCharging) speedMod *= SIM_CONFIG.shooting.chargeMoveMult;
+  else if (mods.shootRecovering) speedMod *= SIM_CONFIG.shooting.recoveryMoveMult;
+  return speedMod;
+}
+
+/** Accelerate along the held WASD direction (no-op when nothing is held). */
+export function accelerate(body: MovementBody, keys: MovementKeys, speedMod: number) {
+  const dirX = (keys.d ? 1 : 0) - (keys.a ? 1 : 0);
+  const dirY = (keys.s ? 1 : 0) - (keys.w ? 1 : 0);
+  if (dirX === 0 && dirY === 0) return;
+
+  const mag = Math.hypot(dirX, dirY) || 1;
+  const nX = dirX / mag;
+  const nY = dirY / mag;
+
+  const mobility = mobilityMultiplier(body.radius);
+  const accel = SIM_CONFIG.movement.accelPerSec * TICK_SEC * mobility * speedMod;
+  body.vx += nX * accel;
+  body.vy += nY * accel;
+}
+
+/** No movement input while exiting; just strong damping. */
+export function dampForExit(body: MovementBody) {
+  body.vx *= SIM_CONFIG.movement.exitDampMult;
+  body.vy *= SIM_CONFIG.movement.exitDampMult;
+}
+
+export function integratePosition(body: MovementBody, borderRadius: number) {
+  body.x += body.vx * ENTITY_STEP;
+  body.y += body.vy * ENTITY_STEP;
+  clampToBorder(body, borderRadius);
+}
+
+const FRICTION_FACTOR = Math.pow(SIM_CONFIG.movement.frictionPerSec, TICK_SEC);
+const OVERSPEED_DRAG_FACTOR = Math.pow(0.1, TICK_SEC);
+
+/** POC parity: exponential friction, strong drag when above max speed (not while dashing). */
+export function applyFriction(body: MovementBody, dashing: boolean) {
+  body.vx *= FRICTION_FACTOR;
+  body.vy *= FRICTION_FACTOR;
+  if (dashing) return;
+  const maxSpeed = SIM_CONFIG.movement.maxSpeedBase * mobilityMultiplier(body.radius);
+  const speed = Math.hypot(body.vx, body.vy);
+  if (speed > maxSpeed) {
+    body.vx *= OVERSPEED_DRAG_FACTOR;
+    body.vy *= OVERSPEED_DRAG_FACTOR;
+  }
+}
+
+/** Keep the body inside the circular border (POC parity). */
+export function clampToBorder(body: MovementBody, borderRadius: number) {
+  const r = Math.max(0, borderRadius - body.radius);
+  const d = Math.hypot(body.x, body.y);
+  if (d > r && d > 0.0001) {
+    const scale = r / d;
+    body.x *= scale;
+    body.y *= scale;
+  }
+}
+
+/**
+ * Bounce off the circular border (POC parity). `borderVelocity` is in units/sec.
+ */
+export function bounceOffBorder(body: MovementBody, borderRadius: number, borderVelocity: number) {
+  if (borderRadius <= 0) return;
+  const r = Math.max(0, borderRadius - body.radius);
+  const d = Math.hypot(body.x, body.y);
+  if (d <= r) return;
+
+  // Normal from center outward
+  let nx = 1, ny = 0;
+  if (d > 0.0001) {
+    nx = body.x / d;
+    ny = body.y / d;
+  }
+
+  // Snap to border
+  body.x = nx * r;
+  body.y = ny * r;
+
+  // Bounce velocity off border
+  const retention = SIM_CONFIG.border.bounceRetention;
+  const dot = body.vx * nx + body.vy * ny;
+  if (dot > 0) {
+    body.vx = body.vx - (1 + retention) * dot * nx;
+    body.vy = body.vy - (1 + retention) * dot * ny;
+  }
+
+  // If border is shrinking, add gentle inward bias (border velocity in entity units)
+  const borderVelEntityUnits = borderVelocity / 60;
+  if (borderVelEntityUnits < 0) {
+    body.vx += nx * borderVelEntityUnits;
+    body.vy += ny * borderVelEntityUnits;
+  }
+}
+
+/**
+ * Push the body out of one obstacle. Returns false when they don't touch.
+ */
+export function resolveObstacleCollision(body: MovementBody, o: CircleObstacle, dashing: boolean): boolean {
+  // POC parity: slightly forgiving obstacle collision radius.
+  const rr = body.radius + o.radius * 0.9;
+  const dx = body.x - o.x;
+  const dy = body.y - o.y;
+  const distSq = dx * dx + dy * dy;
+  const intersects = segmentCircleIntersects(body.prevX, body.prevY, body.x, body.y, o.x, o.y, rr);
+  if (!intersects && distSq >= rr * rr) return false;
+  const dist = Math.max(1e-4, Math.sqrt(distSq));
+  const nx = dx / dist;
+  const ny = dy / dist;
+  const overlap = rr - dist;
+  if (overlap > 0) {
+    body.x += nx * overlap;
+    body.y += ny * overlap;
+  } else {
+    body.x = o.x + nx * rr;
+    body.y = o.y + ny * rr;
+  }
+
+  // POC parity:
+  // - Dash impacts bounce elastically (retained momentum)
+  // - Non-dash impacts slide along the obstacle (reduces jitter / sticky walls)
+  const dot = body.vx * nx + body.vy * ny;
+  if (dot < 0) {
+    if (dashing) {
+      const retention = SIM_CONFIG.dash.bounceRetention;
+      body.vx = (body.vx - 2 * dot * nx) * retention;
+      body.vy = (body.vy - 2 * dot * ny) * retention;
+    } else {
+      body.vx = body.vx - dot * nx;
+      body.vy = body.vy - dot * ny;
+      body.vx *= 0.98;
+      body.vy *= 0.98;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,259 @@
+import type { EngineEvent, KillCause, KillSpill } from "./events.js";
+import type { GameModeId } from "./modes.js";
+
+/**
+ * v5: world:delta as packed binary (see wire.ts).
+ * v6: unchanged nodes are skipped and changed ones sent as field patches, with periodic keyframes.
+ * v7: deltas ack the last applied input `clientTick` (client-side prediction).
+ * v8: spectator connections (no player); their deltas carry the view focus.
+ * v9: player nodes carry their `bounty`.
+ * v10: player nodes carry their `team`.
+ */
+export const PROTOCOL_VERSION = 10;
+
+/** Legacy protocol still served (full JSON world:delta every tick). Clients that don't advertise a version get this. */
+export const MIN_PROTOCOL_VERSION = 4;
+
+export type DeltaEncoding = "json" | "binary";
+
+export type WorldInitDto = {
+  protocolVersion: number;
+  serverId: string;
+  tickMs: number;
+  // Legacy rectangular bounds (kept for compatibility)
+  world: { left: number; right: number; top: number; bottom: number };
+  // Dynamic circular border (POC parity)
+  border: {
+    radius: number;
+    targetRadius: number;
+    maxRadius: number;
+    minRadius: number;
+  };
+  massPerEth: number;
+  exitHoldMs: number;
+  massScale: number;
+  // How this client's world:delta messages are encoded (negotiated from the join options)
+  deltaEncoding: DeltaEncoding;
+  // Rule variant the room runs (see modes.ts; absent = classic)
+  gameMode?: GameModeId;
+};
+
+export type WorldDeltaDto = {
+  tick: number;
+  // Nodes the client doesn't hold yet (or every visible node on a keyframe)
+  nodes: NodeDto[];
+  // Changed fields of nodes the client already holds; nodes absent from both lists are unchanged
+  patches?: NodePatchDto[];
+  // Full resync: `nodes` is the complete visible set, anything else the client holds is stale
+  keyframe?: boolean;
+  // Latest InputMessage.clientTick applied before this tick was simulated (for reconciliation)
+  ackClientTick?: number;
+  removedIds: number[];
+  ownedIds: number[];
+  // Dynamic border state (POC parity)
+  border?: {
+    radius: number;
+    targetRadius: number;
+    velocity: number;
+  };
+  // Spectator connections only: where the server centred this view
+  spectator?: SpectatorViewDto;
+};
+
+export type SpectatorViewDto = {
+  x: number;
+  y: number;
+  // Node id of the followed player; absent for the free camera
+  followId?: number;
+};
+
+/**
+ * Combat events forwarded to nearby clients (`world:events`).
+ * Same shape as the engine events; only the subset clients care about is sent.
+ */
+export type WorldEventDto = Extract<
+  EngineEvent,
+  {
+    type:
+      | "bulletFired"
+      | "bulletHit"
+      | "dashStarted"
+      | "stunApplied"
+      | "overheat"
+      | "pickupCollected"
+      | "exitStarted"
+      | "exitInterrupted"
+      | "kill";
+  }
+>;
+
+export type WorldEventsDto = {
+  tick: number;
+  events: WorldEventDto[];
+};
+
+/**
+ * Room-wide kill feed entry (`killFeed`), broadcast to every client.
+ */
+export type KillFeedDto = {
+  tick: number;
+  victimSessionId: string;
+  victimName: string;
+  killerSessionId?: string;
+  killerName?: string;
+  cause: KillCause;
+  // Value released by the victim (mass units + wei at the room's massPerEth)
+  mass: number;
+  valueWei: string;
+  assists: Array<{ sessionId: string; name?: string; damage: number }>;
+  spills: KillSpill[];
+  // Bounty paid out to the killer (mass units, included in `spills`)
+  bounty?: number;
+};
+
+/**
+ * Room shutdown notice (`serverDraining`), broadcast every second while the room drains. When the
+ * countdown ends every live player is cashed out at their current mass and sent an `exitTicket`.
+ */
+export type DrainNoticeDto = {
+  secondsLeft: number;
+};
+
+/**
+ * One ranked player in a `leaderboard` message. `rank` is 1-based; `valueWei` is the mass at the
+ * room's massPerEth.
+ */
+export type LeaderboardEntryDto = {
+  rank: number;
+  sessionId: string;
+  displayName: string;
+  mass: number;
+  valueWei: string;
+  team?: number;
+};
+
+/** A team's combined live value (team modes only). */
+export type TeamStandingDto = {
+  team: number;
+  players: number;
+  mass: number;
+  valueWei: string;
+};
+
+/**
+ * Room-wide ranking by total mass (`leaderboard`), sent to every client once per second: the top
+ * `LEADERBOARD_SIZE` players plus the receiving player's own entry (absent for spectators).
+ */
+export type LeaderboardDto = {
+  tick: number;
+  totalPlayers: number;
+  top: LeaderboardEntryDto[];
+  you?: LeaderboardEntryDto;
+  // Team modes: every team, by combined value
+  teams?: TeamStandingDto[];
+};
+
+/**
+ * Coarse arena overview (`world:minimap`), sent to every client every couple of seconds. Densities
+ * are counts per cell of a `size`×`size` grid over the world square [-worldRadius, worldRadius]²
+ * (row-major from the top-left), so nobody learns where exactly an enemy is.
+ */
+export type MinimapDto = {
+  tick: number;
+  worldRadius: number;
+  border: { radius: number; targetRadius: number };
+  // Static, so only in a connection's first minimap
+  obstacles?: Array<{ x: number; y: number; radius: number }>;
+  grid: { size: number; players: number[]; pickups: number[] };
+};
+
+export type InputMessage = {
+  // Movement intent
+  w: boolean;
+  a: boolean;
+  s: boolean;
+  d: boolean;
+
+  // Aim target in world space
+  aimX: number;
+  aimY: number;
+
+  // Holds
+  shoot: boolean;
+  dash: boolean;
+  exit: boolean;
+
+  // Client prediction tick this input belongs to; echoed back as WorldDeltaDto.ackClientTick
+  clientTick?: number;
+};
+
+/**
+ * Spectator camera control (`spectate`). Following a player takes precedence;
+ * `followSessionId: null` (or an unknown/dead player) switches to the free camera at `x`/`y`.
+ */
+export type SpectateMessage = {
+  followSessionId?: string | null;
+  x?: number;
+  y?: number;
+};
+
+/** Player `NodeDto.flags` bits. */
+export const NODE_FLAG_DASHING = 1 << 0;
+export const NODE_FLAG_STUNNED = 1 << 1;
+export const NODE_FLAG_EXITING = 1 << 2;
+/** Carries a bounty (see SIM_CONFIG.bounty). */
+export const NODE_FLAG_BOUNTY = 1 << 3;
+
+export type NodeDto =
+  | {
+      kind: "player";
+      id: number;
+      ownerSessionId: string;
+      displayName: string;
+      x: number;
+      y: number;
+      radius: number;
+      mass: number;
+      spawnMass?: number;
+      color: { r: number; g: number; b: number };
+      flags: number;
+      exitProgress?: number;
+      vx?: number;
+      vy?: number;
+      aimX?: number;
+      aimY?: number;
+      dashChargeRatio?: number;
+      shootChargeRatio?: number;
+      dashCooldownTicks?: number;
+      dashActiveTicks?: number;
+      stunTicks?: number;
+      slowTicks?: number;
+      shootRecoveryTicks?: number;
+      exitCombatTagTicks?: number;
+      hitFlashTicks?: number;
+      // Bounty mass carried on top of `mass` (paid to whoever kills the player)
+      bounty?: number;
+      // Team id in team modes
+      team?: number;
+    }
+  | { kind: "bullet"; id: number; x: number; y: number; radius: number; flags: number }
+  | { kind: "pellet"; id: number; x: number; y: number; radius: number; mass: number; flags: number }
+  | {
+      kind: "spill";
+      id: number;
+      x: number;
+      y: number;
+      radius: number;
+      mass: number;
+      attackerSessionId?: string;
+      victimSessionId?: string;
+      unlockTick?: number;
+      flags: number;
+    }
+  | { kind: "spillCluster"; id: number; x: number; y: number; radius: number; mass: number; count: number; flags: number }
+  | { kind: "obstacle"; id: number; x: number; y: number; radius: number; flags: number };
+
+/** A node's id + kind plus only the fields that changed since the client's last copy. */
+export type NodePatchDto = NodePatchOf<NodeDto>;
+
+type NodePatchOf<N> = N extends NodeDto ? Pick<N, "id" | "kind"> & Partial<Omit<N, "id" | "kind">> : never;
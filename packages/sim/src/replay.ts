@@ -0,0 +1,309 @@
+import { GameEngine } from "./engine.js";
+import { GAME_MODES, isGameModeId } from "./modes.js";
+import type { PlayerInput } from "./state.js";
+
+/**
+ * Deterministic replay recording + playback.
+ *
+ * The engine is fully deterministic given its seed (see rng.ts) and the ordered
+ * list of external mutations applied between ticks. A replay therefore only
+ * stores those mutations, keyed by the tick they were applied at, plus periodic
+ * world hashes so a headless re-run can prove it reached the same state.
+ *
+ * Frame semantics: commands in frame T were applied while `world.tick === T`
+ * (i.e. after step T and before step T+1). `hash` is the world hash right after
+ * step T.
+ *
+ * Long recordings are flushed as numbered segments (`ReplayRecorder.flush`), each
+ * holding only the frames since the previous one, so a recorder's memory stays
+ * bounded; `joinReplaySegments` puts them back together for playback.
+ */
+
+/** v2: world hashes cover bounties. v3: and teams (players and team-locked spills). */
+export const REPLAY_VERSION = 3;
+
+/** Hash the world every N ticks (1s at 20Hz). */
+export const REPLAY_CHECKPOINT_INTERVAL_TICKS = 20;
+
+export type ReplayCommand =
+  | { op: "seedRng"; seed: number }
+  | { op: "initializeObstacles"; count: number }
+  | {
+      op: "addPlayer";
+      sessionId: string;
+      wallet: `0x${string}`;
+      displayName: string;
+      spawnMass: number;
+      isBot?: boolean;
+      team?: number;
+    }
+  | { op: "removePlayer"; sessionId: string }
+  | { op: "rekeyPlayerSession"; oldSessionId: string; newSessionId: string }
+  | { op: "setInput"; sessionId: string; input: Partial<PlayerInput> }
+  | { op: "markDisconnected"; sessionId: string; tick: number }
+  | { op: "markReconnected"; sessionId: string }
+  | { op: "removePickup"; id: number }
+  | { op: "revokeBounty"; sessionId: string; mass: number };
+
+export type ReplayFrame = {
+  tick: number;
+  commands?: ReplayCommand[];
+  hash?: string;
+};
+
+export type ReplayFile = {
+  version: number;
+  meta: Record<string, string | number>;
+  startedAt: number;
+  endTick: number;
+  finalHash: string;
+  frames: ReplayFrame[];
+};
+
+/** One flushed part of a recording (numbered from 0); `endTick`/`finalHash` are as of the flush. */
+export type ReplaySegment = ReplayFile & { segment: number };
+
+export type ReplayVerification =
+  | { ok: true; ticks: number; finalHash: string }
+  | { ok: false; tick: number; expected: string; actual: string };
+
+/**
+ * Collects engine mutations while attached via `engine.setRecorder()`.
+ *
+ * Recording must start on a fresh engine (tick 0) since replays don't carry an
+ * initial snapshot.
+ */
+export class ReplayRecorder {
+  private frames: ReplayFrame[] = [];
+  private readonly meta: Record<string, string | number>;
+  private readonly startedAt = Date.now();
+  private segment = 0;
+
+  constructor(meta: Record<string, string | number> = {}) {
+    this.meta = meta;
+  }
+
+  record(tick: number, command: ReplayCommand) {
+    const frame = this.frameAt(tick);
+    (frame.commands ??= []).push(command);
+  }
+
+  afterStep(engine: GameEngine) {
+    const tick = engine.world.tick;
+    if (tick % REPLAY_CHECKPOINT_INTERVAL_TICKS === 0) {
+      this.frameAt(tick).hash = hashWorld(engine);
+    }
+  }
+
+  /** The whole recording (only while nothing has been flushed as a segment). */
+  toFile(engine: GameEngine): ReplayFile {
+    if (this.segment > 0) {
+      throw new Error("Recording was flushed in segments; join them with joinReplaySegments");
+    }
+    return this.build(engine, this.frames.slice());
+  }
+
+  /** Hand over the frames recorded since the last flush as the next segment, and forget them. */
+  flush(engine: GameEngine): ReplaySegment {
+    const frames = this.frames;
+    this.frames = [];
+    return { ...this.build(engine, frames), segment: this.segment++ };
+  }
+
+  private build(engine: GameEngine, frames: ReplayFrame[]): ReplayFile {
+    return {
+      version: REPLAY_VERSION,
+      meta: { ...this.meta, mode: engine.mode.id },
+      startedAt: this.startedAt,
+      endTick: engine.world.tick,
+      finalHash: hashWorld(engine),
+      frames,
+    };
+  }
+
+  private frameAt(tick: number): ReplayFrame {
+    const last = this.frames[this.frames.length - 1];
+    if (last && last.tick === tick) return last;
+    const frame: ReplayFrame = { tick };
+    this.frames.push(frame);
+    return frame;
+  }
+}
+
+/**
+ * Reassemble a recording from all of its segments (any order). Commands recorded at a tick after
+ * that tick's segment was flushed land in the next segment and are merged back into one frame.
+ */
+export function joinReplaySegments(segments: ReplaySegment[]): ReplayFile {
+  const ordered = [...segments].sort((a, b) => a.segment - b.segment);
+  const last = ordered[ordered.length - 1];
+  if (!last) throw new Error("No replay segments");
+  ordered.forEach((s, i) => {
+    if (s.segment !== i) throw new Error(`Replay segment ${i} is missing`);
+  });
+
+  const frames: ReplayFrame[] = [];
+  for (const frame of ordered.flatMap((s) => s.frames)) {
+    const prev = frames[frames.length - 1];
+    if (prev && prev.tick === frame.tick) {
+      if (frame.commands) (prev.commands ??= []).push(...frame.commands);
+      if (frame.hash) prev.hash = frame.hash;
+      continue;
+    }
+    frames.push({ ...frame });
+  }
+
+  return {
+    version: last.version,
+    meta: last.meta,
+    startedAt: last.startedAt,
+    endTick: last.endTick,
+    finalHash: last.finalHash,
+    frames,
+  };
+}
+
+/**
+ * Canonical world hash (two independent FNV-1a lanes → 64 bits, hex).
+ * Entities are visited in id order so map insertion order never matters.
+ */
+export function hashWorld(engine: GameEngine): string {
+  const w = engine.world;
+  const parts: Array<string | number> = [
+    w.tick,
+    w.rng.seed,
+    w.borderRadius,
+    w.borderVelocity,
+    w.baselineSpawnMass,
+    w.unclaimedBountyMass,
+  ];
+
+  for (const p of [...engine.players.values()].sort((a, b) => a.id - b.id)) {
+    parts.push(
+      "p",
+      p.id,
+      p.sessionId,
+      p.x,
+      p.y,
+      p.vx,
+      p.vy,
+      p.mass,
+      p.radius,
+      p.alive ? 1 : 0,
+      p.stunTicks,
+      p.slowTicks,
+      p.dashCooldownTicks,
+      p.dashActiveTicks,
+      p.exitProgress,
+      p.baseTaxCarry,
+      p.bounty,
+      p.team ?? 0,
+      p.disconnectedAtTick ?? -1,
+    );
+  }
+  for (const b of [...engine.bullets.values()].sort((a, b) => a.id - b.id)) {
+    parts.push("b", b.id, b.x, b.y, b.vx, b.vy, b.damageMass, b.ttlTicks);
+  }
+  for (const k of [...engine.pickups.values()].sort((a, b) => a.id - b.id)) {
+    parts.push("k", k.id, k.kind, k.x, k.y, k.mass, k.unlockTick ?? -1, k.lockTeam ?? 0);
+  }
+  for (const o of [...engine.obstacles.values()].sort((a, b) => a.id - b.id)) {
+    parts.push("o", o.id, o.x, o.y, o.radius);
+  }
+
+  const str = parts.join("|");
+  let h1 = 2166136261;
+  let h2 = 0x811c9dc5 ^ 0x5bd1e995;
+  for (let i = 0; i < str.length; i++) {
+    const c = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 16777619);
+    h2 = Math.imul(h2 ^ c, 16777619);
+  }
+  return (h1 >>> 0).toString(16).padStart(8, "0") + (h2 >>> 0).toString(16).padStart(8, "0");
+}
+
+function applyCommand(engine: GameEngine, cmd: ReplayCommand) {
+  switch (cmd.op) {
+    case "seedRng":
+      engine.seedRng(cmd.seed);
+      break;
+    case "initializeObstacles":
+      engine.initializeObstacles(cmd.count);
+      break;
+    case "addPlayer":
+      engine.addPlayer({
+        sessionId: cmd.sessionId,
+        wallet: cmd.wallet,
+        displayName: cmd.displayName,
+        spawnMass: cmd.spawnMass,
+        isBot: cmd.isBot,
+        team: cmd.team,
+      });
+      break;
+    case "removePlayer":
+      engine.removePlayer(cmd.sessionId);
+      break;
+    case "rekeyPlayerSession":
+      engine.rekeyPlayerSession(cmd.oldSessionId, cmd.newSessionId);
+      break;
+    case "setInput":
+      engine.setInput(cmd.sessionId, cmd.input);
+      break;
+    case "markDisconnected":
+      engine.markDisconnected(cmd.sessionId, cmd.tick);
+      break;
+    case "markReconnected":
+      engine.markReconnected(cmd.sessionId);
+      break;
+    case "removePickup":
+      engine.removePickup(cmd.id);
+      break;
+    case "revokeBounty":
+      engine.revokeBounty(cmd.sessionId, cmd.mass);
+      break;
+  }
+}
+
+/**
+ * Headless playback: re-runs `step()` on a fresh engine, applying recorded
+ * commands between ticks, and verifies every checkpoint hash plus the final one.
+ */
+export function playReplay(
+  file: ReplayFile,
+  options: { onTick?: (engine: GameEngine) => void } = {},
+): ReplayVerification {
+  if (file.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version ${file.version} (expected ${REPLAY_VERSION})`);
+  }
+
+  const framesByTick = new Map<number, ReplayFrame>();
+  for (const frame of file.frames) framesByTick.set(frame.tick, frame);
+
+  // Replays recorded before game modes ran classic rules
+  const engine = new GameEngine(isGameModeId(file.meta.mode) ? GAME_MODES[file.meta.mode] : GAME_MODES.classic);
+  const applyFrame = (tick: number) => {
+    const frame = framesByTick.get(tick);
+    if (!frame?.commands) return;
+    for (const cmd of frame.commands) applyCommand(engine, cmd);
+  };
+
+  applyFrame(0);
+  while (engine.world.tick < file.endTick) {
+    engine.step();
+    const tick = engine.world.tick;
+    options.onTick?.(engine);
+
+    const expected = framesByTick.get(tick)?.hash;
+    if (expected) {
+      const actual = hashWorld(engine);
+      if (actual !== expected) return { ok: false, tick, expected, actual };
+    }
+    applyFrame(tick);
+  }
+
+  const finalHash = hashWorld(engine);
+  if (finalHash !== file.finalHash) {
+    return { ok: false, tick: engine.world.tick, expected: file.finalHash, actual: finalHash };
+  }
+  return { ok: true, ticks: engine.world.tick, finalHash };
+}
@@ -0,0 +1,21 @@
+import type { BulletState, ObstacleState, PickupState, PlayerState, WorldState } from "./state.js";
+
+/**
+ * Full engine state for crash recovery (`GameEngine.toSnapshot()` / `restoreSnapshot()`).
+ *
+ * Unlike a replay, a snapshot is the state itself: restoring it and stepping gives the same
+ * world (and `hashWorld`) as the engine it was taken from, since the RNG seed is part of
+ * `world`. Plain JSON-safe data, so it can be stored as-is.
+ */
+
+export const SNAPSHOT_VERSION = 1;
+
+export type EngineSnapshot = {
+  version: number;
+  nextId: number;
+  world: WorldState;
+  players: PlayerState[];
+  bullets: BulletState[];
+  pickups: PickupState[];
+  obstacles: ObstacleState[];
+};
@@ -40,6 +40,10 @@ export type PlayerState = {
   radius: number;
   color: { r: number; g: number; b: number };
   alive: boolean;
+  /** Server-driven bot (funded from the house account, never issued exit tickets). */
+  isBot?: boolean;
+  /** Team id (1-based) in team modes; absent otherwise. */
+  team?: number;
   disconnectedAtTick?: number;
   // Input + edges
   input: PlayerInput;
@@ -62,6 +66,12 @@ export type PlayerState = {
   exitCombatTagTicks: number;
   hitFlashTicks: number;
   baseTaxCarry: number;
+  // Budget-funded value paid to the player's killer (not part of `mass`, never withdrawn)
+  bounty: number;
+  // Kill attribution
+  lastDamagerSessionId?: string;
+  lastDamagedTick?: number;
+  damageTakenBy: Record<string, number>;
   // Exit state
   exitHoldTicks: number;
   exitProgress: number;
@@ -95,6 +105,8 @@ export type PickupState = {
   attackerSessionId?: string;
   victimSessionId?: string;
   unlockTick?: number;
+  // Team modes: the lock holder's team, whose members may collect before unlockTick too
+  lockTeam?: number;
   spawnTick: number;
 };
 
@@ -116,4 +128,6 @@ export type WorldState = {
   borderTargetRadius: number;
   borderVelocity: number;
   playersInWorld: number;
+  // Bounties of players removed between ticks, recycled on the next one
+  unclaimedBountyMass: number;
 };
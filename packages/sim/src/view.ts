@@ -0,0 +1,243 @@
+import { SIM_CONFIG } from "./config.js";
+import type { GameEngine, WorldNode } from "./engine.js";
+import type { EngineEvent } from "./events.js";
+import type {
+  LeaderboardDto,
+  LeaderboardEntryDto,
+  MinimapDto,
+  NodeDto,
+  TeamStandingDto,
+  WorldEventDto,
+} from "./protocol.js";
+import type { PlayerState } from "./state.js";
+
+/**
+ * What a player gets to see of the world: view box, node DTOs and event filtering.
+ *
+ * Shared by the server room (per-client visibility deltas) and offline practice
+ * so both feed the client exactly the same stream.
+ */
+
+export type ViewBox = {
+  centerX: number;
+  centerY: number;
+  topY: number;
+  bottomY: number;
+  leftX: number;
+  rightX: number;
+};
+
+// Players listed in every `leaderboard` message (each receiver also gets their own entry)
+export const LEADERBOARD_SIZE = 10;
+
+// Minimap density grid cells per side (~940 units each at the max world radius)
+export const MINIMAP_GRID_SIZE = 24;
+
+// Events this far outside the view box are still forwarded (about to scroll into view)
+const EVENT_VIEW_MARGIN = 240;
+
+// Engine events forwarded to clients as `world:events` (personal events reach involved players anywhere)
+const FORWARDED_EVENT_TYPES: ReadonlySet<EngineEvent["type"]> = new Set<WorldEventDto["type"]>([
+  "bulletFired",
+  "bulletHit",
+  "dashStarted",
+  "stunApplied",
+  "overheat",
+  "pickupCollected",
+  "exitStarted",
+  "exitInterrupted",
+  "kill",
+]);
+
+/**
+ * View box around a focus point (a player, or a spectator camera with the spawn radius);
+ * smaller blobs see a little further (POC parity).
+ */
+export function buildViewBox(focus: Pick<PlayerState, "x" | "y" | "radius">): ViewBox {
+  const cx = focus.x;
+  const cy = focus.y;
+  const sizeFactor = Math.min(1.4, Math.max(0.6, SIM_CONFIG.radiusAtSpawn / Math.max(1, focus.radius)));
+  const radius = Math.max(
+    SIM_CONFIG.viewMinRadius,
+    Math.min(SIM_CONFIG.viewMaxRadius, SIM_CONFIG.viewBaseRadius * sizeFactor),
+  );
+
+  return {
+    centerX: cx,
+    centerY: cy,
+    topY: cy - radius,
+    bottomY: cy + radius,
+    leftX: cx - radius,
+    rightX: cx + radius,
+  };
+}
+
+export function nodeToDto(node: WorldNode): NodeDto {
+  if (node.kind === "player") {
+    return {
+      kind: "player",
+      id: node.id,
+      ownerSessionId: node.ownerSessionId,
+      displayName: node.displayName,
+      x: node.x,
+      y: node.y,
+      radius: node.radius,
+      mass: node.mass,
+      spawnMass: node.spawnMass,
+      color: node.color,
+      flags: node.flags,
+      exitProgress: node.exitProgress,
+      vx: node.vx,
+      vy: node.vy,
+      aimX: node.aimX,
+      aimY: node.aimY,
+      dashChargeRatio: node.dashChargeRatio,
+      shootChargeRatio: node.shootChargeRatio,
+      dashCooldownTicks: node.dashCooldownTicks,
+      dashActiveTicks: node.dashActiveTicks,
+      stunTicks: node.stunTicks,
+      slowTicks: node.slowTicks,
+      shootRecoveryTicks: node.shootRecoveryTicks,
+      exitCombatTagTicks: node.exitCombatTagTicks,
+      hitFlashTicks: node.hitFlashTicks,
+      bounty: node.bounty,
+      team: node.team,
+    };
+  }
+  if (node.kind === "bullet") {
+    return { kind: "bullet", id: node.id, x: node.x, y: node.y, radius: node.radius, flags: node.flags };
+  }
+  if (node.kind === "pellet") {
+    return { kind: "pellet", id: node.id, x: node.x, y: node.y, radius: node.radius, mass: node.mass, flags: node.flags };
+  }
+  if (node.kind === "spill") {
+    return {
+      kind: "spill",
+      id: node.id,
+      x: node.x,
+      y: node.y,
+      radius: node.radius,
+      mass: node.mass,
+      attackerSessionId: node.attackerSessionId,
+      victimSessionId: node.victimSessionId,
+      unlockTick: node.unlockTick,
+      flags: node.flags,
+    };
+  }
+  return { kind: "obstacle", id: node.id, x: node.x, y: node.y, radius: node.radius, flags: node.flags };
+}
+
+export function isWorldEvent(e: EngineEvent): e is WorldEventDto {
+  return FORWARDED_EVENT_TYPES.has(e.type);
+}
+
+function eventInvolves(e: WorldEventDto, sessionId: string): boolean {
+  switch (e.type) {
+    case "bulletFired":
+      return e.ownerSessionId === sessionId;
+    case "bulletHit":
+      return e.targetSessionId === sessionId || e.attackerSessionId === sessionId;
+    case "stunApplied":
+      return e.sessionId === sessionId || e.sourceSessionId === sessionId;
+    case "kill":
+      return e.victimSessionId === sessionId || e.killerSessionId === sessionId;
+    default:
+      return e.sessionId === sessionId;
+  }
+}
+
+/**
+ * Whether a player should receive an event: they are part of it, or it happened near their view box.
+ * Pickup collections are only sent to the collector; everyone else sees the node disappear.
+ */
+export function isEventVisibleTo(e: WorldEventDto, sessionId: string, box: ViewBox | null): boolean {
+  if (eventInvolves(e, sessionId)) return true;
+  if (e.type === "pickupCollected" || !box) return false;
+  if (e.x < box.leftX - EVENT_VIEW_MARGIN || e.x > box.rightX + EVENT_VIEW_MARGIN) return false;
+  if (e.y < box.topY - EVENT_VIEW_MARGIN || e.y > box.bottomY + EVENT_VIEW_MARGIN) return false;
+  return true;
+}
+
+/**
+ * Every live player ranked by total mass, heaviest first (ties keep join order). `valueWei`
+ * converts mass at the room's massPerEth.
+ */
+export function rankPlayers(engine: GameEngine, valueWei: (mass: number) => string): LeaderboardEntryDto[] {
+  const players = [...engine.players.values()].filter((p) => p.alive);
+  const masses = new Map(players.map((p) => [p.sessionId, engine.getPlayerTotalMass(p.sessionId)]));
+  players.sort((a, b) => (masses.get(b.sessionId) ?? 0) - (masses.get(a.sessionId) ?? 0));
+  return players.map((p, i) => {
+    const mass = masses.get(p.sessionId) ?? 0;
+    const entry: LeaderboardEntryDto = { rank: i + 1, sessionId: p.sessionId, displayName: p.displayName, mass, valueWei: valueWei(mass) };
+    if (p.team != null) entry.team = p.team;
+    return entry;
+  });
+}
+
+/**
+ * The `leaderboard` message for one receiver (`sessionId` null for spectators).
+ */
+export function buildLeaderboard(ranking: LeaderboardEntryDto[], sessionId: string | null, tick: number): LeaderboardDto {
+  const you = sessionId === null ? undefined : ranking.find((entry) => entry.sessionId === sessionId);
+  const leaderboard: LeaderboardDto = { tick, totalPlayers: ranking.length, top: ranking.slice(0, LEADERBOARD_SIZE), you };
+  const teams = teamStandings(ranking);
+  if (teams.length > 0) leaderboard.teams = teams;
+  return leaderboard;
+}
+
+// Combined value per team, highest first (empty outside team modes)
+function teamStandings(ranking: LeaderboardEntryDto[]): TeamStandingDto[] {
+  const byTeam = new Map<number, { players: number; mass: number; valueWei: bigint }>();
+  for (const entry of ranking) {
+    if (entry.team == null) continue;
+    const standing = byTeam.get(entry.team) ?? { players: 0, mass: 0, valueWei: 0n };
+    standing.players += 1;
+    standing.mass += entry.mass;
+    standing.valueWei += BigInt(entry.valueWei);
+    byTeam.set(entry.team, standing);
+  }
+  return [...byTeam.entries()]
+    .sort((a, b) => b[1].mass - a[1].mass || a[0] - b[0])
+    .map(([team, s]) => ({ team, players: s.players, mass: s.mass, valueWei: s.valueWei.toString() }));
+}
+
+/**
+ * The `world:minimap` message: border, player/pickup density and (on request) the obstacle layout.
+ */
+export function buildMinimap(engine: GameEngine, tick: number, includeObstacles: boolean): MinimapDto {
+  const size = MINIMAP_GRID_SIZE;
+  const worldRadius = SIM_CONFIG.border.worldRadiusMax;
+  const cellSize = (worldRadius * 2) / size;
+  const cellOf = (x: number, y: number) => {
+    const cx = Math.min(size - 1, Math.max(0, Math.floor((x + worldRadius) / cellSize)));
+    const cy = Math.min(size - 1, Math.max(0, Math.floor((y + worldRadius) / cellSize)));
+    return cy * size + cx;
+  };
+
+  const players = new Array<number>(size * size).fill(0);
+  const pickups = new Array<number>(size * size).fill(0);
+  for (const p of engine.players.values()) {
+    if (!p.alive) continue;
+    const cell = cellOf(p.x, p.y);
+    players[cell] = (players[cell] ?? 0) + 1;
+  }
+  for (const k of engine.pickups.values()) {
+    const cell = cellOf(k.x, k.y);
+    pickups[cell] = (pickups[cell] ?? 0) + 1;
+  }
+
+  const minimap: MinimapDto = {
+    tick,
+    worldRadius,
+    border: { radius: engine.world.borderRadius, targetRadius: engine.world.borderTargetRadius },
+    grid: { size, players, pickups },
+  };
+  if (includeObstacles) {
+    minimap.obstacles = [...engine.obstacles.values()].map((o) => ({
+      x: Math.round(o.x),
+      y: Math.round(o.y),
+      radius: Math.round(o.radius),
+    }));
+  }
+  return minimap;
+}
@@ -0,0 +1,469 @@
+import type { NodeDto, NodePatchDto, WorldDeltaDto } from "./protocol.js";
+
+/**
+ * Packed binary encoding for `world:delta` (protocol v5+).
+ *
+ * Layout (all varints are LEB128, signed values are zigzag-encoded):
+ *   u8      wire version
+ *   varuint tick
+ *   u8      header flags (bit0: border present, bit1: keyframe, bit2: input ack present, bit3: spectator view)
+ *   [f32 radius, f32 targetRadius, f32 velocity]   if border present
+ *   [varuint ackClientTick]                        if input ack present
+ *   [varint x, varint y, varuint followId]         if spectator view (positions quantized, followId 0 = free camera)
+ *   varuint newStringCount, then (varuint id, varuint byteLen, utf8 bytes)*
+ *   varuint ownedCount, varuint ids*
+ *   varuint removedCount, varuint ids*
+ *   varuint nodeCount, then per node:   u8 kind, varuint id, every field of NODE_FIELDS[kind]
+ *   varuint patchCount, then per patch: u8 kind, varuint id, varuint field mask, masked fields
+ *
+ * Strings (sessionIds, display names) are interned per client: each is sent once
+ * with an id, then referenced by id. Id 0 means "absent". The table resets on world:init.
+ */
+
+export const DELTA_WIRE_VERSION = 4;
+
+/** Positions/radii/aim are quantized to 1/8 world unit. */
+export const POSITION_QUANT = 8;
+/** Player velocities are quantized to 1/100 unit per 1/60s. */
+export const VELOCITY_QUANT = 100;
+
+export const NODE_KIND_CODES = {
+  player: 0,
+  bullet: 1,
+  pellet: 2,
+  spill: 3,
+  spillCluster: 4,
+  obstacle: 5,
+} as const satisfies Record<NodeDto["kind"], number>;
+
+const HEADER_FLAG_BORDER = 1 << 0;
+const HEADER_FLAG_KEYFRAME = 1 << 1;
+const HEADER_FLAG_ACK = 1 << 2;
+const HEADER_FLAG_SPECTATOR = 1 << 3;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class ByteWriter {
+  private buf = new Uint8Array(1024);
+  private view = new DataView(this.buf.buffer);
+  length = 0;
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(value: number) {
+    this.ensure(1);
+    this.buf[this.length++] = value & 0xff;
+  }
+
+  f32(value: number) {
+    this.ensure(4);
+    this.view.setFloat32(this.length, value, true);
+    this.length += 4;
+  }
+
+  varuint(value: number) {
+    let n = Math.max(0, Math.floor(value));
+    this.ensure(8);
+    while (n >= 0x80) {
+      this.buf[this.length++] = (n % 0x80) | 0x80;
+      n = Math.floor(n / 0x80);
+    }
+    this.buf[this.length++] = n;
+  }
+
+  varint(value: number) {
+    const n = Math.round(value);
+    this.varuint(n >= 0 ? n * 2 : -n * 2 - 1);
+  }
+
+  bytes(data: Uint8Array) {
+    this.ensure(data.length);
+    this.buf.set(data, this.length);
+    this.length += data.length;
+  }
+
+  finish(): Uint8Array {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+class ByteReader {
+  private readonly view: DataView;
+  offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  f32(): number {
+    const v = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return v;
+  }
+
+  varuint(): number {
+    let result = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.u8();
+      result += (byte & 0x7f) * scale;
+      if (byte < 0x80) return result;
+      scale *= 0x80;
+    }
+  }
+
+  varint(): number {
+    const z = this.varuint();
+    return z % 2 === 0 ? z / 2 : -(z + 1) / 2;
+  }
+
+  utf8(length: number): string {
+    const s = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    this.offset += length;
+    return s;
+  }
+}
+
+/**
+ * Per-client string table. Strings are assigned ids on first use and queued so the
+ * next encoded delta carries their definition.
+ */
+export class StringInterner {
+  private readonly ids = new Map<string, number>();
+  private pending: Array<[number, string]> = [];
+  private nextId = 1;
+
+  intern(value: string | undefined): number {
+    if (value == null) return 0;
+    const existing = this.ids.get(value);
+    if (existing) return existing;
+    const id = this.nextId++;
+    this.ids.set(value, id);
+    this.pending.push([id, value]);
+    return id;
+  }
+
+  drainPending(): Array<[number, string]> {
+    const out = this.pending;
+    this.pending = [];
+    return out;
+  }
+
+  reset() {
+    this.ids.clear();
+    this.pending = [];
+    this.nextId = 1;
+  }
+}
+
+type FieldType =
+  | "pos" // zigzag varint, * POSITION_QUANT
+  | "upos" // varuint, * POSITION_QUANT
+  | "u8"
+  | "uint" // varuint
+  | "optUint" // varuint, 0 = absent
+  | "vel" // zigzag varint, * VELOCITY_QUANT
+  | "ratio" // u8, 0..1 scaled to 0..255
+  | "rgb" // 3x u8
+  | "str" // interned string id
+  | "optStr"; // interned string id, 0 = absent
+
+type FieldSpec = { key: string; type: FieldType };
+
+const COMMON_FIELDS: FieldSpec[] = [
+  { key: "x", type: "pos" },
+  { key: "y", type: "pos" },
+  { key: "radius", type: "upos" },
+  { key: "flags", type: "u8" },
+];
+
+/**
+ * Field order per kind. A node patch's mask has bit i set when field i is present,
+ * so fields may only ever be appended (changing the order is a wire version bump).
+ */
+export const NODE_FIELDS: Record<NodeDto["kind"], readonly FieldSpec[]> = {
+  player: [
+    ...COMMON_FIELDS,
+    { key: "ownerSessionId", type: "str" },
+    { key: "displayName", type: "str" },
+    { key: "mass", type: "uint" },
+    { key: "spawnMass", type: "uint" },
+    { key: "color", type: "rgb" },
+    { key: "exitProgress", type: "ratio" },
+    { key: "vx", type: "vel" },
+    { key: "vy", type: "vel" },
+    { key: "aimX", type: "pos" },
+    { key: "aimY", type: "pos" },
+    { key: "dashChargeRatio", type: "ratio" },
+    { key: "shootChargeRatio", type: "ratio" },
+    { key: "dashCooldownTicks", type: "uint" },
+    { key: "dashActiveTicks", type: "uint" },
+    { key: "stunTicks", type: "uint" },
+    { key: "slowTicks", type: "uint" },
+    { key: "shootRecoveryTicks", type: "uint" },
+    { key: "exitCombatTagTicks", type: "uint" },
+    { key: "hitFlashTicks", type: "uint" },
+    { key: "bounty", type: "uint" },
+    { key: "team", type: "optUint" },
+  ],
+  bullet: COMMON_FIELDS,
+  pellet: [...COMMON_FIELDS, { key: "mass", type: "uint" }],
+  spill: [
+    ...COMMON_FIELDS,
+    { key: "mass", type: "uint" },
+    { key: "attackerSessionId", type: "optStr" },
+    { key: "victimSessionId", type: "optStr" },
+    { key: "unlockTick", type: "optUint" },
+  ],
+  spillCluster: [...COMMON_FIELDS, { key: "mass", type: "uint" }, { key: "count", type: "uint" }],
+  obstacle: COMMON_FIELDS,
+};
+
+type Rgb = { r: number; g: number; b: number };
+
+/** The value as it will appear on the wire; two values that quantize alike are "unchanged". */
+function quantize(type: FieldType, value: unknown): number | string | undefined {
+  switch (type) {
+    case "pos":
+    case "upos":
+      return Math.round(((value as number | undefined) ?? 0) * POSITION_QUANT);
+    case "vel":
+      return Math.round(((value as number | undefined) ?? 0) * VELOCITY_QUANT);
+    case "ratio":
+      return Math.round(Math.max(0, Math.min(1, (value as number | undefined) ?? 0)) * 255);
+    case "rgb": {
+      const c = value as Rgb;
+      return (c.r << 16) | (c.g << 8) | c.b;
+    }
+    case "u8":
+    case "uint":
+    case "optUint":
+      return Math.round((value as number | undefined) ?? 0);
+    case "str":
+      return (value as string | undefined) ?? "";
+    case "optStr":
+      return value as string | undefined;
+  }
+}
+
+function writeField(w: ByteWriter, type: FieldType, value: unknown, strings: StringInterner) {
+  switch (type) {
+    case "pos":
+    case "vel":
+      w.varint(quantize(type, value) as number);
+      break;
+    case "upos":
+    case "uint":
+    case "optUint":
+      w.varuint(quantize(type, value) as number);
+      break;
+    case "u8":
+    case "ratio":
+      w.u8(quantize(type, value) as number);
+      break;
+    case "rgb": {
+      const c = value as Rgb;
+      w.u8(c.r);
+      w.u8(c.g);
+      w.u8(c.b);
+      break;
+    }
+    case "str":
+    case "optStr":
+      w.varuint(strings.intern(quantize(type, value) as string | undefined));
+      break;
+  }
+}
+
+function readField(r: ByteReader, type: FieldType, strings: Map<number, string>): unknown {
+  switch (type) {
+    case "pos":
+      return r.varint() / POSITION_QUANT;
+    case "upos":
+      return r.varuint() / POSITION_QUANT;
+    case "vel":
+      return r.varint() / VELOCITY_QUANT;
+    case "u8":
+      return r.u8();
+    case "ratio":
+      return r.u8() / 255;
+    case "uint":
+      return r.varuint();
+    case "optUint":
+      return r.varuint() || undefined;
+    case "rgb":
+      return { r: r.u8(), g: r.u8(), b: r.u8() };
+    case "str":
+      return strings.get(r.varuint()) ?? "";
+    case "optStr": {
+      const id = r.varuint();
+      return id === 0 ? undefined : strings.get(id);
+    }
+  }
+}
+
+/**
+ * Field-level diff between the last node sent to a client and the current one (same id
+ * and kind). Returns null when nothing changed at wire precision.
+ */
+export function diffNode(prev: NodeDto, next: NodeDto): NodePatchDto | null {
+  const before = prev as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+  let patch: Record<string, unknown> | null = null;
+  for (const field of NODE_FIELDS[next.kind]) {
+    if (quantize(field.type, before[field.key]) === quantize(field.type, after[field.key])) continue;
+    patch ??= { kind: next.kind, id: next.id };
+    patch[field.key] = after[field.key];
+  }
+  return patch as NodePatchDto | null;
+}
+
+function writeNode(w: ByteWriter, node: NodeDto | NodePatchDto, strings: StringInterner, partial: boolean) {
+  const fields = NODE_FIELDS[node.kind];
+  const values = node as Record<string, unknown>;
+  w.u8(NODE_KIND_CODES[node.kind]);
+  w.varuint(node.id);
+  if (!partial) {
+    for (const field of fields) writeField(w, field.type, values[field.key], strings);
+    return;
+  }
+  let mask = 0;
+  fields.forEach((field, i) => {
+    if (field.key in values) mask += 2 ** i;
+  });
+  w.varuint(mask);
+  for (const field of fields) {
+    if (field.key in values) writeField(w, field.type, values[field.key], strings);
+  }
+}
+
+function readNode(r: ByteReader, strings: Map<number, string>, partial: boolean): Record<string, unknown> {
+  const code = r.u8();
+  const kind = (Object.keys(NODE_KIND_CODES) as Array<NodeDto["kind"]>).find((k) => NODE_KIND_CODES[k] === code);
+  if (!kind) throw new Error(`Unknown node kind code ${code}`);
+  const node: Record<string, unknown> = { kind, id: r.varuint() };
+  const mask = partial ? r.varuint() : -1;
+  NODE_FIELDS[kind].forEach((field, i) => {
+    if (mask !== -1 && Math.floor(mask / 2 ** i) % 2 === 0) return;
+    const value = readField(r, field.type, strings);
+    if (value !== undefined) node[field.key] = value;
+  });
+  return node;
+}
+
+/**
+ * Encode a delta for one client. New strings referenced by the delta are appended to
+ * the client's interner and defined inline.
+ */
+export function encodeWorldDelta(delta: WorldDeltaDto, strings: StringInterner): Uint8Array {
+  // Nodes first so every string they reference is interned before the table is written.
+  const body = new ByteWriter();
+  body.varuint(delta.nodes.length);
+  for (const node of delta.nodes) writeNode(body, node, strings, false);
+  const patches = delta.patches ?? [];
+  body.varuint(patches.length);
+  for (const patch of patches) writeNode(body, patch, strings, true);
+
+  const w = new ByteWriter();
+  w.u8(DELTA_WIRE_VERSION);
+  w.varuint(delta.tick);
+  w.u8(
+    (delta.border ? HEADER_FLAG_BORDER : 0) |
+      (delta.keyframe ? HEADER_FLAG_KEYFRAME : 0) |
+      (delta.ackClientTick !== undefined ? HEADER_FLAG_ACK : 0) |
+      (delta.spectator ? HEADER_FLAG_SPECTATOR : 0),
+  );
+  if (delta.border) {
+    w.f32(delta.border.radius);
+    w.f32(delta.border.targetRadius);
+    w.f32(delta.border.velocity);
+  }
+  if (delta.ackClientTick !== undefined) w.varuint(delta.ackClientTick);
+  if (delta.spectator) {
+    w.varint(Math.round(delta.spectator.x * POSITION_QUANT));
+    w.varint(Math.round(delta.spectator.y * POSITION_QUANT));
+    w.varuint(delta.spectator.followId ?? 0);
+  }
+
+  const newStrings = strings.drainPending();
+  w.varuint(newStrings.length);
+  for (const [id, value] of newStrings) {
+    const bytes = textEncoder.encode(value);
+    w.varuint(id);
+    w.varuint(bytes.length);
+    w.bytes(bytes);
+  }
+
+  w.varuint(delta.ownedIds.length);
+  for (const id of delta.ownedIds) w.varuint(id);
+  w.varuint(delta.removedIds.length);
+  for (const id of delta.removedIds) w.varuint(id);
+
+  w.bytes(body.finish());
+  return w.finish();
+}
+
+/**
+ * Decode a binary delta (used by the client and by tests/tools).
+ * `strings` is the receiver's string table and is updated in place.
+ */
+export function decodeWorldDelta(bytes: Uint8Array, strings: Map<number, string>): WorldDeltaDto {
+  const r = new ByteReader(bytes);
+  const version = r.u8();
+  if (version !== DELTA_WIRE_VERSION) {
+    throw new Error(`Unsupported delta wire version ${version}`);
+  }
+  const tick = r.varuint();
+  const headerFlags = r.u8();
+  const border =
+    headerFlags & HEADER_FLAG_BORDER ? { radius: r.f32(), targetRadius: r.f32(), velocity: r.f32() } : undefined;
+  const ackClientTick = headerFlags & HEADER_FLAG_ACK ? r.varuint() : undefined;
+  let spectator: WorldDeltaDto["spectator"];
+  if (headerFlags & HEADER_FLAG_SPECTATOR) {
+    const x = r.varint() / POSITION_QUANT;
+    const y = r.varint() / POSITION_QUANT;
+    const followId = r.varuint();
+    spectator = followId === 0 ? { x, y } : { x, y, followId };
+  }
+
+  const newStrings = r.varuint();
+  for (let i = 0; i < newStrings; i++) {
+    const id = r.varuint();
+    strings.set(id, r.utf8(r.varuint()));
+  }
+
+  const ownedIds: number[] = [];
+  for (let i = r.varuint(); i > 0; i--) ownedIds.push(r.varuint());
+  const removedIds: number[] = [];
+  for (let i = r.varuint(); i > 0; i--) removedIds.push(r.varuint());
+
+  const nodes: NodeDto[] = [];
+  for (let i = r.varuint(); i > 0; i--) nodes.push(readNode(r, strings, false) as NodeDto);
+  const patches: NodePatchDto[] = [];
+  for (let i = r.varuint(); i > 0; i--) patches.push(readNode(r, strings, true) as NodePatchDto);
+
+  return {
+    tick,
+    nodes,
+    patches,
+    removedIds,
+    ownedIds,
+    border,
+    keyframe: (headerFlags & HEADER_FLAG_KEYFRAME) !== 0,
+    ackClientTick,
+    spectator,
+  };
+}